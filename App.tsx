@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import Login from './components/Login';
 import Layout from './components/Layout';
 import Dashboard from './components/Dashboard';
@@ -7,55 +7,64 @@ import Analytics from './components/Analytics';
 import ProjectMaster from './components/ProjectMaster';
 import EmployeeMaster from './components/EmployeeMaster';
 import ResourcePlanning from './components/ResourcePlanning';
+import DataManagement from './components/DataManagement';
+import AuditLog from './components/AuditLog';
+import Invoices from './components/Invoices';
+import Receivables from './components/Receivables';
+import TermComparison from './components/TermComparison';
+import UserManagement from './components/UserManagement';
+import LockScreen from './components/LockScreen';
 import { AppProvider } from './context/AppContext';
+import { AuthProvider, useAuth } from './context/AuthContext';
+import { canViewTab } from './services/permissions';
 
 const AppContent: React.FC = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { user, logout, isLocked } = useAuth();
   const [activeTab, setActiveTab] = useState('dashboard');
 
-  useEffect(() => {
-    const auth = localStorage.getItem('irwin_auth');
-    if (auth === 'true') setIsAuthenticated(true);
-  }, []);
-
-  const handleLogin = () => {
-    setIsAuthenticated(true);
-    localStorage.setItem('irwin_auth', 'true');
-  };
-
-  const handleLogout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem('irwin_auth');
-  };
-
-  if (!isAuthenticated) {
-    return <Login onLogin={handleLogin} />;
+  if (!user) {
+    return <Login />;
   }
 
+  // Members do not have the dashboard; fall back to the first tab the role can open
+  const visibleTab = canViewTab(user.role, activeTab) ? activeTab : (canViewTab(user.role, 'dashboard') ? 'dashboard' : 'resource');
+
   const renderContent = () => {
-    switch (activeTab) {
+    switch (visibleTab) {
       case 'dashboard': return <Dashboard />;
       case 'cf': return <CashFlow />;
+      case 'invoices': return <Invoices />;
+      case 'receivables': return <Receivables />;
       case 'analytics': return <Analytics />;
+      case 'comparison': return <TermComparison />;
       case 'projects': return <ProjectMaster />;
       case 'employees': return <EmployeeMaster />;
       case 'resource': return <ResourcePlanning />;
+      case 'audit': return <AuditLog />;
+      case 'data': return <DataManagement />;
+      case 'users': return <UserManagement />;
       default: return <Dashboard />;
     }
   };
 
+  // The lock screen overlays the app instead of replacing it, so unsaved input survives the re-login
   return (
-    <Layout activeTab={activeTab} setActiveTab={setActiveTab} onLogout={handleLogout}>
-      {renderContent()}
-    </Layout>
+    <>
+      <Layout activeTab={visibleTab} setActiveTab={setActiveTab} onLogout={logout}>
+        {renderContent()}
+      </Layout>
+      {isLocked && <LockScreen />}
+    </>
   );
 };
 
 const App: React.FC = () => {
   return (
-    <AppProvider>
-      <AppContent />
-    </AppProvider>
+    <AuthProvider>
+      <AppProvider>
+        <AppContent />
+      </AppProvider>
+    </AuthProvider>
   );
 };
 
@@ -1,32 +1,30 @@
 
 import React, { useMemo, useState } from 'react';
 import { useData } from '../context/AppContext';
-import { getProjectActualCost, formatCurrency, getMonthlyRevenue, parseLocalDate, getEmployeeMonthlyData, getProjectMonthlyCost } from '../utils';
-import { Project, WorkLog } from '../types';
+import { getProjectActualCost, formatCurrency, getMonthlyRevenue, parseLocalDate, getEmployeeMonthlyData, getProjectMonthlyCost, getTermMonths, getTermLabel, getCompletionProgress, getMonthlyContractRevenue, getProjectCurrency, formatMoney } from '../utils';
+import { Project, RevenueRecognitionMethod, WorkLog } from '../types';
 import { Info, X, Calculator } from 'lucide-react';
 
 const Analytics: React.FC = () => {
   const { projects, employees, settings, workLogs, currentTerm } = useData();
   const [selectedProjectForCost, setSelectedProjectForCost] = useState<Project | null>(null);
+  const termMonths = useMemo(() => getTermMonths(currentTerm, settings), [currentTerm, settings.fiscalYearEndMonth, settings.firstTermStartDate]);
 
   // Calculate project metrics based on HYBRID (Actuals + Plan) logic
   const projectMetrics = useMemo(() => {
     return projects.map(p => {
       // Iterate through months of the fiscal term
-      // Term starts Dec prev year
-      const startYear = currentTerm - 1;
-      
       let totalRevenue = 0;
+      let contractRevenue = 0; // In the contract currency, shown next to JPY for foreign-currency projects
       let totalCost = 0;
       
       const today = new Date();
       const currentMonthStart = new Date(today.getFullYear(), today.getMonth(), 1);
 
-      for (let i = 0; i < 12; i++) {
-        const d = new Date(startYear, 11 + i, 1); // Dec, Jan, Feb...
-        
+      termMonths.forEach(d => {
         // Revenue (Tax Excluded by default from getMonthlyRevenue)
-        totalRevenue += getMonthlyRevenue(p, d);
+        totalRevenue += getMonthlyRevenue(p, d, { employees, workLogs, fxRates: settings.fxRates, closedDays: settings.closedDays });
+        contractRevenue += getMonthlyContractRevenue(p, d, { employees, workLogs, closedDays: settings.closedDays });
         
         // Cost (Hybrid: Past = Actual, Future/Current = Plan)
         if (d < currentMonthStart) {
@@ -34,7 +32,7 @@ const Analytics: React.FC = () => {
         } else {
              totalCost += getProjectMonthlyCost(p, employees, d.getFullYear(), d.getMonth());
         }
-      }
+      });
 
       // Calculated as Tax Excluded (Zainuki)
       const profit = totalRevenue - totalCost;
@@ -44,13 +42,14 @@ const Analytics: React.FC = () => {
       return {
         ...p,
         totalRevenue,
+        contractRevenue,
         totalCost,
         profit,
         profitMargin,
         laborShare
       };
     }).sort((a, b) => b.totalRevenue - a.totalRevenue); // Sort by revenue
-  }, [projects, employees, workLogs, currentTerm]);
+  }, [projects, employees, workLogs, termMonths, settings.fxRates]);
 
   // Derive Target Profit Margin from Labor Share settings
   // Labor Share 40-50% -> Profit Margin 50-60%
@@ -59,13 +58,12 @@ const Analytics: React.FC = () => {
 
   // Helper to generate monthly cost breakdown for a project
   const getCostBreakdown = (project: Project) => {
-    const startYear = currentTerm - 1;
     const breakdown = [];
+    const isCompletionBasis = project.useFlow && project.revenueMethod === RevenueRecognitionMethod.PercentageOfCompletion;
     const today = new Date();
     const currentMonthStart = new Date(today.getFullYear(), today.getMonth(), 1);
 
-    for (let i = 0; i < 12; i++) {
-        const d = new Date(startYear, 11 + i, 1);
+    termMonths.forEach(d => {
         const year = d.getFullYear();
         const month = d.getMonth();
         const isPast = d < currentMonthStart;
@@ -108,9 +106,11 @@ const Analytics: React.FC = () => {
             monthLabel: `${year}/${month + 1}`,
             cost,
             method,
-            details
+            details,
+            // Percentage of completion at month end (進行基準 projects only)
+            progress: isCompletionBasis ? (getCompletionProgress(project, d, { employees, workLogs })?.ratio ?? 0) : undefined
         });
-    }
+    });
     return breakdown;
   };
 
@@ -118,7 +118,7 @@ const Analytics: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <div>
-          <h2 className="text-xl font-bold text-gray-800">プロジェクト別収支分析 ({currentTerm}年11月期)</h2>
+          <h2 className="text-xl font-bold text-gray-800">プロジェクト別収支分析 ({getTermLabel(currentTerm, settings)})</h2>
           <p className="text-sm text-gray-500 mt-1">※ 売上は税抜計算、原価は過去月は実績、当月以降は予定(アサイン計画)に基づいて計算されています。</p>
         </div>
         <div className="text-sm bg-white p-2 rounded border shadow-sm">
@@ -155,6 +155,7 @@ const Analytics: React.FC = () => {
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
                   {formatCurrency(p.totalRevenue)}
+                  {getProjectCurrency(p) !== 'JPY' && <div className="text-[10px] text-gray-400 font-mono">{formatMoney(p.contractRevenue, getProjectCurrency(p))}</div>}
                 </td>
                 <td 
                   onClick={() => setSelectedProjectForCost(p)}
@@ -254,6 +255,23 @@ const Analytics: React.FC = () => {
                     ・当月・未来: アサイン稼働率に基づく予定原価計算 (日割按分あり)<br/>
                     ※ 予実管理画面で実績を入力すると、その月の原価は実績ベースに上書きされます。
                  </p>
+                 {selectedProjectForCost.useFlow && selectedProjectForCost.revenueMethod === RevenueRecognitionMethod.PercentageOfCompletion && (() => {
+                    const progress = getCompletionProgress(selectedProjectForCost, new Date(), { employees, workLogs });
+                    const unit = selectedProjectForCost.completionBasis === 'hours' ? 'h' : '';
+                    const formatValue = (v: number) => unit ? `${Math.round(v * 10) / 10}${unit}` : formatCurrency(v);
+                    return (
+                      <div className="mb-3 p-3 rounded border border-purple-200 bg-purple-50 text-xs text-purple-900">
+                        <div className="font-bold mb-1">進行基準: 進捗率 {progress ? `${(progress.ratio * 100).toFixed(1)}%` : '見積未登録'}</div>
+                        {progress && (
+                          <div className="flex gap-4">
+                            <span>累計実績: {formatValue(progress.actual)}</span>
+                            <span>見積総{unit ? '工数' : '原価'}: {formatValue(progress.estimate.estimatedTotal)} ({progress.estimate.effectiveMonth}〜)</span>
+                            <span>累計計上売上: {formatMoney(Math.floor(selectedProjectForCost.flowAmount * progress.ratio), getProjectCurrency(selectedProjectForCost))}</span>
+                          </div>
+                        )}
+                      </div>
+                    );
+                 })()}
                  <table className="min-w-full divide-y divide-gray-200 text-sm">
                     <thead className="bg-gray-50">
                        <tr>
@@ -261,6 +279,9 @@ const Analytics: React.FC = () => {
                           <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">原価</th>
                           <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">計算根拠</th>
                           <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">詳細</th>
+                          {selectedProjectForCost.revenueMethod === RevenueRecognitionMethod.PercentageOfCompletion && selectedProjectForCost.useFlow && (
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">進捗率</th>
+                          )}
                        </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
@@ -274,6 +295,9 @@ const Analytics: React.FC = () => {
                                  {row.method === '予定なし' && <span className="text-gray-400">-</span>}
                               </td>
                               <td className="px-3 py-2 text-xs text-gray-500">{row.details}</td>
+                              {row.progress !== undefined && (
+                                <td className="px-3 py-2 text-right text-xs font-mono text-purple-700">{(row.progress * 100).toFixed(1)}%</td>
+                              )}
                            </tr>
                        ))}
                     </tbody>
@@ -0,0 +1,238 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../context/AppContext';
+import { AuditAction, AuditEntityType, AuditEntry } from '../types';
+import { AUDIT_ENTITY_LABELS, formatAuditValue, getAuditFieldLabel } from '../services/audit';
+import { History, Filter, TrendingUp, X } from 'lucide-react';
+
+const PAGE_SIZE = 200;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: '追加',
+  update: '変更',
+  delete: '削除',
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-50 text-green-700 border-green-200',
+  update: 'bg-blue-50 text-blue-700 border-blue-200',
+  delete: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString('ja-JP');
+
+const AuditLog: React.FC = () => {
+  const { auditLog } = useData();
+
+  // Filters
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [entityId, setEntityId] = useState('');
+  const [userEmail, setUserEmail] = useState('');
+  const [field, setField] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const users = useMemo(() => Array.from(new Set(auditLog.map(e => e.userEmail))).sort(), [auditLog]);
+
+  // Entities of the selected type, labelled with their latest recorded name
+  const entities = useMemo(() => {
+    const names = new Map<string, string>();
+    auditLog.forEach(e => {
+      if (e.entityType === entityType) names.set(e.entityId, e.entityName);
+    });
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1], 'ja'));
+  }, [auditLog, entityType]);
+
+  const filtered = useMemo(() => auditLog.filter(e =>
+    (!entityType || e.entityType === entityType) &&
+    (!entityId || e.entityId === entityId) &&
+    (!userEmail || e.userEmail === userEmail) &&
+    (!field || e.changes.some(c => c.field === field))
+  ), [auditLog, entityType, entityId, userEmail, field]);
+
+  const fields = useMemo(() => {
+    const set = new Set<string>();
+    auditLog.forEach(e => {
+      if ((!entityType || e.entityType === entityType) && (!entityId || e.entityId === entityId)) {
+        e.changes.forEach(c => set.add(c.field));
+      }
+    });
+    return Array.from(set).sort();
+  }, [auditLog, entityType, entityId]);
+
+  // Value history of one field, oldest first
+  const fieldTimeline = useMemo(() => {
+    if (!field) return [];
+    return filtered.flatMap(e => e.changes
+      .filter(c => c.field === field)
+      .map(c => ({ entry: e, before: c.before, after: c.after })));
+  }, [filtered, field]);
+
+  const rows = useMemo(() => [...filtered].reverse().slice(0, visibleCount), [filtered, visibleCount]);
+
+  const resetFilters = () => {
+    setEntityType('');
+    setEntityId('');
+    setUserEmail('');
+    setField('');
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const showFieldHistory = (entry: AuditEntry, fieldName: string) => {
+    setEntityType(entry.entityType);
+    setEntityId(entry.entityId);
+    setField(fieldName);
+  };
+
+  const selectClass = "border border-gray-300 rounded px-2 py-1.5 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-gray-700 flex items-center">
+          <History className="w-5 h-5 mr-2 text-gray-500" /> 変更履歴 (監査ログ)
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          案件・従業員・CF項目・売上目標・設定の変更を、操作ユーザーと日時つきで記録しています。履歴は追記のみで、削除・編集はできません。
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 flex flex-wrap items-end gap-4">
+        <Filter className="w-5 h-5 text-gray-400 mb-1.5" />
+        <div>
+          <label className="block text-xs font-bold text-gray-500 mb-1">対象</label>
+          <select
+            className={selectClass}
+            value={entityType}
+            onChange={e => { setEntityType(e.target.value as AuditEntityType | ''); setEntityId(''); setField(''); }}
+          >
+            <option value="">すべて</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(type => (
+              <option key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        {entityType && (
+          <div>
+            <label className="block text-xs font-bold text-gray-500 mb-1">{AUDIT_ENTITY_LABELS[entityType]}</label>
+            <select className={selectClass} value={entityId} onChange={e => { setEntityId(e.target.value); setField(''); }}>
+              <option value="">すべて</option>
+              {entities.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="block text-xs font-bold text-gray-500 mb-1">項目</label>
+          <select className={selectClass} value={field} onChange={e => setField(e.target.value)}>
+            <option value="">すべて</option>
+            {fields.map(f => <option key={f} value={f}>{getAuditFieldLabel(f)}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-gray-500 mb-1">ユーザー</label>
+          <select className={selectClass} value={userEmail} onChange={e => setUserEmail(e.target.value)}>
+            <option value="">すべて</option>
+            {users.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+        </div>
+        <button onClick={resetFilters} className="flex items-center text-sm text-gray-500 hover:text-gray-700 mb-1.5">
+          <X className="w-4 h-4 mr-1" /> クリア
+        </button>
+        <div className="ml-auto text-sm text-gray-500 mb-1.5">{filtered.length}件</div>
+      </div>
+
+      {/* Value history of the selected field */}
+      {field && (
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+          <h3 className="text-sm font-bold text-gray-700 mb-3 flex items-center">
+            <TrendingUp className="w-4 h-4 mr-2 text-blue-600" />
+            {getAuditFieldLabel(field)} の推移
+            {entityId && <span className="ml-2 font-normal text-gray-500">({entities.find(([id]) => id === entityId)?.[1]})</span>}
+          </h3>
+          {fieldTimeline.length === 0 ? (
+            <p className="text-sm text-gray-400">該当する変更はありません。</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+              {fieldTimeline.map(({ entry, before, after }) => (
+                <li key={entry.id} className="relative ml-4 text-sm">
+                  <div className="absolute w-2 h-2 bg-blue-500 rounded-full -left-[21px] top-1.5" />
+                  <span className="text-xs text-gray-400 font-mono mr-2">{formatTimestamp(entry.timestamp)}</span>
+                  {!entityId && <span className="text-gray-600 mr-2">{entry.entityName}:</span>}
+                  <span className="text-gray-400 line-through mr-1">{formatAuditValue(before)}</span>
+                  → <span className="font-bold text-gray-800 ml-1">{formatAuditValue(after)}</span>
+                  <span className="text-xs text-gray-400 ml-2">by {entry.userEmail}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 whitespace-nowrap">日時</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">ユーザー</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">対象</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">操作</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">変更内容</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-sm text-gray-400">変更履歴はまだありません。</td>
+              </tr>
+            )}
+            {rows.map(entry => (
+              <tr key={entry.id} className="align-top hover:bg-gray-50">
+                <td className="px-4 py-3 text-xs text-gray-500 font-mono whitespace-nowrap">{formatTimestamp(entry.timestamp)}</td>
+                <td className="px-4 py-3 text-xs text-gray-600">{entry.userEmail}</td>
+                <td className="px-4 py-3 text-sm">
+                  <span className="text-xs text-gray-400 block">{AUDIT_ENTITY_LABELS[entry.entityType]}</span>
+                  <span className="font-medium text-gray-800">{entry.entityName}</span>
+                </td>
+                <td className="px-4 py-3">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${ACTION_STYLES[entry.action]}`}>
+                    {ACTION_LABELS[entry.action]}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-xs">
+                  <p className="text-gray-400 mb-1">{entry.description}</p>
+                  {entry.action === 'update' && (
+                    <ul className="space-y-0.5">
+                      {entry.changes.map(c => (
+                        <li key={c.field}>
+                          <button
+                            onClick={() => showFieldHistory(entry, c.field)}
+                            className="font-bold text-gray-600 hover:text-blue-600 hover:underline mr-1"
+                            title="この項目の推移を表示"
+                          >
+                            {getAuditFieldLabel(c.field)}:
+                          </button>
+                          <span className="text-gray-400">{formatAuditValue(c.before)}</span>
+                          <span className="mx-1 text-gray-400">→</span>
+                          <span className="text-gray-800">{formatAuditValue(c.after)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filtered.length > visibleCount && (
+          <div className="p-3 text-center border-t">
+            <button onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)} className="text-sm text-blue-600 hover:underline">
+              さらに表示 (残り {filtered.length - visibleCount}件)
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { useData } from '../context/AppContext';
+import { ClosedDay } from '../types';
+import { generateId, getJapaneseHolidays, isClosedDay, parseLocalDate } from '../utils';
+import { CalendarDays, Trash2, X } from 'lucide-react';
+
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+const formatClosedRange = (c: ClosedDay) => {
+  const range = c.end && c.end !== c.start ? `${c.start} 〜 ${c.end}` : c.start;
+  return c.recurring ? `毎年 ${range}` : range;
+};
+
+// Business-day calendar: national holidays (generated, read-only) and company closed days.
+// Payment dates with a shift rule move off weekends and both kinds of closed days.
+const BusinessCalendarModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { settings, updateSettings } = useData();
+  const [closedDays, setClosedDays] = useState<ClosedDay[]>(settings.closedDays || []);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [newDay, setNewDay] = useState({ name: '', start: '', end: '', recurring: false });
+
+  const holidays = Array.from(getJapaneseHolidays(year).entries());
+
+  const handleAdd = () => {
+    if (!newDay.name || !newDay.start) {
+      alert('名称と開始日を入力してください。');
+      return;
+    }
+    if (newDay.end && newDay.end < newDay.start && !newDay.recurring) {
+      alert('終了日は開始日以降の日付を指定してください。');
+      return;
+    }
+    // Recurring entries keep only the month and day, so a range such as 12-29 to 01-03 wraps the year end
+    const toKey = (date: string) => newDay.recurring ? date.slice(5) : date;
+    setClosedDays([...closedDays, {
+      id: generateId(),
+      name: newDay.name,
+      start: toKey(newDay.start),
+      end: newDay.end ? toKey(newDay.end) : undefined,
+      recurring: newDay.recurring || undefined,
+    }]);
+    setNewDay({ name: '', start: '', end: '', recurring: false });
+  };
+
+  const handleSave = () => {
+    updateSettings({ ...settings, closedDays }, '営業日カレンダーを更新しました');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg w-[640px] max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <CalendarDays className="w-5 h-5 mr-2 text-gray-500" /> 営業日カレンダー
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-3">
+          土日・国民の祝日・会社の休業日は営業日から除かれます。案件の入金条件やCF項目で「前営業日」「翌営業日」を選ぶと、支払日が休業日に当たる場合に営業日へずらして計算します。
+        </p>
+
+        <div className="grid grid-cols-2 gap-4 flex-1 overflow-hidden min-h-0">
+          {/* National holidays */}
+          <div className="flex flex-col min-h-0">
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="text-sm font-bold text-gray-700">国民の祝日</h4>
+              <select className="border rounded p-1 text-xs bg-white" value={year} onChange={e => setYear(Number(e.target.value))}>
+                {[-1, 0, 1, 2].map(offset => new Date().getFullYear() + offset).map(y => <option key={y} value={y}>{y}年</option>)}
+              </select>
+            </div>
+            <div className="flex-1 overflow-y-auto border rounded">
+              <table className="min-w-full text-xs">
+                <tbody className="divide-y divide-gray-100">
+                  {holidays.map(([date, name]) => (
+                    <tr key={date}>
+                      <td className="px-3 py-1.5 font-mono">{date} ({WEEKDAYS[parseLocalDate(date).getDay()]})</td>
+                      <td className="px-3 py-1.5">
+                        {name}
+                        {isClosedDay(parseLocalDate(date), closedDays) && <span className="ml-1 text-gray-400">(休業日と重複)</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Company closed days */}
+          <div className="flex flex-col min-h-0">
+            <h4 className="text-sm font-bold text-gray-700 mb-2 py-1">会社の休業日</h4>
+            <div className="flex-1 overflow-y-auto border rounded">
+              <table className="min-w-full text-xs">
+                <tbody className="divide-y divide-gray-100">
+                  {closedDays.map(c => (
+                    <tr key={c.id}>
+                      <td className="px-3 py-1.5 font-bold">{c.name}</td>
+                      <td className="px-3 py-1.5 font-mono">{formatClosedRange(c)}</td>
+                      <td className="px-3 py-1.5 text-center w-8">
+                        <button onClick={() => setClosedDays(closedDays.filter(d => d.id !== c.id))} className="text-red-400 hover:text-red-600" title="削除">
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  {closedDays.length === 0 && (
+                    <tr><td colSpan={3} className="px-3 py-4 text-center text-gray-400">休業日は登録されていません</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-end gap-2 text-xs bg-gray-50 p-3 rounded border mt-3">
+          <div className="flex-1">
+            <label className="block text-gray-500 mb-1">名称</label>
+            <input type="text" className="border p-1 rounded w-full" placeholder="夏季休業 など" value={newDay.name} onChange={e => setNewDay({ ...newDay, name: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-gray-500 mb-1">開始日</label>
+            <input type="date" className="border p-1 rounded" value={newDay.start} onChange={e => setNewDay({ ...newDay, start: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-gray-500 mb-1">終了日 (任意)</label>
+            <input type="date" className="border p-1 rounded" value={newDay.end} onChange={e => setNewDay({ ...newDay, end: e.target.value })} />
+          </div>
+          <label className="flex items-center text-gray-600 cursor-pointer pb-1.5">
+            <input type="checkbox" className="mr-1" checked={newDay.recurring} onChange={e => setNewDay({ ...newDay, recurring: e.target.checked })} />
+            毎年
+          </label>
+          <button onClick={handleAdd} className="px-3 py-1.5 bg-gray-700 text-white rounded font-bold hover:bg-gray-800">追加</button>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+          <button onClick={handleSave} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700">保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BusinessCalendarModal;
@@ -1,30 +1,47 @@
 
 import React, { useMemo, useState } from 'react';
 import { useData } from '../context/AppContext';
-import { generateProjections, formatCurrency, getTermDateRange, generateId, generateDailyCashFlow } from '../utils';
-import { CashFlowCategory, CashFlowItem } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { generateProjections, formatCurrency, getTermDateRange, generateId, generateDailyCashFlow, resolveProjectionRange, getTermBoundaries, ProjectionRange, BUSINESS_DAY_SHIFT_LABELS, TAX_CODE_LABELS, getCashFlowItemTaxCode } from '../utils';
+import { BusinessDayShift, CashFlowCategory, CashFlowItem, TaxCode } from '../types';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ComposedChart, Line
 } from 'recharts';
-import { Settings, Plus, Trash2, Wallet, Calendar, ArrowRight } from 'lucide-react';
+import { Settings, Plus, Trash2, Wallet, Calendar, ArrowRight, ShieldCheck } from 'lucide-react';
 import { NumberInput } from './NumberInput';
+import ProjectionRangeSelector from './ProjectionRangeSelector';
+import ReauthModal from './ReauthModal';
+import ConsumptionTaxPanel from './ConsumptionTaxPanel';
 
 const CashFlow: React.FC = () => {
   const { projects, employees, workLogs, currentTerm, settings, updateSettings } = useData();
-  const { start } = useMemo(() => getTermDateRange(currentTerm), [currentTerm]);
-  const data = useMemo(() => generateProjections(projects, employees, workLogs, start, settings), [projects, employees, workLogs, start, settings]);
+  const [range, setRange] = useState<ProjectionRange>({ mode: 'term' });
+  const { start, monthCount } = useMemo(() => resolveProjectionRange(range, currentTerm, settings), [range, currentTerm, settings]);
+  const data = useMemo(() => generateProjections(projects, employees, workLogs, start, settings, monthCount), [projects, employees, workLogs, start, settings, monthCount]);
+  const termBoundaries = useMemo(() => getTermBoundaries(data, settings), [data, settings]);
+  const fxGainLoss = useMemo(() => data.reduce((sum, d) => sum + d.fxGainLoss, 0), [data]);
+  // Month labels repeat across terms, so rolling views label the axis with the year
+  const xKey = range.mode === 'term' ? 'month' : 'yearMonthLabel';
+  const termStartMonth = useMemo(() => {
+    const termStart = getTermDateRange(currentTerm, settings).start;
+    return `${termStart.getFullYear()}-${String(termStart.getMonth() + 1).padStart(2, '0')}`;
+  }, [currentTerm, settings]);
 
+  const { isRecentlyAuthenticated } = useAuth();
   const [showSettings, setShowSettings] = useState(false);
+  const [showReauth, setShowReauth] = useState(false);
   const [newItem, setNewItem] = useState<Partial<CashFlowItem>>({
     name: '',
     category: CashFlowCategory.OperatingExpense,
     amount: 0,
     isRecurring: true,
     // Default to Full Term
-    periodStart: `${currentTerm}-01`, // Rough default
+    periodStart: termStartMonth,
     periodEnd: '',
     payDay: 25, // Common payment day
-    paymentDate: new Date().toISOString().slice(0, 10)
+    paymentDate: new Date().toISOString().slice(0, 10),
+    shift: 'none',
+    taxCode: 'standard'
   });
 
   // Daily View State
@@ -41,11 +58,9 @@ const CashFlow: React.FC = () => {
      const dataIdx = data.findIndex(d => d.date.getFullYear() === viewYear && d.date.getMonth() === viewMonth);
      
      let initialBalance = settings.initialCashBalance || 0;
-     if (dataIdx > 0) {
-         initialBalance = data[dataIdx - 1].cashBalance;
-     } else if (dataIdx === 0) {
-         // It's the first month of term, use initial settings
-         initialBalance = settings.initialCashBalance || 0;
+     if (dataIdx >= 0) {
+         // Opening balance = closing balance minus the month's own change (works across term boundaries)
+         initialBalance = data[dataIdx].cashBalance - data[dataIdx].cashBalanceChange;
      } else {
          // Out of range (future/past beyond projection), fallback to last known or 0
          // Use the last month's balance if it's future
@@ -54,8 +69,8 @@ const CashFlow: React.FC = () => {
          }
      }
 
-     return generateDailyCashFlow(dailyViewDate, projects, settings, initialBalance);
-  }, [dailyViewDate, data, projects, settings]);
+     return generateDailyCashFlow(dailyViewDate, projects, settings, initialBalance, { employees, workLogs, closedDays: settings.closedDays, taxRates: settings.taxRates });
+  }, [dailyViewDate, data, projects, employees, workLogs, settings]);
 
   // Calculate global max value for shared Y-axis domain to synchronize scales
   const maxValue = useMemo(() => {
@@ -77,6 +92,8 @@ const CashFlow: React.FC = () => {
       amount: Number(newItem.amount),
       isRecurring: newItem.isRecurring!,
     };
+    if (newItem.shift && newItem.shift !== 'none') item.shift = newItem.shift;
+    if (newItem.taxCode && newItem.taxCode !== 'nonTaxable') item.taxCode = newItem.taxCode;
 
     if (item.isRecurring) {
         item.periodStart = newItem.periodStart;
@@ -89,7 +106,7 @@ const CashFlow: React.FC = () => {
     updateSettings({
       ...settings,
       cashFlowItems: [...(settings.cashFlowItems || []), item]
-    });
+    }, `CF項目『${item.name}』を追加しました`);
     
     // Reset form
     setNewItem({
@@ -97,22 +114,30 @@ const CashFlow: React.FC = () => {
       category: CashFlowCategory.OperatingExpense,
       amount: 0,
       isRecurring: true,
-      periodStart: `${currentTerm}-01`,
+      periodStart: termStartMonth,
       periodEnd: '',
       payDay: 25,
-      paymentDate: new Date().toISOString().slice(0, 10)
+      paymentDate: new Date().toISOString().slice(0, 10),
+      shift: 'none',
+      taxCode: 'standard'
     });
   };
 
   const handleDeleteItem = (id: string) => {
+    const item = settings.cashFlowItems.find(i => i.id === id);
     updateSettings({
       ...settings,
       cashFlowItems: settings.cashFlowItems.filter(i => i.id !== id)
-    });
+    }, `CF項目『${item?.name || ''}』を削除しました`);
   };
 
   const handleInitialBalanceChange = (val: number) => {
-    updateSettings({ ...settings, initialCashBalance: val });
+    updateSettings({ ...settings, initialCashBalance: val }, '基準月 現預金残高を変更しました');
+  };
+
+  const handleBalanceAsOfChange = (month: string) => {
+    if (!month) return;
+    updateSettings({ ...settings, cashBalanceAsOf: month }, '現預金残高の基準月を変更しました');
   };
 
   // Custom Tooltip for Detailed Breakdown
@@ -141,6 +166,24 @@ const CashFlow: React.FC = () => {
                          <span className="text-gray-600">売上</span>
                          <span className="font-mono text-gray-800">{formatCurrency(d.cashIn)}</span>
                       </div>
+                      {d.cashInTax !== 0 && (
+                          <div className="flex justify-between text-xs">
+                             <span className="text-gray-500 pl-2">うち消費税</span>
+                             <span className="font-mono text-gray-600">{formatCurrency(d.cashInTax)}</span>
+                          </div>
+                      )}
+                      {d.fxGainLoss !== 0 && (
+                          <div className="flex justify-between text-xs">
+                             <span className="text-gray-500 pl-2">うち為替差損益</span>
+                             <span className={`font-mono ${d.fxGainLoss > 0 ? 'text-green-700' : 'text-red-600'}`}>{d.fxGainLoss > 0 ? '+' : ''}{formatCurrency(d.fxGainLoss)}</span>
+                          </div>
+                      )}
+                      {d.taxRefund > 0 && (
+                          <div className="flex justify-between text-xs">
+                             <span className="text-gray-600">消費税還付</span>
+                             <span className="font-mono text-gray-800">{formatCurrency(d.taxRefund)}</span>
+                          </div>
+                      )}
                       {d.financialIn > 0 && (
                           <div className="flex justify-between text-xs">
                              <span className="text-green-600 font-medium">調達等</span>
@@ -161,14 +204,32 @@ const CashFlow: React.FC = () => {
                          <span className="text-gray-600">人件費</span>
                          <span className="font-mono text-gray-800">{formatCurrency(d.cost)}</span>
                       </div>
+                      {d.contractorTax !== 0 && (
+                          <div className="flex justify-between text-xs">
+                             <span className="text-gray-500 pl-2">うち消費税 (業務委託)</span>
+                             <span className="font-mono text-gray-600">{formatCurrency(d.contractorTax)}</span>
+                          </div>
+                      )}
                       <div className="flex justify-between text-xs">
                          <span className="text-gray-600">販管費</span>
                          <span className="font-mono text-gray-800">{formatCurrency(d.sga)}</span>
                       </div>
+                      {d.sgaTax !== 0 && (
+                          <div className="flex justify-between text-xs">
+                             <span className="text-gray-500 pl-2">うち消費税</span>
+                             <span className="font-mono text-gray-600">{formatCurrency(d.sgaTax)}</span>
+                          </div>
+                      )}
                       <div className="flex justify-between text-xs">
                          <span className="text-gray-600">財務・税</span>
                          <span className="font-mono text-red-700 font-medium">{formatCurrency(d.taxRepayment)}</span>
                       </div>
+                      {d.consumptionTax > 0 && (
+                          <div className="flex justify-between text-xs">
+                             <span className="text-gray-500 pl-2">うち消費税 (予測)</span>
+                             <span className="font-mono text-gray-600">{formatCurrency(d.consumptionTax)}</span>
+                          </div>
+                      )}
                       {d.investment > 0 && (
                           <div className="flex justify-between text-xs border-t border-red-100 pt-1 mt-1">
                              <span className="text-gray-500">投資</span>
@@ -195,7 +256,10 @@ const CashFlow: React.FC = () => {
           const d = payload[0].payload;
           return (
              <div className="bg-white border border-gray-200 rounded p-2 shadow-lg text-xs">
-                 <div className="font-bold text-gray-700 mb-1">{dailyViewDate.getMonth()+1}月{d.day}日</div>
+                 <div className="font-bold text-gray-700 mb-1">
+                     {dailyViewDate.getMonth()+1}月{d.day}日
+                     {!d.businessDay && <span className="ml-1 text-[10px] font-normal text-red-500">休業日</span>}
+                 </div>
                  <div className="text-blue-600 font-bold">残高: {formatCurrency(d.balance)}</div>
                  {d.change !== 0 && (
                      <div className={d.change > 0 ? 'text-green-600' : 'text-red-600'}>
@@ -214,20 +278,28 @@ const CashFlow: React.FC = () => {
         <div>
           <h2 className="text-xl font-bold text-gray-800">キャッシュフローシミュレーション</h2>
           <p className="text-sm text-gray-500">営業CFだけでなく、借入返済・税金等の財務CFを含めた資金繰り推移</p>
+          {fxGainLoss !== 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              外貨建て入金の為替差損益 (期間計・税抜): <span className={`font-mono font-bold ${fxGainLoss > 0 ? 'text-green-700' : 'text-red-600'}`}>{fxGainLoss > 0 ? '+' : ''}{formatCurrency(fxGainLoss)}</span>
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <ProjectionRangeSelector value={range} onChange={setRange} />
+          <button 
+            onClick={() => setShowSettings(true)}
+            className="flex items-center px-4 py-2 border border-gray-300 rounded text-gray-600 hover:bg-gray-50 text-sm font-bold shadow-sm"
+          >
+            <Settings className="w-4 h-4 mr-2" /> CF設定 (家賃・税・返済)
+          </button>
         </div>
-        <button 
-          onClick={() => setShowSettings(true)}
-          className="flex items-center px-4 py-2 border border-gray-300 rounded text-gray-600 hover:bg-gray-50 text-sm font-bold shadow-sm"
-        >
-          <Settings className="w-4 h-4 mr-2" /> CF設定 (家賃・税・返済)
-        </button>
       </div>
 
       <div className="min-h-[350px] mb-8">
         <ResponsiveContainer width="100%" height="100%">
           <ComposedChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
             <CartesianGrid strokeDasharray="3 3" vertical={false} />
-            <XAxis dataKey="month" fontSize={12} />
+            <XAxis dataKey={xKey} fontSize={12} />
             {/* Sync Y-Axis Domains */}
             <YAxis 
                 yAxisId="left" 
@@ -245,6 +317,17 @@ const CashFlow: React.FC = () => {
             <Tooltip content={<CustomTooltip />} />
             <Legend wrapperStyle={{ paddingTop: '10px' }}/>
             <ReferenceLine y={0} yAxisId="left" stroke="#000" />
+            {/* Term dividers */}
+            {termBoundaries.map(b => (
+              <ReferenceLine
+                key={b.monthKey}
+                x={data.find(d => d.monthKey === b.monthKey)?.[xKey]}
+                yAxisId="left"
+                stroke="#6b7280"
+                strokeDasharray="4 4"
+                label={{ value: b.label, position: 'insideTopLeft', fontSize: 10, fill: '#6b7280' }}
+              />
+            ))}
             
             {/* Stacked Outflows */}
             <Bar yAxisId="left" dataKey="cost" name="人件費 (労務)" stackId="out" fill="#fca5a5" />
@@ -295,12 +378,14 @@ const CashFlow: React.FC = () => {
          </div>
       </div>
 
+      <ConsumptionTaxPanel />
+
       <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
         <div className="p-3 bg-blue-50 rounded border border-blue-100 flex items-center">
            <Wallet className="w-5 h-5 text-blue-600 mr-3" />
            <div>
              <div className="font-bold text-blue-900">現預金残高 (ランウェイ)</div>
-             <div className="text-xs text-blue-700">期首残高から毎月の収支を累積。これが0を下回ると資金ショートです。</div>
+             <div className="text-xs text-blue-700">基準月の残高から毎月の収支を累積 (期をまたいで繰越)。これが0を下回ると資金ショートです。</div>
            </div>
         </div>
         <div className="p-3 bg-orange-50 rounded border border-orange-100">
@@ -327,36 +412,55 @@ const CashFlow: React.FC = () => {
             </div>
 
             <div className="mb-8 p-4 bg-blue-50 rounded border border-blue-100">
-               <label className="block text-sm font-bold text-blue-900 mb-2">期首 現預金残高 ({currentTerm}年期首時点)</label>
+               <label className="block text-sm font-bold text-blue-900 mb-2">現預金残高 (基準月の月初時点)</label>
                <div className="flex items-center gap-2">
+                 <input
+                   type="month"
+                   className="border p-2 rounded text-sm"
+                   value={settings.cashBalanceAsOf || termStartMonth}
+                   onChange={e => handleBalanceAsOfChange(e.target.value)}
+                 />
+                 <span className="text-blue-800 text-sm">月初</span>
                  <NumberInput 
-                   className="border p-2 rounded w-48 text-right font-mono text-lg" 
+                   className={`border p-2 rounded w-48 text-right font-mono text-lg ${isRecentlyAuthenticated ? '' : 'bg-gray-100 text-gray-500'}`}
                    value={settings.initialCashBalance || 0}
                    onChange={val => handleInitialBalanceChange(val)}
+                   readOnly={!isRecentlyAuthenticated}
                  />
                  <span className="text-blue-800 font-bold">円</span>
+                 {!isRecentlyAuthenticated && (
+                   <button onClick={() => setShowReauth(true)} className="ml-2 flex items-center text-xs text-blue-700 hover:text-blue-900 font-bold">
+                     <ShieldCheck className="w-4 h-4 mr-1" /> 編集するには再認証
+                   </button>
+                 )}
                </div>
-               <p className="text-xs text-blue-600 mt-2">※ この金額をスタート地点として、毎月の収支を積み上げ計算します。</p>
+               <p className="text-xs text-blue-600 mt-2">※ この金額をスタート地点として、毎月の収支を積み上げ計算します。他の期・ローリング表示でも同じ基準から繰り越されます。</p>
             </div>
 
             <div className="mb-6">
               <h4 className="font-bold text-gray-700 mb-2">営業外・固定費アイテム登録</h4>
               <div className="bg-gray-50 p-4 rounded border grid grid-cols-12 gap-4 items-end">
                 {/* Row 1: Basic Info */}
-                <div className="col-span-4">
+                <div className="col-span-3">
                   <label className="text-xs font-bold text-gray-500 block mb-1">項目名</label>
                   <input className="w-full border p-2 rounded text-sm" placeholder="家賃, 返済など" value={newItem.name} onChange={e => setNewItem({...newItem, name: e.target.value})} />
                 </div>
-                <div className="col-span-4">
+                <div className="col-span-3">
                   <label className="text-xs font-bold text-gray-500 block mb-1">カテゴリー</label>
                   <select className="w-full border p-2 rounded text-sm" value={newItem.category} onChange={e => setNewItem({...newItem, category: e.target.value as CashFlowCategory})}>
                     {Object.values(CashFlowCategory).map(c => <option key={c} value={c}>{c}</option>)}
                   </select>
                 </div>
-                <div className="col-span-4">
-                  <label className="text-xs font-bold text-gray-500 block mb-1">金額</label>
+                <div className="col-span-3">
+                  <label className="text-xs font-bold text-gray-500 block mb-1">金額 (税込)</label>
                   <NumberInput className="w-full border p-2 rounded text-sm text-right" value={newItem.amount || 0} onChange={val => setNewItem({...newItem, amount: val})} />
                 </div>
+                <div className="col-span-3">
+                  <label className="text-xs font-bold text-gray-500 block mb-1">消費税区分</label>
+                  <select className="w-full border p-2 rounded text-sm bg-white" value={newItem.taxCode || 'nonTaxable'} onChange={e => setNewItem({...newItem, taxCode: e.target.value as TaxCode})}>
+                    {(Object.keys(TAX_CODE_LABELS) as TaxCode[]).map(code => <option key={code} value={code}>{TAX_CODE_LABELS[code]}</option>)}
+                  </select>
+                </div>
 
                 {/* Row 2: Timing & Period */}
                 <div className="col-span-3">
@@ -373,7 +477,7 @@ const CashFlow: React.FC = () => {
 
                 {newItem.isRecurring ? (
                     <>
-                       <div className="col-span-3">
+                       <div className="col-span-2">
                            <label className="text-xs font-bold text-gray-500 block mb-1">発生期間 (開始月)</label>
                            <input 
                              type="month" 
@@ -382,7 +486,7 @@ const CashFlow: React.FC = () => {
                              onChange={e => setNewItem({...newItem, periodStart: e.target.value})}
                            />
                        </div>
-                       <div className="col-span-3">
+                       <div className="col-span-2">
                            <label className="text-xs font-bold text-gray-500 block mb-1">終了月 (任意)</label>
                            <input 
                              type="month" 
@@ -421,6 +525,17 @@ const CashFlow: React.FC = () => {
                     </div>
                 )}
 
+                <div className={newItem.isRecurring ? 'col-span-2' : 'col-span-3'}>
+                    <label className="text-xs font-bold text-gray-500 block mb-1">土日祝・休業日</label>
+                    <select
+                      className="w-full border p-2 rounded text-sm bg-white"
+                      value={newItem.shift || 'none'}
+                      onChange={e => setNewItem({...newItem, shift: e.target.value as BusinessDayShift})}
+                    >
+                      {(Object.keys(BUSINESS_DAY_SHIFT_LABELS) as BusinessDayShift[]).map(shift => <option key={shift} value={shift}>{BUSINESS_DAY_SHIFT_LABELS[shift]}</option>)}
+                    </select>
+                </div>
+
                 <div className="col-span-1">
                   <button onClick={handleAddItem} className="w-full bg-blue-600 text-white p-2 rounded hover:bg-blue-700 flex justify-center">
                     <Plus className="w-5 h-5" />
@@ -436,7 +551,7 @@ const CashFlow: React.FC = () => {
                    <tr>
                      <th className="px-4 py-2 text-left text-xs text-gray-500">項目名</th>
                      <th className="px-4 py-2 text-left text-xs text-gray-500">カテゴリ</th>
-                     <th className="px-4 py-2 text-right text-xs text-gray-500">金額</th>
+                     <th className="px-4 py-2 text-right text-xs text-gray-500">金額 (税込)</th>
                      <th className="px-4 py-2 text-center text-xs text-gray-500">発生タイミング</th>
                      <th className="px-4 py-2 text-center text-xs text-gray-500">操作</th>
                    </tr>
@@ -446,17 +561,24 @@ const CashFlow: React.FC = () => {
                     <tr key={item.id}>
                       <td className="px-4 py-2 text-sm font-medium">{item.name}</td>
                       <td className="px-4 py-2 text-xs text-gray-500 bg-gray-50 rounded inline-block m-1">{item.category}</td>
-                      <td className="px-4 py-2 text-sm text-right font-mono">{formatCurrency(item.amount)}</td>
+                      <td className="px-4 py-2 text-sm text-right font-mono">
+                        {formatCurrency(item.amount)}
+                        <div className="text-[10px] text-gray-400 font-sans">{TAX_CODE_LABELS[getCashFlowItemTaxCode(item)]}</div>
+                      </td>
                       <td className="px-4 py-2 text-sm text-center text-gray-500">
                         {item.isRecurring ? (
                             <div className="text-xs">
                                 毎月 {item.payDay === 99 ? '末' : item.payDay}日払い
+                                {item.shift && item.shift !== 'none' && ` (${BUSINESS_DAY_SHIFT_LABELS[item.shift]})`}
                                 <div className="text-[10px] text-gray-400">
                                    {item.periodStart || '開始未定'} ~ {item.periodEnd || '継続'}
                                 </div>
                             </div>
                         ) : (
-                            <span className="text-xs">{item.paymentDate || item.targetMonth} (スポット)</span>
+                            <span className="text-xs">
+                                {item.paymentDate || item.targetMonth} (スポット)
+                                {item.shift && item.shift !== 'none' && ` (${BUSINESS_DAY_SHIFT_LABELS[item.shift]})`}
+                            </span>
                         )}
                       </td>
                       <td className="px-4 py-2 text-center">
@@ -476,6 +598,7 @@ const CashFlow: React.FC = () => {
           </div>
         </div>
       )}
+      {showReauth && <ReauthModal reason="現預金残高の変更" onClose={() => setShowReauth(false)} />}
     </div>
   );
 };
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { KeyRound, X } from 'lucide-react';
+
+// Lets the signed-in user change their own password
+const ChangePasswordModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { changePassword } = useAuth();
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmValue, setConfirmValue] = useState('');
+
+  const handleSave = async () => {
+    if (next !== confirmValue) {
+      alert('確認用パスワードが一致しません。');
+      return;
+    }
+    try {
+      await changePassword(current, next);
+      alert('パスワードを変更しました。');
+      onClose();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg w-[400px] shadow-2xl">
+        <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <KeyRound className="w-5 h-5 mr-2 text-gray-500" /> パスワード変更
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">現在のパスワード</label>
+            <input type="password" autoComplete="current-password" className="w-full border p-2 rounded text-sm" value={current} onChange={e => setCurrent(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">新しいパスワード</label>
+            <input type="password" autoComplete="new-password" className="w-full border p-2 rounded text-sm" value={next} onChange={e => setNext(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">新しいパスワード (確認)</label>
+            <input type="password" autoComplete="new-password" className="w-full border p-2 rounded text-sm" value={confirmValue} onChange={e => setConfirmValue(e.target.value)} />
+          </div>
+        </div>
+        <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+          <button onClick={handleSave} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700">変更</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePasswordModal;
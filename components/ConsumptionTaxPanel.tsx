@@ -0,0 +1,126 @@
+import React, { useMemo } from 'react';
+import { useData } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import { ConsumptionTaxTerm, formatCurrency, getConsumptionTaxPayments, getConsumptionTaxTerm, getTermLabel, getTermOptions, toDateKey } from '../utils';
+import { Receipt } from 'lucide-react';
+
+// Consumption tax of the selected and previous term, and the payments it generates in the cash flow
+const ConsumptionTaxPanel: React.FC = () => {
+  const { projects, employees, workLogs, settings, currentTerm, updateSettings } = useData();
+  const { can } = useAuth();
+  const config = settings.consumptionTax || { enabled: false };
+
+  const { terms, payments } = useMemo(() => {
+    if (!config.enabled) return { terms: [], payments: [] };
+    const cache = new Map<number, ConsumptionTaxTerm>();
+    const getTerm = (termYear: number) => {
+      if (!cache.has(termYear)) cache.set(termYear, getConsumptionTaxTerm(termYear, projects, employees, workLogs, settings));
+      return cache.get(termYear)!;
+    };
+    const payments = getConsumptionTaxPayments(currentTerm, settings, getTerm);
+    return { terms: [getTerm(currentTerm - 1), getTerm(currentTerm)], payments };
+  }, [config.enabled, projects, employees, workLogs, settings, currentTerm]);
+
+  const handleChange = (patch: Partial<typeof config>) => {
+    updateSettings({ ...settings, consumptionTax: { ...config, ...patch } }, '消費税の納付予測の設定を変更しました');
+  };
+
+  const rows: [string, (t: ConsumptionTaxTerm) => number][] = [
+    ['売上に係る消費税', t => t.outputTax],
+    ['仕入税額控除 (業務委託)', t => -t.contractorTax],
+    ['仕入税額控除 (経費・投資)', t => -t.expenseTax],
+  ];
+
+  return (
+    <div className="border-t pt-6 mt-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-700 flex items-center">
+            <Receipt className="w-5 h-5 mr-2" /> 消費税 納付予測
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            原則課税・仕入税額の全額控除で計算し (売上はデリバリー中・デリバリー完了の案件のみ)、中間納付と確定申告の納付をキャッシュフローに自動で計上します。業務委託費は税抜とみなし、支払時に消費税を上乗せします。
+            消費税の納付をCF項目で手入力している場合は、二重計上にならないよう削除してください。
+          </p>
+        </div>
+        <div className="flex items-center gap-4 text-xs text-gray-600 shrink-0 ml-4">
+          <label className="flex items-center cursor-pointer font-bold">
+            <input
+              type="checkbox"
+              className="mr-1"
+              checked={config.enabled}
+              disabled={!can('settings:edit')}
+              onChange={e => handleChange({ enabled: e.target.checked })}
+            />
+            納付予測を計上する
+          </label>
+          <label className="flex items-center">
+            課税事業者となる期
+            <select
+              className="ml-2 border rounded p-1 bg-white disabled:bg-gray-100"
+              value={config.taxableFromTerm || ''}
+              disabled={!can('settings:edit')}
+              onChange={e => handleChange({ taxableFromTerm: e.target.value ? Number(e.target.value) : undefined })}
+            >
+              <option value="">すべての期</option>
+              {getTermOptions(currentTerm, settings).map(t => <option key={t} value={t}>{getTermLabel(t, settings)}から</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {config.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <table className="min-w-full text-xs border rounded">
+            <thead className="bg-gray-50 text-gray-500">
+              <tr>
+                <th className="text-left px-3 py-2"></th>
+                {terms.map(t => <th key={t.termYear} className="text-right px-3 py-2">{getTermLabel(t.termYear, settings)}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(([label, value]) => (
+                <tr key={label}>
+                  <td className="px-3 py-1.5 text-gray-600">{label}</td>
+                  {terms.map(t => <td key={t.termYear} className="px-3 py-1.5 text-right font-mono">{t.exempt ? '-' : formatCurrency(value(t))}</td>)}
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-bold">
+                <td className="px-3 py-1.5">差引納付税額</td>
+                {terms.map(t => (
+                  <td key={t.termYear} className={`px-3 py-1.5 text-right font-mono ${t.netPayable < 0 ? 'text-green-700' : ''}`}>
+                    {t.exempt ? '免税' : formatCurrency(t.netPayable)}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+
+          <table className="min-w-full text-xs border rounded">
+            <thead className="bg-gray-50 text-gray-500">
+              <tr>
+                <th className="text-left px-3 py-2">{getTermLabel(currentTerm, settings)}の納付</th>
+                <th className="text-center px-3 py-2">納期限</th>
+                <th className="text-right px-3 py-2">金額</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {payments.map(p => (
+                <tr key={p.label}>
+                  <td className="px-3 py-1.5">{p.label}</td>
+                  <td className="px-3 py-1.5 text-center font-mono">{toDateKey(p.dueDate)}</td>
+                  <td className={`px-3 py-1.5 text-right font-mono ${p.amount < 0 ? 'text-green-700' : 'text-red-700'}`}>{formatCurrency(p.amount)}</td>
+                </tr>
+              ))}
+              {payments.length === 0 && (
+                <tr><td colSpan={3} className="px-3 py-4 text-center text-gray-400">納付予定はありません</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsumptionTaxPanel;
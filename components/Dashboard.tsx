@@ -1,13 +1,14 @@
 
 import React, { useMemo, useState } from 'react';
 import { useData } from '../context/AppContext';
-import { generateProjections, formatCurrency, getTermDateRange, getMonthlyRevenue, calculateExactMonths, getTotalDays } from '../utils';
+import { generateProjections, formatCurrency, getTermDateRange, getTermMonthCount, getTermLabel, getMonthlyRevenue, resolveProjectionRange, getTermBoundaries, toMonthKey, ProjectionRange, calculateExactMonths, getTotalDays, getMonthlyContractRevenue, getProjectCurrency, formatMoney } from '../utils';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
-  LineChart, Line, ComposedChart, Area, AreaChart, PieChart, Pie, Cell
+  LineChart, Line, ComposedChart, Area, AreaChart, PieChart, Pie, Cell, ReferenceLine
 } from 'recharts';
 import { Target, Activity, Settings, CalendarClock, TrendingUp, AlertCircle, CheckCircle2, Info, X } from 'lucide-react';
-import { RevenueRecognitionMethod } from '../types';
+import { ProrationMethod, RevenueRecognitionMethod } from '../types';
+import ProjectionRangeSelector from './ProjectionRangeSelector';
 
 const Dashboard: React.FC = () => {
   const { projects, employees, settings, workLogs, currentTerm, updateSettings } = useData();
@@ -17,8 +18,19 @@ const Dashboard: React.FC = () => {
   const [breakdownPeriod, setBreakdownPeriod] = useState<{ label: string, startIdx: number, endIdx: number } | null>(null);
 
   const today = new Date();
-  const { start, end } = useMemo(() => getTermDateRange(currentTerm), [currentTerm]);
-  const data = useMemo(() => generateProjections(projects, employees, workLogs, start, settings), [projects, employees, workLogs, start, settings]);
+  const { start, end } = useMemo(() => getTermDateRange(currentTerm, settings), [currentTerm, settings]);
+  const monthCount = getTermMonthCount(currentTerm, settings);
+  const data = useMemo(() => generateProjections(projects, employees, workLogs, start, settings, monthCount), [projects, employees, workLogs, start, settings, monthCount]);
+  const termLabel = getTermLabel(currentTerm, settings);
+
+  // Medium/long-term outlook: defaults to a rolling 24 months from this month, across term boundaries
+  const [outlookRange, setOutlookRange] = useState<ProjectionRange>({ mode: 'rolling', startMonth: toMonthKey(new Date()), months: 24 });
+  const outlook = useMemo(() => resolveProjectionRange(outlookRange, currentTerm, settings), [outlookRange, currentTerm, settings]);
+  const outlookData = useMemo(
+    () => generateProjections(projects, employees, workLogs, outlook.start, settings, outlook.monthCount),
+    [projects, employees, workLogs, outlook, settings]
+  );
+  const outlookBoundaries = useMemo(() => getTermBoundaries(outlookData, settings), [outlookData, settings]);
 
   // Calculations
   const annualRevenue = data.reduce((acc, curr) => acc + curr.revenue, 0);
@@ -28,17 +40,17 @@ const Dashboard: React.FC = () => {
 
   // --- Dynamic Period Calculation ---
   
-  // Calculate index of "Today" within the term (0 = Dec, 11 = Nov)
-  // If today is outside the term, clamp to 0 or 11 to show relevant data for that term
+  // Calculate index of "Today" within the term (0 = first month of the term)
+  // If today is outside the term, clamp to the first or last month to show relevant data for that term
   let currentMonthIndex = (today.getFullYear() - start.getFullYear()) * 12 + (today.getMonth() - start.getMonth());
   
   if (currentMonthIndex < 0) currentMonthIndex = 0; // Future term viewed -> Show start
-  if (currentMonthIndex > 11) currentMonthIndex = 11; // Past term viewed -> Show end
+  if (currentMonthIndex > monthCount - 1) currentMonthIndex = monthCount - 1; // Past term viewed -> Show end
 
-  // Helper to get Label Range (e.g., "12月-5月")
+  // Helper to get Label Range (e.g., "12月-5月"). A short first term ends before the period does.
   const getPeriodLabel = (sIdx: number, eIdx: number) => {
       const s = new Date(start.getFullYear(), start.getMonth() + sIdx, 1);
-      const e = new Date(start.getFullYear(), start.getMonth() + eIdx - 1, 1);
+      const e = new Date(start.getFullYear(), start.getMonth() + Math.min(eIdx, monthCount) - 1, 1);
       return `${s.getMonth() + 1}月-${e.getMonth() + 1}月`;
   };
 
@@ -102,7 +114,7 @@ const Dashboard: React.FC = () => {
         ...settings.salesTargets,
         ...monthlyTargets
       }
-    });
+    }, '月次売上目標を更新しました');
     setShowTargetModal(false);
   };
 
@@ -130,19 +142,22 @@ const Dashboard: React.FC = () => {
   // Breakdown Calculation Logic
   const getBreakdownData = (startIdx: number, endIdx: number) => {
     // If startIdx equals endIdx (single month view requested from click), adjust endIdx
-    const actualEndIdx = (endIdx <= startIdx) ? startIdx + 1 : endIdx;
+    const actualEndIdx = Math.min((endIdx <= startIdx) ? startIdx + 1 : endIdx, monthCount);
 
     const breakdown = projects.map(p => {
         let periodRevenue = 0;
+        let contractRevenue = 0; // Contract currency, for foreign-currency projects
         // Iterate through the months in the selected period
         for (let i = startIdx; i < actualEndIdx; i++) {
              // Reconstruct date from index relative to term start
              const d = new Date(start.getFullYear(), start.getMonth() + i, 1);
-             periodRevenue += getMonthlyRevenue(p, d);
+             periodRevenue += getMonthlyRevenue(p, d, { employees, workLogs, fxRates: settings.fxRates, closedDays: settings.closedDays });
+             contractRevenue += getMonthlyContractRevenue(p, d, { employees, workLogs, closedDays: settings.closedDays });
         }
         return {
             ...p,
-            periodRevenue
+            periodRevenue,
+            contractRevenue
         };
     }).filter(p => p.periodRevenue > 0).sort((a,b) => b.periodRevenue - a.periodRevenue);
     
@@ -205,7 +220,7 @@ const Dashboard: React.FC = () => {
           </div>
            {/* Breakdown Button */}
            <button 
-             onClick={() => setBreakdownPeriod({ label: `年間 (${currentTerm}年11月期)`, startIdx: 0, endIdx: 12 })}
+             onClick={() => setBreakdownPeriod({ label: `年間 (${termLabel})`, startIdx: 0, endIdx: monthCount })}
              className="absolute top-2 right-2 text-gray-300 hover:text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity"
            >
              <Info className="w-4 h-4" />
@@ -318,7 +333,7 @@ const Dashboard: React.FC = () => {
         
         {/* Revenue Forecast (Stacked Bar: Confirmed + Potential) */}
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100 lg:col-span-2">
-          <h3 className="text-lg font-bold text-gray-800 mb-4">売上予測 vs 目標 ({currentTerm}年11月期)</h3>
+          <h3 className="text-lg font-bold text-gray-800 mb-4">売上予測 vs 目標 ({termLabel})</h3>
           <p className="text-xs text-gray-500 mb-2">※ グラフをクリックすると月ごとの内訳を確認できます。</p>
           <div className="h-72">
             <ResponsiveContainer width="100%" height="100%">
@@ -383,11 +398,45 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Medium/Long-term Outlook (spans term boundaries) */}
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-gray-800">中長期見通し (売上・現預金残高)</h3>
+          <ProjectionRangeSelector value={outlookRange} onChange={setOutlookRange} />
+        </div>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={outlookData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="yearMonthLabel" fontSize={12} />
+              <YAxis yAxisId="left" fontSize={12} tickFormatter={(val) => `${val/10000}万`} />
+              <YAxis yAxisId="right" orientation="right" fontSize={12} tickFormatter={(val) => `${val/10000}万`} />
+              <Tooltip formatter={(val: number) => formatCurrency(val)} />
+              <Legend />
+              {outlookBoundaries.map(b => (
+                <ReferenceLine
+                  key={b.monthKey}
+                  x={outlookData.find(d => d.monthKey === b.monthKey)?.yearMonthLabel}
+                  yAxisId="left"
+                  stroke="#6b7280"
+                  strokeDasharray="4 4"
+                  label={{ value: b.label, position: 'insideTopLeft', fontSize: 10, fill: '#6b7280' }}
+                />
+              ))}
+              <ReferenceLine y={0} yAxisId="right" stroke="#ef4444" />
+              <Bar yAxisId="left" dataKey="confirmedRevenue" name="売上見込 (受注済)" stackId="a" fill="#3b82f6" />
+              <Bar yAxisId="left" dataKey="potentialRevenue" name="売上見込 (提案中)" stackId="a" fill="#bfdbfe" />
+              <Line yAxisId="right" type="monotone" dataKey="cashBalance" name="現預金残高" stroke="#10b981" strokeWidth={3} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
       {/* Target Setting Modal */}
       {showTargetModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white p-6 rounded-lg w-[600px] max-h-[80vh] overflow-auto">
-            <h3 className="text-lg font-bold mb-4 border-b pb-2">{currentTerm}年11月期 月次売上目標設定</h3>
+            <h3 className="text-lg font-bold mb-4 border-b pb-2">{termLabel} 月次売上目標設定</h3>
             <p className="text-sm text-gray-500 mb-4">各月の売上目標を入力してください。未入力の月は0として扱われます。</p>
             
             <div className="grid grid-cols-2 gap-4">
@@ -432,7 +481,7 @@ const Dashboard: React.FC = () => {
                  <div>
                    <h3 className="text-lg font-bold text-gray-800">売上内訳: {breakdownPeriod.label}</h3>
                    <p className="text-xs text-gray-500">
-                     固定報酬案件は、選択されたロジック(期間按分または請求基準)に基づいて計算されます。
+                     固定報酬案件は、選択されたロジック(期間按分・請求基準・進行基準)に基づいて計算されます。
                    </p>
                  </div>
                  <button onClick={() => setBreakdownPeriod(null)} className="text-gray-400 hover:text-gray-600">
@@ -468,14 +517,17 @@ const Dashboard: React.FC = () => {
                                </td>
                                <td className="px-4 py-2 text-right text-sm font-mono font-bold text-blue-700">
                                   {formatCurrency(p.periodRevenue)}
+                                  {getProjectCurrency(p) !== 'JPY' && <div className="text-[10px] text-gray-400 font-normal">{formatMoney(p.contractRevenue, getProjectCurrency(p))}</div>}
                                </td>
                                <td className="px-4 py-2 text-xs text-gray-500">
-                                  {p.useTimeCharge ? '月次従量入力' : (
+                                  {p.useTimeCharge ? ((p.timeChargeRates || []).length > 0 ? '稼働時間 × 時間単価' : '月次従量入力') : (
                                     isFlow ? (
                                         isMilestone ? (
                                             <span className="text-orange-600 font-medium">請求基準</span>
+                                        ) : p.revenueMethod === RevenueRecognitionMethod.PercentageOfCompletion ? (
+                                            <span className="text-purple-600 font-medium">進行基準</span>
                                         ) : (
-                                            <span>月割按分</span>
+                                            <span>{p.prorationMethod && p.prorationMethod !== ProrationMethod.Month ? p.prorationMethod : '月割按分'}</span>
                                         )
                                     ) : (
                                         <span>月額固定 × 月数</span>
@@ -0,0 +1,223 @@
+import React, { useRef, useState } from 'react';
+import { useData } from '../context/AppContext';
+import { ImportMode, PersistedData } from '../types';
+import { CURRENT_SCHEMA_VERSION } from '../services/migrations';
+import { createBackupJson, diffBackup, getBackupFileName, parseBackup, EntityDiff } from '../services/backup';
+import { findOrphans } from '../services/integrity';
+import { Download, Upload, FileJson, AlertCircle, X, ShieldCheck } from 'lucide-react';
+
+const DataManagement: React.FC = () => {
+  const { employees, projects, workLogs, invoices, settings, currentTerm, auditLog, importData, removeOrphans, storageStatus } = useData();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Import Preview State
+  const [pendingImport, setPendingImport] = useState<{ fileName: string, data: PersistedData } | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const currentData: PersistedData = { schemaVersion: CURRENT_SCHEMA_VERSION, employees, projects, workLogs, invoices, settings, currentTerm, auditLog };
+
+  const handleExport = () => {
+    const blob = new Blob([createBackupJson(currentData)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = getBackupFileName();
+    a.click();
+    URL.revokeObjectURL(url);
+    setMessage('バックアップファイルをダウンロードしました。');
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow selecting the same file again
+    if (!file) return;
+
+    setError('');
+    setMessage('');
+    try {
+      const text = await file.text();
+      setPendingImport({ fileName: file.name, data: parseBackup(text) });
+      setImportMode('merge');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '読み込みに失敗しました。');
+    }
+  };
+
+  const handleConfirmImport = () => {
+    if (!pendingImport) return;
+    importData(pendingImport.data, importMode);
+    setPendingImport(null);
+    setMessage(importMode === 'merge' ? 'バックアップをマージしました。' : 'バックアップで全データを置き換えました。');
+  };
+
+  const orphans = findOrphans({ employees, projects, workLogs, invoices, settings });
+  const orphanCount = orphans.workLogs + orphans.assignments;
+
+  const handleRemoveOrphans = () => {
+    removeOrphans();
+    setMessage(`孤立データ ${orphanCount}件を削除しました。`);
+  };
+
+  const diff = pendingImport ? diffBackup(currentData, pendingImport.data, importMode) : null;
+
+  const renderDiffRow = (label: string, d: EntityDiff) => (
+    <tr key={label}>
+      <td className="px-4 py-2 text-sm font-medium text-gray-700">{label}</td>
+      <td className="px-4 py-2 text-sm text-right font-mono text-green-600">+{d.added}</td>
+      <td className="px-4 py-2 text-sm text-right font-mono text-blue-600">{d.changed}</td>
+      <td className="px-4 py-2 text-sm text-right font-mono text-red-600">-{d.removed}</td>
+    </tr>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-gray-700">データ管理 (バックアップ・復元・整合性)</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          保存先: {storageStatus.label}。データの消失に備えて、定期的にバックアップを取得してください。
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" /> {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded text-sm text-green-700">{message}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Export */}
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100">
+          <h3 className="text-lg font-bold text-gray-800 mb-2 flex items-center">
+            <Download className="w-5 h-5 mr-2 text-blue-600" /> エクスポート
+          </h3>
+          <p className="text-xs text-gray-500 mb-4">
+            従業員・案件・稼働実績・請求書・設定・対象決算期・変更履歴を1つのJSONファイルに書き出します (スキーマ v{CURRENT_SCHEMA_VERSION})。
+          </p>
+          <ul className="text-xs text-gray-600 mb-4 space-y-1">
+            <li>従業員: {employees.length}件</li>
+            <li>案件: {projects.length}件</li>
+            <li>稼働実績: {workLogs.length}件</li>
+            <li>請求書: {invoices.length}件</li>
+            <li>CF項目: {(settings.cashFlowItems || []).length}件</li>
+            <li>変更履歴: {auditLog.length}件</li>
+          </ul>
+          <button onClick={handleExport} className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-bold shadow-sm">
+            <Download className="w-4 h-4 mr-2" /> バックアップをダウンロード
+          </button>
+        </div>
+
+        {/* Import */}
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100">
+          <h3 className="text-lg font-bold text-gray-800 mb-2 flex items-center">
+            <Upload className="w-5 h-5 mr-2 text-orange-600" /> インポート (復元)
+          </h3>
+          <p className="text-xs text-gray-500 mb-4">
+            バックアップファイルを読み込みます。旧バージョンのファイルは自動的に現行形式へ変換されます。取り込み前に差分を確認できます。
+          </p>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileSelect} />
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 text-sm font-bold shadow-sm">
+            <FileJson className="w-4 h-4 mr-2" /> ファイルを選択
+          </button>
+        </div>
+      </div>
+
+      {/* Integrity Check */}
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100">
+        <h3 className="text-lg font-bold text-gray-800 mb-2 flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2 text-green-600" /> 整合性チェック
+        </h3>
+        <p className="text-xs text-gray-500 mb-4">
+          削除済みの案件・従業員を参照している稼働実績やアサイン (孤立データ) を検出します。
+        </p>
+        {orphanCount === 0 ? (
+          <p className="text-sm text-green-700">孤立データはありません。</p>
+        ) : (
+          <div className="flex items-center justify-between">
+            <ul className="text-sm text-orange-700 space-y-1">
+              {orphans.workLogs > 0 && <li>孤立した稼働実績: {orphans.workLogs}件</li>}
+              {orphans.assignments > 0 && <li>孤立したアサイン: {orphans.assignments}件</li>}
+            </ul>
+            <button onClick={handleRemoveOrphans} className="flex items-center px-4 py-2 bg-white border border-red-200 text-red-600 rounded hover:bg-red-50 text-sm font-bold shadow-sm">
+              孤立データを削除
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Import Preview Modal */}
+      {pendingImport && diff && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-lg w-[600px] max-h-[90vh] overflow-auto shadow-2xl">
+            <div className="flex justify-between items-center mb-4 border-b pb-2">
+              <div>
+                <h3 className="text-lg font-bold text-gray-800">インポート内容の確認</h3>
+                <p className="text-xs text-gray-500">{pendingImport.fileName}</p>
+              </div>
+              <button onClick={() => setPendingImport(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex gap-4 mb-4">
+              <label className={`flex-1 border p-3 rounded cursor-pointer ${importMode === 'merge' ? 'border-blue-500 bg-blue-50' : 'bg-white'}`}>
+                <input type="radio" name="importMode" className="mr-2" checked={importMode === 'merge'} onChange={() => setImportMode('merge')} />
+                <span className="font-bold text-sm text-gray-800">マージ</span>
+                <p className="text-xs text-gray-500 mt-1">同じIDはファイルの内容で上書きし、既存のデータは残します。稼働実績は案件・タスク・従業員・週が同じものを上書きします。発行済みの請求書は上書きしません。</p>
+              </label>
+              <label className={`flex-1 border p-3 rounded cursor-pointer ${importMode === 'replace' ? 'border-red-500 bg-red-50' : 'bg-white'}`}>
+                <input type="radio" name="importMode" className="mr-2" checked={importMode === 'replace'} onChange={() => setImportMode('replace')} />
+                <span className="font-bold text-sm text-gray-800">置換</span>
+                <p className="text-xs text-gray-500 mt-1">現在のデータを破棄し、ファイルの内容に置き換えます。発行済みの請求書は残します。</p>
+              </label>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200 border">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs text-gray-500">対象</th>
+                  <th className="px-4 py-2 text-right text-xs text-gray-500">追加</th>
+                  <th className="px-4 py-2 text-right text-xs text-gray-500">変更</th>
+                  <th className="px-4 py-2 text-right text-xs text-gray-500">削除</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {renderDiffRow('従業員', diff.employees)}
+                {renderDiffRow('案件', diff.projects)}
+                {renderDiffRow('稼働実績', diff.workLogs)}
+                {renderDiffRow('請求書', diff.invoices)}
+                {renderDiffRow('CF項目', diff.cashFlowItems)}
+                {renderDiffRow('変更履歴', diff.auditLog)}
+              </tbody>
+            </table>
+            <div className="mt-3 text-xs text-gray-500 space-y-1">
+              {diff.settingsChanged && <p>※ 設定 (目標・残高・リード経路等) に変更があります。</p>}
+              <p>※ 変更履歴は置換モードでも削除されず、ファイル側の履歴が追加されます。</p>
+              {diff.currentTermChanged && <p>※ 対象決算期が {pendingImport.data.currentTerm}年 に切り替わります。</p>}
+              {diff.invoicesKeptLocal > 0 && <p>※ 発行済み・無効の請求書 {diff.invoicesKeptLocal}件は、ファイルの内容で上書き・削除せず現在の記録を残します。</p>}
+              {diff.invoicesRejected.length > 0 && (
+                <p className="text-red-600">※ 請求書番号が既存の請求書と重複するため、次の{diff.invoicesRejected.length}件は取り込みません: {diff.invoicesRejected.join(', ')}</p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+              <button onClick={() => setPendingImport(null)} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+              <button
+                onClick={handleConfirmImport}
+                className={`px-6 py-2 rounded text-sm font-bold text-white shadow-sm ${importMode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+              >
+                {importMode === 'replace' ? '置き換えて取り込む' : 'マージして取り込む'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataManagement;
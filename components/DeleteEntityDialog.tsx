@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { useData } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import { DeleteOptions } from '../types';
+import { getEmployeeDependencies, getProjectDependencies, isProjectDeletable, PROJECT_HAS_RECORDS_MESSAGE } from '../services/integrity';
+import { AlertTriangle, Archive, ArrowRightLeft, Trash2, X } from 'lucide-react';
+
+interface DeleteEntityDialogProps {
+  entityType: 'project' | 'employee';
+  entityId: string;
+  onClose: () => void;
+}
+
+type DeleteChoice = 'archive' | 'reassign' | 'cascade';
+
+// Delete confirmation that shows dependent records and offers archive (default), reassign or cascade delete
+const DeleteEntityDialog: React.FC<DeleteEntityDialogProps> = ({ entityType, entityId, onClose }) => {
+  const { employees, projects, workLogs, invoices, settings, deleteEmployee, deleteProject, archiveEmployee, archiveProject } = useData();
+  const { accounts } = useAuth();
+  const snapshot = { employees, projects, workLogs, invoices, settings };
+
+  const isProject = entityType === 'project';
+  const project = projects.find(p => p.id === entityId);
+  const employee = employees.find(e => e.id === entityId);
+  const isArchived = isProject ? !!project?.isArchived : !!employee?.isArchived;
+  const name = isProject ? (project?.projectName || project?.clientName || '') : (employee?.name || '');
+  const entityLabel = isProject ? '案件' : '従業員';
+
+  const deps = isProject ? getProjectDependencies(snapshot, entityId) : getEmployeeDependencies(snapshot, entityId, accounts);
+  const hasDependents = deps.workLogs > 0 || (!isProject && deps.assignments > 0) || deps.draftInvoices > 0 || deps.sentInvoices > 0 || deps.receipts > 0
+    || deps.timeChargeRates > 0 || deps.accounts > 0;
+  const canDelete = isProjectDeletable(deps);
+
+  const reassignTargets = isProject
+    ? projects.filter(p => p.id !== entityId && !p.isArchived).map(p => ({ id: p.id, label: `${p.clientName} ${p.projectName || ''}` }))
+    : employees.filter(e => e.id !== entityId && !e.isArchived).map(e => ({ id: e.id, label: e.name }));
+
+  const [choice, setChoice] = useState<DeleteChoice>(isArchived && canDelete ? 'cascade' : 'archive');
+  const [targetId, setTargetId] = useState('');
+
+  const handleConfirm = () => {
+    if (choice === 'archive') {
+      if (isProject) archiveProject(entityId, true);
+      else archiveEmployee(entityId, true);
+      onClose();
+      return;
+    }
+    if (choice === 'reassign' && !targetId) {
+      alert('付け替え先を選択してください。');
+      return;
+    }
+    const options: DeleteOptions = choice === 'reassign' ? { mode: 'reassign', targetId } : { mode: 'cascade' };
+    if (isProject) deleteProject(entityId, options);
+    else deleteEmployee(entityId, options);
+    onClose();
+  };
+
+  if (isProject ? !project : !employee) return null;
+
+  const optionClass = (value: DeleteChoice, active: string) =>
+    `block border p-3 rounded cursor-pointer ${choice === value ? active : 'bg-white'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg w-[520px] max-h-[90vh] overflow-auto shadow-2xl">
+        <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <AlertTriangle className="w-5 h-5 mr-2 text-orange-500" />
+            {entityLabel}『{name}』の削除
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Dependent records */}
+        <div className={`p-3 rounded text-sm mb-4 border ${hasDependents ? 'bg-orange-50 border-orange-200 text-orange-800' : 'bg-gray-50 border-gray-200 text-gray-600'}`}>
+          {hasDependents ? (
+            <>
+              <p className="font-bold mb-1">この{entityLabel}に紐づくデータがあります。</p>
+              <ul className="list-disc pl-5 space-y-0.5">
+                {deps.workLogs > 0 && <li>稼働実績: {deps.workLogs}件 (合計 {deps.workLogHours}h)</li>}
+                {!isProject && deps.assignments > 0 && <li>アサイン中の案件: {deps.assignments}件</li>}
+                {deps.timeChargeRates > 0 && <li>タイムチャージ単価を設定した案件: {deps.timeChargeRates}件</li>}
+                {deps.accounts > 0 && <li>紐づくユーザーアカウント: {deps.accounts}件</li>}
+                {deps.sentInvoices > 0 && <li>発行済み・無効の請求書: {deps.sentInvoices}件</li>}
+                {deps.draftInvoices > 0 && <li>請求書の下書き: {deps.draftInvoices}件</li>}
+                {deps.receipts > 0 && <li>入金記録: {deps.receipts}件</li>}
+              </ul>
+            </>
+          ) : (
+            <p>紐づく稼働実績・アサイン・請求書・入金記録・ユーザーアカウントはありません。</p>
+          )}
+        </div>
+
+        {!canDelete && (
+          <p className="p-3 rounded text-sm mb-4 border bg-red-50 border-red-200 text-red-800">{PROJECT_HAS_RECORDS_MESSAGE}</p>
+        )}
+
+        <div className="space-y-2">
+          {!isArchived && (
+            <label className={optionClass('archive', 'border-blue-500 bg-blue-50')}>
+              <input type="radio" name="deleteChoice" className="mr-2" checked={choice === 'archive'} onChange={() => setChoice('archive')} />
+              <span className="font-bold text-sm text-gray-800 inline-flex items-center"><Archive className="w-4 h-4 mr-1" /> アーカイブ (推奨)</span>
+              <p className="text-xs text-gray-500 mt-1 ml-5">一覧・入力画面から非表示にします。過去の期の収益・CFレポートには引き続き反映され、いつでも復元できます。</p>
+            </label>
+          )}
+          {canDelete && hasDependents && (
+            <label className={optionClass('reassign', 'border-orange-500 bg-orange-50')}>
+              <input type="radio" name="deleteChoice" className="mr-2" checked={choice === 'reassign'} onChange={() => setChoice('reassign')} />
+              <span className="font-bold text-sm text-gray-800 inline-flex items-center"><ArrowRightLeft className="w-4 h-4 mr-1" /> 付け替えて削除</span>
+              <p className="text-xs text-gray-500 mt-1 ml-5">
+                {isProject ? '稼働実績を別の案件に移してから削除します。請求書の下書きは削除します。' : '稼働実績・アサイン・タイムチャージ単価・ユーザーアカウントの紐付けを別の従業員に移してから削除します。付け替え先に単価がある案件はその単価を使います。'}
+              </p>
+              {choice === 'reassign' && (
+                <select
+                  className="mt-2 ml-5 w-[calc(100%-1.25rem)] border p-2 rounded text-sm bg-white focus:ring-2 focus:ring-blue-500"
+                  value={targetId}
+                  onChange={e => setTargetId(e.target.value)}
+                >
+                  <option value="">付け替え先を選択...</option>
+                  {reassignTargets.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                </select>
+              )}
+            </label>
+          )}
+          {canDelete && (
+            <label className={optionClass('cascade', 'border-red-500 bg-red-50')}>
+              <input type="radio" name="deleteChoice" className="mr-2" checked={choice === 'cascade'} onChange={() => setChoice('cascade')} />
+              <span className="font-bold text-sm text-gray-800 inline-flex items-center"><Trash2 className="w-4 h-4 mr-1" /> 完全に削除</span>
+              <p className="text-xs text-gray-500 mt-1 ml-5">
+                {hasDependents ? `紐づく稼働実績・アサイン${isProject ? '・請求書の下書き' : '・タイムチャージ単価'}もすべて削除します。${!isProject && deps.accounts > 0 ? 'ユーザーアカウントは紐付けを解除します。' : ''}過去の期のレポートからも消えます。` : `${entityLabel}を削除します。`}
+              </p>
+            </label>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+          {(canDelete || !isArchived) && (
+            <button
+              onClick={handleConfirm}
+              className={`px-6 py-2 rounded text-sm font-bold text-white shadow-sm ${choice === 'archive' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-red-600 hover:bg-red-700'}`}
+            >
+              {choice === 'archive' ? 'アーカイブする' : '削除する'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteEntityDialog;
@@ -1,13 +1,26 @@
 import React, { useState } from 'react';
 import { useData } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
 import { ContractType, Employee, MonthlyEmployeeData } from '../types';
-import { formatCurrency, getTermDateRange, getEmployeeMonthlyData, generateId } from '../utils';
-import { Plus, Trash2, X, Settings, User, Edit2, Check } from 'lucide-react';
+import { formatCurrency, getTermMonths, getTermLabel, getEmployeeMonthlyData, generateId } from '../utils';
+import { Plus, Trash2, X, Settings, User, Edit2, Check, RotateCcw, Eye } from 'lucide-react';
 import { NumberInput } from './NumberInput';
+import DeleteEntityDialog from './DeleteEntityDialog';
+import ReauthModal from './ReauthModal';
 
 const EmployeeMaster: React.FC = () => {
-  const { employees, addEmployee, updateEmployee, deleteEmployee, currentTerm } = useData();
+  const { employees, addEmployee, updateEmployee, archiveEmployee, currentTerm, settings } = useData();
+  const { can, isRecentlyAuthenticated } = useAuth();
+  const canEdit = can('employee:edit');
+  const canViewCost = can('employee:viewCost');
+  // Salary figures stay masked until the password has been re-entered
+  const [reauthTarget, setReauthTarget] = useState<Employee | 'list' | null>(null);
   const [editingEmp, setEditingEmp] = useState<Employee | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const visibleEmployees = employees.filter(e => showArchived || !e.isArchived);
+  const archivedCount = employees.filter(e => e.isArchived).length;
   
   // State for Monthly Edit Mode
   const [isEditingMonthlyMode, setIsEditingMonthlyMode] = useState(false);
@@ -39,6 +52,12 @@ const EmployeeMaster: React.FC = () => {
     setTempMonthlyData(null);
   };
 
+  // The settings modal shows every month's pay, so an existing employee needs a fresh re-authentication
+  const requestEdit = (emp: Employee) => {
+    if (isRecentlyAuthenticated) handleOpenEdit(emp);
+    else setReauthTarget(emp);
+  };
+
   const handleSave = () => {
     if (!editingEmp || !editingEmp.name) return;
     
@@ -76,16 +95,11 @@ const EmployeeMaster: React.FC = () => {
 
   const renderSettingsModal = () => {
     if (!editingEmp) return null;
-    const { start } = getTermDateRange(currentTerm);
-    const months = [];
-    // Generate 12 months for the current term
-    for (let i = 0; i < 12; i++) {
-      const d = new Date(start.getFullYear(), start.getMonth() + i, 1);
-      months.push({ 
-        label: `${d.getFullYear()}/${d.getMonth()+1}`, 
-        key: `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}` 
-      });
-    }
+    // Every month of the current term
+    const months = getTermMonths(currentTerm, settings).map(d => ({ 
+      label: `${d.getFullYear()}/${d.getMonth()+1}`, 
+      key: `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}` 
+    }));
 
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -125,6 +139,16 @@ const EmployeeMaster: React.FC = () => {
                     <option value={ContractType.FullTime}>{ContractType.FullTime}</option>
                   </select>
                 </div>
+                <div className="col-span-2">
+                  <label className="block text-xs font-bold text-gray-500 mb-1">メールアドレス (ログインアカウントとの紐づけ)</label>
+                  <input 
+                    type="email"
+                    className="w-full border border-gray-300 rounded p-2 focus:ring-2 focus:ring-blue-500 outline-none" 
+                    placeholder="user@irwin-and-co.com" 
+                    value={editingEmp.email || ''} 
+                    onChange={e => setEditingEmp({...editingEmp, email: e.target.value || undefined})} 
+                  />
+                </div>
                 <div>
                   <label className="block text-xs font-bold text-gray-500 mb-1">基本報酬 (月額)</label>
                   <div className="relative">
@@ -154,7 +178,7 @@ const EmployeeMaster: React.FC = () => {
             <div>
               <div className="flex justify-between items-end mb-2">
                  <div>
-                    <h4 className="text-sm font-bold text-gray-700">月次詳細設定 ({currentTerm}年11月期)</h4>
+                    <h4 className="text-sm font-bold text-gray-700">月次詳細設定 ({getTermLabel(currentTerm, settings)})</h4>
                     <p className="text-xs text-gray-500 mt-1">
                        月ごとに報酬や稼働時間が異なる場合に入力してください。
                     </p>
@@ -275,10 +299,20 @@ const EmployeeMaster: React.FC = () => {
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <h2 className="text-xl font-bold text-gray-700">従業員マスタ ({currentTerm}年11月期)</h2>
-        <button onClick={handleCreateNew} className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-bold shadow-sm">
-          <Plus className="w-4 h-4 mr-1"/> 新規従業員登録
-        </button>
+        <h2 className="text-xl font-bold text-gray-700">従業員マスタ ({getTermLabel(currentTerm, settings)})</h2>
+        <div className="flex items-center gap-4">
+          {archivedCount > 0 && (
+            <label className="flex items-center text-sm text-gray-600 cursor-pointer">
+              <input type="checkbox" className="mr-2" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} />
+              アーカイブ済みを表示 ({archivedCount})
+            </label>
+          )}
+          {canEdit && (
+            <button onClick={handleCreateNew} className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-bold shadow-sm">
+            <Plus className="w-4 h-4 mr-1"/> 新規従業員登録
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="bg-white rounded shadow overflow-hidden border border-gray-200">
@@ -287,49 +321,78 @@ const EmployeeMaster: React.FC = () => {
             <tr>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">氏名</th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">契約形態</th>
-              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">基本報酬</th>
+              {canViewCost && (
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  基本報酬
+                  {!isRecentlyAuthenticated && (
+                    <button onClick={() => setReauthTarget('list')} className="ml-2 inline-flex items-center text-blue-600 hover:text-blue-800 normal-case" title="再認証して表示">
+                      <Eye className="w-3 h-3 mr-0.5" /> 表示
+                    </button>
+                  )}
+                </th>
+              )}
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">標準稼働</th>
-              <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase">操作</th>
+              {canEdit && <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase">操作</th>}
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
-            {employees.map(emp => (
-              <tr key={emp.id} className="hover:bg-gray-50">
+            {visibleEmployees.map(emp => (
+              <tr key={emp.id} className={`hover:bg-gray-50 ${emp.isArchived ? 'opacity-60' : ''}`}>
                 <td className="px-6 py-4 flex items-center">
                   <div className="bg-blue-100 p-2 rounded-full mr-3 text-blue-600">
                     <User className="w-4 h-4" />
                   </div>
                   <span className="font-bold text-gray-700">{emp.name}</span>
+                  {emp.isArchived && <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-500 rounded text-[10px] border border-gray-200">アーカイブ</span>}
                 </td>
                 <td className="px-6 py-4 text-sm text-gray-600">
                   <span className="px-2 py-1 bg-gray-100 rounded text-xs border border-gray-200">{emp.contractType}</span>
                 </td>
-                <td className="px-6 py-4 text-right text-sm font-mono text-gray-900">
-                  {formatCurrency(emp.defaultMonthlyCost)}
-                </td>
+                {canViewCost && (
+                  <td className="px-6 py-4 text-right text-sm font-mono text-gray-900">
+                    {isRecentlyAuthenticated ? formatCurrency(emp.defaultMonthlyCost) : <span className="text-gray-400">••••••</span>}
+                  </td>
+                )}
                 <td className="px-6 py-4 text-right text-sm font-mono text-gray-900">
                   {emp.defaultMonthlyHours}h
                 </td>
+                {canEdit && (
                 <td className="px-6 py-4 text-center">
                    <div className="flex justify-center gap-4">
-                     <button onClick={() => handleOpenEdit(emp)} className="text-blue-600 hover:text-blue-800 font-bold text-sm flex items-center">
+                     <button onClick={() => requestEdit(emp)} className="text-blue-600 hover:text-blue-800 font-bold text-sm flex items-center">
                        <Settings className="w-4 h-4 mr-1" /> 設定
                      </button>
-                     <button onClick={() => deleteEmployee(emp.id)} className="text-red-400 hover:text-red-600">
+                     {emp.isArchived && (
+                       <button onClick={() => archiveEmployee(emp.id, false)} className="text-gray-500 hover:text-gray-700 text-sm flex items-center" title="復元">
+                         <RotateCcw className="w-4 h-4 mr-1" /> 復元
+                       </button>
+                     )}
+                     <button onClick={() => setDeletingId(emp.id)} className="text-red-400 hover:text-red-600">
                         <Trash2 className="w-4 h-4" />
                      </button>
                    </div>
                 </td>
+                )}
               </tr>
             ))}
-            {employees.length === 0 && (
-              <tr><td colSpan={5} className="text-center py-8 text-gray-400">従業員が登録されていません</td></tr>
+            {visibleEmployees.length === 0 && (
+              <tr><td colSpan={3 + (canViewCost ? 1 : 0) + (canEdit ? 1 : 0)} className="text-center py-8 text-gray-400">従業員が登録されていません</td></tr>
             )}
           </tbody>
         </table>
       </div>
 
       {renderSettingsModal()}
+      {reauthTarget && (
+        <ReauthModal
+          reason="報酬額の表示・編集"
+          onClose={() => setReauthTarget(null)}
+          onSuccess={() => { if (reauthTarget !== 'list') handleOpenEdit(reauthTarget); }}
+        />
+      )}
+      {deletingId && (
+        <DeleteEntityDialog entityType="employee" entityId={deletingId} onClose={() => setDeletingId(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { useData } from '../context/AppContext';
+import { getTermDateRange, getTermForDate, getTermLabel, getFirstTerm, FiscalCalendar } from '../utils';
+import { CalendarCog, X } from 'lucide-react';
+
+const formatDate = (d: Date) => `${d.getFullYear()}/${d.getMonth() + 1}/${d.getDate()}`;
+
+const FiscalSettingsModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { settings, updateSettings, setCurrentTerm } = useData();
+  const [fiscalYearEndMonth, setFiscalYearEndMonth] = useState(settings.fiscalYearEndMonth);
+  const [useFirstTerm, setUseFirstTerm] = useState(!!settings.firstTermStartDate);
+  const [firstTermStartDate, setFirstTermStartDate] = useState(settings.firstTermStartDate || '');
+
+  const draft: FiscalCalendar = {
+    fiscalYearEndMonth,
+    firstTermStartDate: useFirstTerm && firstTermStartDate ? firstTermStartDate : undefined,
+  };
+
+  // Preview: the first term (if any) and the term containing today
+  const todayTerm = getTermForDate(new Date(), draft);
+  const previewTerms = Array.from(new Set([getFirstTerm(draft), todayTerm].filter((t): t is number => t !== null)));
+
+  const handleSave = () => {
+    if (useFirstTerm && !firstTermStartDate) {
+      alert('創業期の開始日を入力してください。');
+      return;
+    }
+    updateSettings({ ...settings, ...draft }, '決算期の設定を更新しました');
+    // Term numbers change meaning with the year end, so jump to the term containing today
+    setCurrentTerm(todayTerm);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg w-[480px] shadow-2xl">
+        <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <CalendarCog className="w-5 h-5 mr-2 text-gray-500" /> 決算期の設定
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">決算月</label>
+            <select
+              className="w-full border p-2 rounded text-sm bg-white focus:ring-2 focus:ring-blue-500"
+              value={fiscalYearEndMonth}
+              onChange={e => setFiscalYearEndMonth(Number(e.target.value))}
+            >
+              {Array.from({ length: 12 }, (_, i) => i + 1).map(m => (
+                <option key={m} value={m}>{m}月決算</option>
+              ))}
+            </select>
+            <p className="text-[10px] text-gray-400 mt-1">期の名称は期末の年で表示されます (例: 3月決算の 2026年3月期 = 2025/4/1〜2026/3/31)。</p>
+          </div>
+
+          <div>
+            <label className="flex items-center text-xs font-bold text-gray-600 mb-1 cursor-pointer">
+              <input type="checkbox" className="mr-2" checked={useFirstTerm} onChange={e => setUseFirstTerm(e.target.checked)} />
+              創業期 (第1期) の開始日を指定する
+            </label>
+            {useFirstTerm && (
+              <input
+                type="date"
+                className="w-full border p-2 rounded text-sm focus:ring-2 focus:ring-blue-500"
+                value={firstTermStartDate}
+                onChange={e => setFirstTermStartDate(e.target.value)}
+              />
+            )}
+            <p className="text-[10px] text-gray-400 mt-1">設立日から最初の決算月末までを創業期として扱います (12ヶ月未満の短い期も可)。</p>
+          </div>
+
+          <div className="bg-gray-50 p-3 rounded border text-xs text-gray-600 space-y-1">
+            {previewTerms.map(term => {
+              const { start, end } = getTermDateRange(term, draft);
+              return (
+                <p key={term}>
+                  <span className="font-bold">{getTermLabel(term, draft)}</span>: {formatDate(start)} 〜 {formatDate(end)}
+                  {term === todayTerm && <span className="ml-1 text-blue-600">(今期)</span>}
+                </p>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+          <button onClick={handleSave} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700">保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FiscalSettingsModal;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useData } from '../context/AppContext';
+import { FxRate } from '../types';
+import { CONTRACT_CURRENCIES, getMissingFxCurrencies, toMonthKey } from '../utils';
+import { Coins, Trash2, X } from 'lucide-react';
+
+const FOREIGN_CURRENCIES = CONTRACT_CURRENCIES.filter(c => c !== 'JPY');
+
+// FX rate table for foreign-currency projects: monthly average (revenue) and month-end spot (receipts), JPY per unit
+const FxRatesModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { settings, updateSettings, projects } = useData();
+  const [rates, setRates] = useState<FxRate[]>(settings.fxRates || []);
+  const [newRate, setNewRate] = useState<FxRate>({ currency: FOREIGN_CURRENCIES[0], month: toMonthKey(new Date()), average: 0, spot: 0 });
+
+  const sorted = [...rates].sort((a, b) => a.currency.localeCompare(b.currency) || b.month.localeCompare(a.month));
+  const missing = getMissingFxCurrencies(projects, rates);
+
+  const handleAdd = () => {
+    if (!newRate.month || newRate.average <= 0 || newRate.spot <= 0) {
+      alert('対象月と、期中平均・月末レートを入力してください。');
+      return;
+    }
+    // One rate per currency and month: re-entering replaces it
+    setRates([...rates.filter(r => !(r.currency === newRate.currency && r.month === newRate.month)), { ...newRate }]);
+    setNewRate({ ...newRate, average: 0, spot: 0 });
+  };
+
+  const handleSave = () => {
+    updateSettings({ ...settings, fxRates: rates }, '為替レートを更新しました');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg w-[560px] max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <Coins className="w-5 h-5 mr-2 text-gray-500" /> 為替レート
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-3">
+          外貨建て案件の円換算に使います (1通貨単位あたりの円)。売上は計上月の期中平均レート、入金は入金月の月末レートで換算し、その差額を為替差損益とします。
+          登録のない月は直前の月のレートを使います。
+        </p>
+        {missing.length > 0 && (
+          <p className="text-xs text-red-600 mb-3">レート未登録の通貨があります: {missing.join(', ')}</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto border rounded mb-3">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50 text-gray-500 sticky top-0">
+              <tr>
+                <th className="text-left px-3 py-2">通貨</th>
+                <th className="text-left px-3 py-2">対象月</th>
+                <th className="text-right px-3 py-2">期中平均</th>
+                <th className="text-right px-3 py-2">月末</th>
+                <th className="w-8"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sorted.map(rate => (
+                <tr key={`${rate.currency}-${rate.month}`}>
+                  <td className="px-3 py-1.5 font-bold">{rate.currency}</td>
+                  <td className="px-3 py-1.5 font-mono">{rate.month}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">{rate.average.toFixed(2)}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">{rate.spot.toFixed(2)}</td>
+                  <td className="px-3 py-1.5 text-center">
+                    <button onClick={() => setRates(rates.filter(r => r !== rate))} className="text-red-400 hover:text-red-600" title="削除">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {sorted.length === 0 && (
+                <tr><td colSpan={5} className="px-3 py-4 text-center text-gray-400">レートが登録されていません</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-end gap-2 text-xs bg-gray-50 p-3 rounded border">
+          <div>
+            <label className="block text-gray-500 mb-1">通貨</label>
+            <select className="border p-1.5 rounded bg-white" value={newRate.currency} onChange={e => setNewRate({ ...newRate, currency: e.target.value })}>
+              {FOREIGN_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-gray-500 mb-1">対象月</label>
+            <input type="month" className="border p-1 rounded" value={newRate.month} onChange={e => setNewRate({ ...newRate, month: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-gray-500 mb-1">期中平均</label>
+            <input type="number" step="0.01" min="0" className="border p-1 rounded w-20 text-right font-mono" value={newRate.average || ''} onChange={e => setNewRate({ ...newRate, average: Number(e.target.value) })} />
+          </div>
+          <div>
+            <label className="block text-gray-500 mb-1">月末</label>
+            <input type="number" step="0.01" min="0" className="border p-1 rounded w-20 text-right font-mono" value={newRate.spot || ''} onChange={e => setNewRate({ ...newRate, spot: Number(e.target.value) })} />
+          </div>
+          <button onClick={handleAdd} className="px-3 py-1.5 bg-gray-700 text-white rounded font-bold hover:bg-gray-800">追加</button>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+          <button onClick={handleSave} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700">保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FxRatesModal;
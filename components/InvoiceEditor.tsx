@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { useData } from '../context/AppContext';
+import { Invoice, InvoiceLine, TaxCode } from '../types';
+import { getInvoiceTotals, getLineTaxCode } from '../services/invoices';
+import { formatMoney, generateId, getTaxRate, parseLocalDate, TAX_CODE_LABELS } from '../utils';
+import { FileText, Plus, Trash2, X } from 'lucide-react';
+
+// Edits a draft invoice. Line amounts follow quantity x unit price (rounded down).
+const InvoiceEditor: React.FC<{ invoice: Invoice, onClose: () => void }> = ({ invoice, onClose }) => {
+  const { updateInvoice, settings } = useData();
+  const [draft, setDraft] = useState<Invoice>(invoice);
+  const currency = draft.currency || 'JPY';
+  const totals = getInvoiceTotals(draft);
+  // Rates of the tax codes on the issue date
+  const rateOf = (code: TaxCode) => getTaxRate(code, parseLocalDate(draft.issueDate || invoice.issueDate), settings.taxRates);
+
+  const updateLine = (id: string, patch: Partial<InvoiceLine>) => {
+    setDraft({
+      ...draft,
+      lines: draft.lines.map(l => {
+        if (l.id !== id) return l;
+        const next = { ...l, ...patch };
+        return { ...next, amount: Math.floor(next.quantity * next.unitPrice) };
+      })
+    });
+  };
+
+  const handleAddLine = () => {
+    setDraft({
+      ...draft,
+      lines: [...draft.lines, { id: generateId(), description: '', quantity: 1, unit: '式', unitPrice: 0, amount: 0, taxCode: 'standard', taxRate: rateOf('standard') }]
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft.issueDate || !draft.dueDate) {
+      alert('発行日と支払期限を入力してください。');
+      return;
+    }
+    if (draft.dueDate < draft.issueDate) {
+      alert('支払期限は発行日以降の日付にしてください。');
+      return;
+    }
+    if (draft.lines.length === 0 || draft.lines.some(l => !l.description)) {
+      alert('明細を1行以上入力し、品目を空欄にしないでください。');
+      return;
+    }
+    updateInvoice(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg w-[880px] max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <FileText className="w-5 h-5 mr-2 text-gray-500" /> 請求書の編集 (下書き)
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-4 gap-3 text-sm">
+            <div className="col-span-2">
+              <label className="block text-xs font-bold text-gray-600 mb-1">宛先</label>
+              <input type="text" className="w-full border p-2 rounded" value={draft.clientName} onChange={e => setDraft({ ...draft, clientName: e.target.value })} />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-bold text-gray-600 mb-1">件名</label>
+              <input type="text" className="w-full border p-2 rounded" value={draft.projectName} onChange={e => setDraft({ ...draft, projectName: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-600 mb-1">取引年月</label>
+              <input type="month" className="w-full border p-2 rounded" value={draft.billingMonth} onChange={e => setDraft({ ...draft, billingMonth: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-600 mb-1">発行日</label>
+              <input type="date" className="w-full border p-2 rounded" value={draft.issueDate} onChange={e => setDraft({ ...draft, issueDate: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-600 mb-1">支払期限</label>
+              <input type="date" className="w-full border p-2 rounded" value={draft.dueDate} onChange={e => setDraft({ ...draft, dueDate: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-600 mb-1">通貨</label>
+              <div className="p-2 text-gray-600">{currency}</div>
+            </div>
+          </div>
+
+          <table className="min-w-full text-xs border">
+            <thead className="bg-gray-50 text-gray-500">
+              <tr>
+                <th className="text-left px-2 py-2">品目</th>
+                <th className="text-right px-2 py-2 w-20">数量</th>
+                <th className="text-left px-2 py-2 w-16">単位</th>
+                <th className="text-right px-2 py-2 w-28">単価</th>
+                <th className="text-center px-2 py-2 w-36">税区分</th>
+                <th className="text-right px-2 py-2 w-28">金額 (税抜)</th>
+                <th className="w-8"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {draft.lines.map(line => (
+                <tr key={line.id}>
+                  <td className="px-2 py-1">
+                    <input type="text" className="w-full border p-1 rounded" value={line.description} onChange={e => updateLine(line.id, { description: e.target.value })} />
+                    {line.sourceKey && <div className="text-[10px] text-gray-400 mt-0.5">請求データ: {line.sourceKey}</div>}
+                  </td>
+                  <td className="px-2 py-1">
+                    <input type="number" step="0.01" className="w-full border p-1 rounded text-right font-mono" value={line.quantity} onChange={e => updateLine(line.id, { quantity: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input type="text" className="w-full border p-1 rounded" value={line.unit || ''} onChange={e => updateLine(line.id, { unit: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input type="number" className="w-full border p-1 rounded text-right font-mono" value={line.unitPrice} onChange={e => updateLine(line.id, { unitPrice: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-1">
+                    <select
+                      className="w-full border p-1 rounded bg-white"
+                      value={getLineTaxCode(line)}
+                      onChange={e => {
+                        const taxCode = e.target.value as TaxCode;
+                        updateLine(line.id, { taxCode, taxRate: rateOf(taxCode) });
+                      }}
+                    >
+                      {(Object.keys(TAX_CODE_LABELS) as TaxCode[]).map(code => <option key={code} value={code}>{TAX_CODE_LABELS[code]} {rateOf(code)}%</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1 text-right font-mono">{formatMoney(line.amount, currency)}</td>
+                  <td className="px-2 py-1 text-center">
+                    <button onClick={() => setDraft({ ...draft, lines: draft.lines.filter(l => l.id !== line.id) })} className="text-red-400 hover:text-red-600" title="削除">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button onClick={handleAddLine} className="flex items-center text-xs text-blue-600 hover:text-blue-800 font-bold">
+            <Plus className="w-3 h-3 mr-1" /> 明細を追加
+          </button>
+
+          <div className="flex justify-between items-start gap-4">
+            <div className="flex-1">
+              <label className="block text-xs font-bold text-gray-600 mb-1">備考</label>
+              <textarea className="w-full border p-2 rounded text-sm h-20" value={draft.notes || ''} onChange={e => setDraft({ ...draft, notes: e.target.value })} />
+            </div>
+            <table className="text-xs">
+              <tbody>
+                {totals.breakdown.map(b => (
+                  <tr key={`${b.taxCode}:${b.taxRate}`}>
+                    <td className="px-2 py-0.5 text-gray-500">{b.label}</td>
+                    <td className="px-2 py-0.5 text-right font-mono">{formatMoney(b.subtotal, currency)}</td>
+                    <td className="px-2 py-0.5 text-gray-500">消費税</td>
+                    <td className="px-2 py-0.5 text-right font-mono">{formatMoney(b.tax, currency)}</td>
+                  </tr>
+                ))}
+                <tr className="font-bold border-t">
+                  <td className="px-2 py-1" colSpan={3}>合計 (税込)</td>
+                  <td className="px-2 py-1 text-right font-mono">{formatMoney(totals.total, currency)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+          <button onClick={handleSave} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700">保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceEditor;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { useData } from '../context/AppContext';
+import { InvoiceIssuer } from '../types';
+import { formatInvoiceNumber, getNextInvoiceSequence, isValidRegistrationNumber } from '../services/invoices';
+import { FileCog, X } from 'lucide-react';
+
+const emptyIssuer: InvoiceIssuer = { companyName: '', registrationNumber: '', address: '', phone: '', bankAccount: '', numberPrefix: 'INV-' };
+
+// Issuer details printed on every invoice. The registration number is required before any invoice can be issued.
+const InvoiceSettingsModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { settings, updateSettings, invoices } = useData();
+  const [issuer, setIssuer] = useState<InvoiceIssuer>({ ...emptyIssuer, ...settings.invoiceIssuer });
+
+  const handleSave = () => {
+    if (!issuer.companyName) {
+      alert('発行者名を入力してください。');
+      return;
+    }
+    if (!isValidRegistrationNumber(issuer.registrationNumber)) {
+      alert('インボイス登録番号は T + 13桁の数字で入力してください。');
+      return;
+    }
+    updateSettings({ ...settings, invoiceIssuer: issuer }, '請求書の発行者情報を更新しました');
+    onClose();
+  };
+
+  const field = (key: keyof InvoiceIssuer, label: string, placeholder = '') => (
+    <div>
+      <label className="block text-xs font-bold text-gray-600 mb-1">{label}</label>
+      <input
+        type="text"
+        className="w-full border p-2 rounded text-sm focus:ring-2 focus:ring-blue-500"
+        placeholder={placeholder}
+        value={issuer[key] || ''}
+        onChange={e => setIssuer({ ...issuer, [key]: e.target.value })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg w-[480px] shadow-2xl">
+        <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <FileCog className="w-5 h-5 mr-2 text-gray-500" /> 請求書の発行者情報
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {field('companyName', '発行者名 (会社名)')}
+          {field('registrationNumber', 'インボイス登録番号', 'T1234567890123')}
+          {field('address', '住所')}
+          {field('phone', '電話番号')}
+          {field('bankAccount', '振込先', '〇〇銀行 本店 普通 1234567 カ) アーウィン')}
+          <div>
+            {field('numberPrefix', '請求書番号の接頭辞')}
+            <p className="text-[10px] text-gray-400 mt-1">
+              番号は全請求書で連番です。次の番号: {formatInvoiceNumber(issuer.numberPrefix, getNextInvoiceSequence(invoices))}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+          <button onClick={handleSave} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700">保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceSettingsModal;
@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import { Invoice, InvoiceStatus } from '../types';
+import {
+  buildInvoiceDrafts, getInvoiceTotals, getIssuerProblems, getUninvoicedItems, INVOICE_STATUS_LABELS, renderInvoiceHtml,
+} from '../services/invoices';
+import { formatMoney, getProjectCurrency, parseLocalDate, toMonthKey } from '../utils';
+import InvoiceEditor from './InvoiceEditor';
+import InvoiceSettingsModal from './InvoiceSettingsModal';
+import { Ban, FileCog, FilePlus, FileText, Pencil, Printer, Send, Trash2 } from 'lucide-react';
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-600 border-gray-200',
+  issued: 'bg-green-50 text-green-700 border-green-200',
+  void: 'bg-red-50 text-red-600 border-red-200',
+};
+
+// Opens the print layout in a new window; the browser's print dialog also saves it as PDF
+const printInvoice = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) {
+    alert('印刷用のウィンドウを開けませんでした。ポップアップを許可してください。');
+    return;
+  }
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+};
+
+const Invoices: React.FC = () => {
+  const { projects, employees, workLogs, invoices, settings, addInvoices, deleteInvoice, issueInvoice, voidInvoice } = useData();
+  const { can } = useAuth();
+  const [billingMonth, setBillingMonth] = useState(toMonthKey(new Date()));
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | 'all'>('all');
+  const [editing, setEditing] = useState<Invoice | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const canEdit = can('invoice:edit');
+  const issuerProblems = getIssuerProblems(settings.invoiceIssuer);
+  const [year, month] = billingMonth.split('-').map(Number);
+
+  const pendingItems = useMemo(
+    () => billingMonth ? getUninvoicedItems(projects, invoices, year, month - 1, { employees, workLogs, fxRates: settings.fxRates, closedDays: settings.closedDays, taxRates: settings.taxRates }) : [],
+    [projects, invoices, employees, workLogs, settings.fxRates, settings.closedDays, settings.taxRates, billingMonth, year, month]
+  );
+
+  const listed = useMemo(() => invoices
+    .filter(inv => statusFilter === 'all' || inv.status === statusFilter)
+    .sort((a, b) => b.billingMonth.localeCompare(a.billingMonth) || (b.sequence || 0) - (a.sequence || 0)),
+    [invoices, statusFilter]);
+
+  const handleCreateDrafts = () => {
+    addInvoices(buildInvoiceDrafts(projects, pendingItems, year, month - 1));
+  };
+
+  const handleIssue = (inv: Invoice) => {
+    if (!confirm(`${inv.clientName} 宛の請求書を発行します。発行後は番号が確定し、内容の変更や元に戻す操作はできません。`)) return;
+    issueInvoice(inv.id);
+  };
+
+  const handleVoid = (inv: Invoice) => {
+    const reason = prompt(`請求書『${inv.number}』を無効にします。この操作は元に戻せません。理由を入力してください。`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert('無効にする理由を入力してください。');
+      return;
+    }
+    voidInvoice(inv.id, reason.trim());
+  };
+
+  const handleDelete = (inv: Invoice) => {
+    if (!confirm(`${inv.clientName} 宛の下書きを削除しますか？`)) return;
+    deleteInvoice(inv.id);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold text-gray-700 flex items-center">
+            <FileText className="w-5 h-5 mr-2 text-gray-500" /> 請求書
+          </h2>
+          <p className="text-sm text-gray-500">案件の請求条件 (フローの着手・完了・分割、月額ストック、タイムチャージ) から適格請求書を作成します。発行すると連番が確定し、訂正は無効にして再発行します。</p>
+        </div>
+        {can('settings:edit') && (
+          <button onClick={() => setShowSettings(true)} className="flex items-center px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 text-sm font-bold shadow-sm">
+            <FileCog className="w-4 h-4 mr-1" /> 発行者情報
+          </button>
+        )}
+      </div>
+
+      {issuerProblems.length > 0 && (
+        <div className="p-3 bg-orange-50 border border-orange-200 rounded text-xs text-orange-700">
+          請求書を発行するには発行者情報の設定が必要です: {issuerProblems.join(' / ')}
+        </div>
+      )}
+
+      {/* Billing events not invoiced yet */}
+      <div className="bg-white rounded shadow-sm border border-gray-200 p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-sm font-bold text-gray-700 flex items-center">
+            <FilePlus className="w-4 h-4 mr-1 text-blue-500" /> 未請求の請求データ
+            <input type="month" className="ml-3 border rounded p-1 text-xs font-normal" value={billingMonth} onChange={e => setBillingMonth(e.target.value)} />
+          </h3>
+          {canEdit && (
+            <button
+              onClick={handleCreateDrafts}
+              disabled={pendingItems.length === 0}
+              className="flex items-center px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700 text-xs font-bold shadow-sm disabled:opacity-40"
+            >
+              <FilePlus className="w-3 h-3 mr-1" /> 下書きを作成
+            </button>
+          )}
+        </div>
+        <table className="min-w-full text-xs">
+          <thead className="text-gray-500 border-b">
+            <tr>
+              <th className="text-left py-1">案件</th>
+              <th className="text-left py-1">品目</th>
+              <th className="text-right py-1">金額 (税抜)</th>
+              <th className="text-center py-1">支払期限</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {pendingItems.map(item => {
+              const project = projects.find(p => p.id === item.projectId)!;
+              return (
+                <tr key={`${item.projectId}:${item.sourceKey}`}>
+                  <td className="py-1.5">
+                    <div className="font-bold text-gray-800">{project.clientName}</div>
+                    <div className="text-gray-500">{project.projectName}</div>
+                  </td>
+                  <td className="py-1.5 text-gray-600">{item.lines.map(l => l.description).join(' / ')}</td>
+                  <td className="py-1.5 text-right font-mono">{formatMoney(item.lines.reduce((sum, l) => sum + l.amount, 0), getProjectCurrency(project))}</td>
+                  <td className="py-1.5 text-center font-mono">{item.dueDate}</td>
+                </tr>
+              );
+            })}
+            {pendingItems.length === 0 && (
+              <tr><td colSpan={4} className="py-4 text-center text-gray-400">この月の未請求の請求データはありません</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Invoices */}
+      <div className="bg-white rounded shadow overflow-hidden border border-gray-200">
+        <div className="flex justify-end p-3 border-b bg-gray-50">
+          <select className="border rounded p-1 text-xs bg-white" value={statusFilter} onChange={e => setStatusFilter(e.target.value as InvoiceStatus | 'all')}>
+            <option value="all">すべて</option>
+            {(Object.keys(INVOICE_STATUS_LABELS) as InvoiceStatus[]).map(s => <option key={s} value={s}>{INVOICE_STATUS_LABELS[s]}</option>)}
+          </select>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">番号</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">宛先 / 件名</th>
+              <th className="px-4 py-2 text-center text-xs font-medium text-gray-500">取引年月</th>
+              <th className="px-4 py-2 text-center text-xs font-medium text-gray-500">発行日</th>
+              <th className="px-4 py-2 text-center text-xs font-medium text-gray-500">支払期限</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">請求額 (税込)</th>
+              <th className="px-4 py-2 text-center text-xs font-medium text-gray-500">状態</th>
+              <th className="px-4 py-2 text-center text-xs font-medium text-gray-500">操作</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {listed.map(inv => {
+              const totals = getInvoiceTotals(inv);
+              const isOverdue = inv.status === 'issued' && parseLocalDate(inv.dueDate) < new Date();
+              return (
+                <tr key={inv.id} className={inv.status === 'void' ? 'opacity-60' : ''}>
+                  <td className="px-4 py-2 font-mono text-xs">{inv.number || '-'}</td>
+                  <td className="px-4 py-2">
+                    <div className="font-bold text-gray-700">{inv.clientName}</div>
+                    <div className="text-xs text-gray-500">{inv.projectName}</div>
+                  </td>
+                  <td className="px-4 py-2 text-center font-mono text-xs">{inv.billingMonth}</td>
+                  <td className="px-4 py-2 text-center font-mono text-xs">{inv.issueDate}</td>
+                  <td className={`px-4 py-2 text-center font-mono text-xs ${isOverdue ? 'text-red-600 font-bold' : ''}`}>{inv.dueDate}</td>
+                  <td className="px-4 py-2 text-right font-mono">
+                    {formatMoney(totals.total, inv.currency)}
+                    <div className="text-[10px] text-gray-400">うち消費税 {formatMoney(totals.tax, inv.currency)}</div>
+                  </td>
+                  <td className="px-4 py-2 text-center">
+                    <span className={`px-1.5 py-0.5 rounded border text-xs ${STATUS_STYLES[inv.status]}`} title={inv.voidReason}>{INVOICE_STATUS_LABELS[inv.status]}</span>
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex justify-center gap-2">
+                      <button onClick={() => printInvoice(renderInvoiceHtml(inv, settings.invoiceIssuer))} className="text-gray-500 hover:text-gray-800" title="印刷 / PDF">
+                        <Printer className="w-4 h-4" />
+                      </button>
+                      {canEdit && inv.status === 'draft' && (
+                        <>
+                          <button onClick={() => setEditing(inv)} className="text-blue-500 hover:text-blue-700" title="編集">
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleIssue(inv)} className="text-green-600 hover:text-green-800" title="発行">
+                            <Send className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleDelete(inv)} className="text-red-400 hover:text-red-600" title="削除">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                      {canEdit && inv.status === 'issued' && (
+                        <button onClick={() => handleVoid(inv)} className="text-red-400 hover:text-red-600" title="無効にする">
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+            {listed.length === 0 && (
+              <tr><td colSpan={8} className="px-4 py-6 text-center text-gray-400 text-sm">請求書はありません</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {editing && <InvoiceEditor invoice={editing} onClose={() => setEditing(null)} />}
+      {showSettings && <InvoiceSettingsModal onClose={() => setShowSettings(false)} />}
+    </div>
+  );
+};
+
+export default Invoices;
@@ -1,6 +1,15 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useData } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import UndoToast from './UndoToast';
+import FiscalSettingsModal from './FiscalSettingsModal';
+import FxRatesModal from './FxRatesModal';
+import BusinessCalendarModal from './BusinessCalendarModal';
+import TaxRatesModal from './TaxRatesModal';
+import ChangePasswordModal from './ChangePasswordModal';
+import { getTermOptions, getTermLabel } from '../utils';
+import { canViewTab, ROLE_LABELS } from '../services/permissions';
 import { 
   LayoutDashboard, 
   Users, 
@@ -9,7 +18,18 @@ import {
   DollarSign, 
   LogOut,
   Menu,
-  Calendar
+  Calendar,
+  Database,
+  History,
+  Settings,
+  GitCompare,
+  UserCog,
+  KeyRound,
+  Coins,
+  FileText,
+  Wallet,
+  CalendarDays,
+  Percent
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -20,26 +40,31 @@ interface LayoutProps {
 }
 
 const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab, onLogout }) => {
-  const { currentTerm, setCurrentTerm } = useData();
+  const { currentTerm, setCurrentTerm, settings, storageStatus } = useData();
+  const [showFiscalSettings, setShowFiscalSettings] = useState(false);
+  const [showFxRates, setShowFxRates] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [showTaxRates, setShowTaxRates] = useState(false);
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const { user, can } = useAuth();
 
-  const navItems = [
+  const allNavItems = [
     { id: 'dashboard', label: 'ダッシュボード', icon: LayoutDashboard },
     { id: 'resource', label: '予実管理 (Resource)', icon: Calendar },
     { id: 'analytics', label: '収益分析', icon: TrendingUp },
+    { id: 'comparison', label: '前期比較', icon: GitCompare },
     { id: 'projects', label: '案件マスタ', icon: Briefcase },
     { id: 'employees', label: '従業員マスタ', icon: Users },
+    { id: 'invoices', label: '請求書', icon: FileText },
+    { id: 'receivables', label: '売掛金・入金消込', icon: Wallet },
     { id: 'cf', label: 'キャッシュフロー', icon: DollarSign },
+    { id: 'audit', label: '変更履歴', icon: History },
+    { id: 'data', label: 'データ管理', icon: Database },
+    { id: 'users', label: 'ユーザー管理', icon: UserCog },
   ];
+  const navItems = allNavItems.filter(item => canViewTab(user?.role, item.id));
 
-  // Dynamic Term Options: Ensure currentTerm is included, and show a reasonable range (e.g. -2 to +2 years)
-  // Base range around 2025 as the anchor, but expand if currentTerm is outside
-  const baseYear = 2025;
-  const minYear = Math.min(baseYear, currentTerm - 1);
-  const maxYear = Math.max(baseYear + 3, currentTerm + 1);
-  const termOptions = [];
-  for (let y = minYear; y <= maxYear; y++) {
-    termOptions.push(y);
-  }
+  const termOptions = getTermOptions(currentTerm, settings);
 
   return (
     <div className="flex h-screen bg-gray-100 overflow-hidden">
@@ -67,6 +92,15 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab, onLo
           ))}
         </nav>
         <div className="p-4 border-t border-slate-700">
+          {user && (
+            <div className="mb-2">
+              <p className="text-xs text-slate-300 truncate" title={user.email}>{user.name || user.email}</p>
+              <p className="text-[10px] text-slate-500">{ROLE_LABELS[user.role]}</p>
+              <button onClick={() => setShowChangePassword(true)} className="mt-1 flex items-center text-[10px] text-slate-400 hover:text-white">
+                <KeyRound className="w-3 h-3 mr-1" /> パスワード変更
+              </button>
+            </div>
+          )}
           <button 
             onClick={onLogout}
             className="flex items-center text-slate-400 hover:text-white transition-colors"
@@ -99,17 +133,46 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTab, onLo
              >
                {termOptions.map(year => (
                  <option key={year} value={year}>
-                   {year}年11月期 {year === 2025 ? '(創業期)' : ''}
+                   {getTermLabel(year, settings)}
                  </option>
                ))}
              </select>
+             {can('settings:edit') && (
+               <>
+                 <button onClick={() => setShowFiscalSettings(true)} className="text-gray-400 hover:text-gray-600" title="決算期の設定">
+                   <Settings className="w-4 h-4" />
+                 </button>
+                 <button onClick={() => setShowFxRates(true)} className="text-gray-400 hover:text-gray-600" title="為替レート">
+                   <Coins className="w-4 h-4" />
+                 </button>
+                 <button onClick={() => setShowCalendar(true)} className="text-gray-400 hover:text-gray-600" title="営業日カレンダー">
+                   <CalendarDays className="w-4 h-4" />
+                 </button>
+                 <button onClick={() => setShowTaxRates(true)} className="text-gray-400 hover:text-gray-600" title="消費税率">
+                   <Percent className="w-4 h-4" />
+                 </button>
+               </>
+             )}
            </div>
         </header>
 
+        {storageStatus.error && (
+          <div className="bg-red-50 border-b border-red-200 px-8 py-2 text-sm text-red-700">
+            データの保存・読み込みに失敗しました ({storageStatus.label}): {storageStatus.error}
+          </div>
+        )}
+
         <div className="p-8 overflow-auto flex-1">
           {children}
         </div>
       </main>
+
+      <UndoToast />
+      {showFiscalSettings && <FiscalSettingsModal onClose={() => setShowFiscalSettings(false)} />}
+      {showFxRates && <FxRatesModal onClose={() => setShowFxRates(false)} />}
+      {showCalendar && <BusinessCalendarModal onClose={() => setShowCalendar(false)} />}
+      {showTaxRates && <TaxRatesModal onClose={() => setShowTaxRates(false)} />}
+      {showChangePassword && <ChangePasswordModal onClose={() => setShowChangePassword(false)} />}
     </div>
   );
 };
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { Lock } from 'lucide-react';
+
+// Covers the app after an idle timeout or session expiry. The screens underneath stay mounted,
+// so forms being edited are still there after the password is entered again.
+const LockScreen: React.FC = () => {
+  const { user, unlock, logout, oidcEnabled, signInWithOidc } = useAuth();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const message = await unlock(password);
+      if (message) setError(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // SSO accounts have no password of their own; signing in again goes through the provider (a page reload)
+  const handleOidc = async () => {
+    if (!confirm('認証サーバーに移動します。保存されていない入力内容は失われます。')) return;
+    try {
+      await signInWithOidc();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-90 flex items-center justify-center z-[100] p-4">
+      <div className="bg-white p-8 rounded-lg w-[400px] shadow-2xl">
+        <div className="flex flex-col items-center mb-6">
+          <Lock className="w-10 h-10 text-blue-900 mb-2" />
+          <h2 className="text-lg font-bold text-blue-900">画面をロックしました</h2>
+          <p className="text-xs text-gray-500 mt-1 text-center">一定時間操作がなかったか、ログインの有効期限が切れました。続けるにはパスワードを入力してください。</p>
+        </div>
+        {oidcEnabled && user?.oidcSubject ? (
+          <div className="space-y-4">
+            <div className="text-sm text-gray-800 text-center">{user.name} <span className="text-gray-400">({user.email})</span></div>
+            {error && <p className="text-red-500 text-sm font-medium">{error}</p>}
+            <button onClick={handleOidc} className="w-full bg-blue-900 text-white py-2 rounded hover:bg-blue-800 font-semibold shadow-md">
+              社内アカウントで再ログイン (SSO)
+            </button>
+          </div>
+        ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">ユーザー</label>
+            <div className="text-sm text-gray-800">{user?.name} <span className="text-gray-400">({user?.email})</span></div>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">パスワード</label>
+            <input
+              type="password"
+              required
+              autoFocus
+              autoComplete="current-password"
+              className="w-full border p-2 rounded text-sm"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+            />
+          </div>
+          {error && <p className="text-red-500 text-sm font-medium">{error}</p>}
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-blue-900 text-white py-2 rounded hover:bg-blue-800 font-semibold shadow-md disabled:opacity-50"
+          >
+            ロック解除
+          </button>
+        </form>
+        )}
+        <button
+          onClick={() => { if (confirm('ログアウトします。保存されていない入力内容は失われます。')) logout(); }}
+          className="w-full mt-3 text-xs text-gray-500 hover:text-gray-700"
+        >
+          別のユーザーでログイン
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
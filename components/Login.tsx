@@ -1,22 +1,48 @@
 import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
 
-interface LoginProps {
-  onLogin: () => void;
-}
-
-const Login: React.FC<LoginProps> = ({ onLogin }) => {
+const Login: React.FC = () => {
+  const { login, setupAdmin, needsSetup, isLoaded, loadError, oidcEnabled, signInWithOidc, oidcError } = useAuth();
+  const [name, setName] = useState('');
   const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [passwordConfirm, setPasswordConfirm] = useState('');
   const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (email.endsWith('@irwin-and-co.com')) {
-      onLogin();
-    } else {
-      setError('irwin-and-co.com のメールアドレスのみログイン可能です。');
+    setError('');
+    setIsSubmitting(true);
+    try {
+      if (needsSetup) {
+        if (password !== passwordConfirm) {
+          setError('確認用パスワードが一致しません。');
+          return;
+        }
+        await setupAdmin({ name, email }, password);
+      } else {
+        const message = await login(email, password);
+        if (message) setError(message);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOidc = async () => {
+    setError('');
+    try {
+      await signInWithOidc();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
     }
   };
 
+  const inputClass = "w-full px-4 py-3 border border-blue-200 rounded-md focus:ring-2 focus:ring-blue-900 focus:border-blue-900 focus:outline-none placeholder-blue-300 text-blue-900";
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-white">
       <div className="w-full max-w-md p-8">
@@ -26,29 +52,84 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
             I&C
           </div>
         </div>
-        
+
         <div className="bg-white p-8 border border-blue-100 rounded-lg shadow-lg">
            <h2 className="text-xl font-bold text-center text-blue-900 mb-6">管理会計システム</h2>
+           {needsSetup && (
+             <p className="text-sm text-blue-800 bg-blue-50 border border-blue-100 rounded p-3 mb-6">
+               ユーザーが登録されていません。最初の管理者アカウントを作成してください。
+             </p>
+           )}
+           {loadError && (
+             <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3 mb-6">
+               ユーザー情報を読み込めませんでした: {loadError}
+             </p>
+           )}
+           {oidcError && (
+             <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3 mb-6">{oidcError}</p>
+           )}
+           {oidcEnabled && (
+             <div className="mb-6">
+               <button
+                 type="button"
+                 onClick={handleOidc}
+                 disabled={!isLoaded || !!loadError}
+                 className="w-full border border-blue-900 text-blue-900 py-3 rounded-md hover:bg-blue-50 transition duration-200 font-semibold disabled:opacity-50"
+               >
+                 社内アカウントでログイン (SSO)
+               </button>
+               <div className="flex items-center my-6 text-xs text-blue-300">
+                 <div className="flex-1 border-t border-blue-100" />
+                 <span className="px-3">{needsSetup ? 'または初期管理者を作成' : 'またはパスワードでログイン'}</span>
+                 <div className="flex-1 border-t border-blue-100" />
+               </div>
+             </div>
+           )}
            <form onSubmit={handleSubmit} className="space-y-6">
+            {needsSetup && (
+              <div>
+                <label className="block text-sm font-medium text-blue-900 mb-2">氏名</label>
+                <input type="text" required className={inputClass} value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+            )}
             <div>
               <label className="block text-sm font-medium text-blue-900 mb-2">メールアドレス</label>
               <input
                 type="email"
                 required
-                className="w-full px-4 py-3 border border-blue-200 rounded-md focus:ring-2 focus:ring-blue-900 focus:border-blue-900 focus:outline-none placeholder-blue-300 text-blue-900"
+                autoComplete="username"
+                className={inputClass}
                 placeholder="user@irwin-and-co.com"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-blue-900 mb-2">パスワード</label>
+              <input
+                type="password"
+                required
+                autoComplete={needsSetup ? 'new-password' : 'current-password'}
+                className={inputClass}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            {needsSetup && (
+              <div>
+                <label className="block text-sm font-medium text-blue-900 mb-2">パスワード (確認)</label>
+                <input type="password" required autoComplete="new-password" className={inputClass} value={passwordConfirm} onChange={(e) => setPasswordConfirm(e.target.value)} />
+              </div>
+            )}
             {error && (
               <p className="text-red-500 text-sm font-medium">{error}</p>
             )}
             <button
               type="submit"
-              className="w-full bg-blue-900 text-white py-3 rounded-md hover:bg-blue-800 transition duration-200 font-semibold shadow-md"
+              disabled={!isLoaded || isSubmitting || !!loadError}
+              className="w-full bg-blue-900 text-white py-3 rounded-md hover:bg-blue-800 transition duration-200 font-semibold shadow-md disabled:opacity-50"
             >
-              ログイン
+              {needsSetup ? '管理者を作成してログイン' : 'ログイン'}
             </button>
           </form>
         </div>
@@ -57,4 +138,4 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
   );
 };
 
-export default Login;
\ No newline at end of file
+export default Login;
@@ -1,19 +1,28 @@
 
 import React, { useState } from 'react';
 import { useData } from '../context/AppContext';
-import { Project, ProjectType, ProjectStatus, RevenueRecognitionMethod } from '../types';
-import { formatCurrency, getTermDateRange, calculateExactMonths } from '../utils';
-import { Plus, Search, Filter, X, Archive, ArrowLeft, Tag } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { Project, ProjectType, ProjectStatus, RevenueRecognitionMethod, ProrationMethod, BillingInstallment, TimeChargeRate, BusinessDayShift, TaxCode } from '../types';
+import { formatCurrency, getTermDateRange, getTermMonths, getTermLabel, calculateExactMonths, generateId, toMonthKey, toDateKey, getStockEndDate, getStockRate, getEarliestCancellationEnd, getInstallmentAmounts, getTimeChargeBilling, formatMoney, getCurrencySymbol, getProjectCurrency, getFxRate, CONTRACT_CURRENCIES, BUSINESS_DAY_SHIFT_LABELS, TAX_CODE_LABELS } from '../utils';
+import { Plus, Search, Filter, X, Archive, ArrowLeft, Tag, Trash2, RotateCcw, FolderArchive, RefreshCw } from 'lucide-react';
 import { NumberInput } from './NumberInput';
+import DeleteEntityDialog from './DeleteEntityDialog';
+import StockRenewals from './StockRenewals';
 
 const ProjectMaster: React.FC = () => {
-  const { projects, employees, addProject, updateProject, currentTerm, settings, updateSettings } = useData();
+  const { projects, employees, workLogs, addProject, updateProject, archiveProject, currentTerm, settings, updateSettings, batch } = useData();
+  const { can } = useAuth();
+  const canEdit = can('project:edit');
   
   // Added: Lead Source Options from Settings
   const leadSourceOptions = settings.leadSourceOptions || {};
+  const termLabel = getTermLabel(currentTerm, settings);
 
   // View State
   const [showLostList, setShowLostList] = useState(false);
+  const [showArchivedList, setShowArchivedList] = useState(false);
+  const [showRenewals, setShowRenewals] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
 
   // Modal State
   const [showModal, setShowModal] = useState(false);
@@ -24,6 +33,12 @@ const ProjectMaster: React.FC = () => {
   const [newCategoryName, setNewCategoryName] = useState('');
   const [isAddingDetail, setIsAddingDetail] = useState(false);
   const [newDetailName, setNewDetailName] = useState('');
+  // Re-estimate being entered for a 進行基準 project
+  const [newEstimate, setNewEstimate] = useState({ effectiveMonth: toMonthKey(new Date()), estimatedTotal: 0, note: '' });
+  // Stock price revision being entered
+  const [newRate, setNewRate] = useState({ effectiveMonth: toMonthKey(new Date()), monthlyAmount: 0 });
+  // Time-charge month whose invoice detail is shown
+  const [timeChargeDetailKey, setTimeChargeDetailKey] = useState<string | null>(null);
 
   // Autosuggest Data
   const uniqueClients = Array.from(new Set(projects.map(p => p.clientName))).sort();
@@ -31,7 +46,7 @@ const ProjectMaster: React.FC = () => {
   // Helper to generate default dates based on CURRENT TERM
   const getInitialDates = () => {
     // Get term range
-    const { start: termStart, end: termEnd } = getTermDateRange(currentTerm);
+    const { start: termStart, end: termEnd } = getTermDateRange(currentTerm, settings);
     const today = new Date();
     
     // If today is inside the term, use today.
@@ -95,6 +110,9 @@ const ProjectMaster: React.FC = () => {
     }
   };
   const [form, setForm] = useState<Partial<Project>>(initialFormState);
+  // Amounts of the project being edited are in its contract currency
+  const formCurrency = form.currency || 'JPY';
+  const formatFormMoney = (amount: number) => formatMoney(amount, formCurrency);
 
   // Added: Handlers for Dynamic Lead Source
   const handleAddCategory = () => {
@@ -104,7 +122,7 @@ const ProjectMaster: React.FC = () => {
         return;
     }
     const newOptions = { ...leadSourceOptions, [newCategoryName.trim()]: [] };
-    updateSettings({ ...settings, leadSourceOptions: newOptions });
+    updateSettings({ ...settings, leadSourceOptions: newOptions }, `リード獲得経路『${newCategoryName.trim()}』を追加しました`);
     setForm(prev => ({ ...prev, leadSourceCategory: newCategoryName.trim(), leadSourceDetail: '' }));
     setNewCategoryName('');
     setIsAddingCategory(false);
@@ -121,7 +139,7 @@ const ProjectMaster: React.FC = () => {
     const newDetails = [...currentDetails, newDetailName.trim()];
     const newOptions = { ...leadSourceOptions, [category]: newDetails };
     
-    updateSettings({ ...settings, leadSourceOptions: newOptions });
+    updateSettings({ ...settings, leadSourceOptions: newOptions }, `リード獲得経路『${category} / ${newDetailName.trim()}』を追加しました`);
     setForm(prev => ({ ...prev, leadSourceDetail: newDetailName.trim() }));
     setNewDetailName('');
     setIsAddingDetail(false);
@@ -176,12 +194,273 @@ const ProjectMaster: React.FC = () => {
 
 
   // Filtering
+  const handleAddEstimate = () => {
+    if (!newEstimate.effectiveMonth || newEstimate.estimatedTotal <= 0) {
+      alert('適用開始月と見積総額を入力してください。');
+      return;
+    }
+    const estimate = { id: generateId(), ...newEstimate, note: newEstimate.note || undefined, recordedAt: new Date().toISOString() };
+    setForm({ ...form, completionEstimates: [...(form.completionEstimates || []), estimate] });
+    setNewEstimate({ ...newEstimate, estimatedTotal: 0, note: '' });
+  };
+
+  // Estimates are a history: re-estimates are added with the month they apply from, earlier ones stay
+  const renderEstimateEditor = () => {
+    const isHours = form.completionBasis === 'hours';
+    const estimates = [...(form.completionEstimates || [])].sort((a, b) => a.effectiveMonth.localeCompare(b.effectiveMonth) || a.recordedAt.localeCompare(b.recordedAt));
+    return (
+      <div className="col-span-12 bg-white p-3 rounded border border-purple-200">
+        <div className="flex items-center gap-4 text-xs mb-2">
+          <label className="font-bold text-gray-600">進捗の測定:</label>
+          <select className="border rounded p-1 bg-white" value={form.completionBasis || 'cost'} onChange={e => setForm({...form, completionBasis: e.target.value as 'cost' | 'hours'})}>
+            <option value="cost">実績原価 (稼働実績 × 時間単価)</option>
+            <option value="hours">実績工数 (時間)</option>
+          </select>
+        </div>
+        <table className="min-w-full text-xs mb-2">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="text-left py-1">適用開始月</th>
+              <th className="text-right py-1">見積総{isHours ? '工数' : '原価'}</th>
+              <th className="text-left py-1 pl-4">メモ</th>
+              <th className="text-left py-1">登録日</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {estimates.map(est => (
+              <tr key={est.id}>
+                <td className="py-1 font-mono">{est.effectiveMonth}</td>
+                <td className="py-1 text-right font-mono">{isHours ? `${est.estimatedTotal}h` : formatCurrency(est.estimatedTotal)}</td>
+                <td className="py-1 pl-4 text-gray-600">{est.note}</td>
+                <td className="py-1 text-gray-400">{est.recordedAt.slice(0, 10)}</td>
+              </tr>
+            ))}
+            {estimates.length === 0 && (
+              <tr><td colSpan={4} className="py-2 text-center text-gray-400">見積が未登録です。登録するまで売上は計上されません。</td></tr>
+            )}
+          </tbody>
+        </table>
+        <div className="flex items-end gap-2 text-xs">
+          <div>
+            <label className="block text-gray-500 mb-1">適用開始月</label>
+            <input type="month" className="border p-1 rounded" value={newEstimate.effectiveMonth} onChange={e => setNewEstimate({...newEstimate, effectiveMonth: e.target.value})} />
+          </div>
+          <div>
+            <label className="block text-gray-500 mb-1">見積総{isHours ? '工数 (h)' : '原価 (円)'}</label>
+            <NumberInput className="border p-1 rounded w-32 text-right font-mono" value={newEstimate.estimatedTotal} onChange={val => setNewEstimate({...newEstimate, estimatedTotal: val})} />
+          </div>
+          <div className="flex-1">
+            <label className="block text-gray-500 mb-1">メモ (見直し理由など)</label>
+            <input className="border p-1 rounded w-full" value={newEstimate.note} onChange={e => setNewEstimate({...newEstimate, note: e.target.value})} />
+          </div>
+          <button type="button" onClick={handleAddEstimate} className="px-3 py-1.5 bg-purple-600 text-white rounded font-bold hover:bg-purple-700">
+            {estimates.length > 0 ? '再見積を追加' : '見積を登録'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const handleAddRate = () => {
+    if (!newRate.effectiveMonth) {
+      alert('適用開始月を入力してください。');
+      return;
+    }
+    if (form.stockStartDate && newRate.effectiveMonth <= form.stockStartDate.slice(0, 7)) {
+      alert('開始月の単価は「月額単価 (開始時)」で設定してください。改定は開始月より後の月を指定します。');
+      return;
+    }
+    // One rate per month: re-entering a month replaces that revision
+    const others = (form.stockRateSchedule || []).filter(r => r.effectiveMonth !== newRate.effectiveMonth);
+    setForm({ ...form, stockRateSchedule: [...others, { ...newRate }].sort((a, b) => a.effectiveMonth.localeCompare(b.effectiveMonth)) });
+    setNewRate({ ...newRate, monthlyAmount: 0 });
+  };
+
+  // Price revisions apply from their month on; months before keep the rate they were billed at
+  const renderStockRateSchedule = () => {
+    const schedule = form.stockRateSchedule || [];
+    return (
+      <div className="col-span-12 bg-white p-3 rounded border border-orange-200">
+        <div className="text-xs font-bold text-gray-600 mb-2">月額の改定履歴</div>
+        <table className="min-w-full text-xs mb-2">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="text-left py-1">適用開始月</th>
+              <th className="text-right py-1">月額</th>
+              <th className="w-8"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            <tr className="text-gray-500">
+              <td className="py-1 font-mono">{form.stockStartDate?.slice(0, 7)} (開始時)</td>
+              <td className="py-1 text-right font-mono">{formatFormMoney(form.stockAmount || 0)}</td>
+              <td></td>
+            </tr>
+            {schedule.map(rate => (
+              <tr key={rate.effectiveMonth}>
+                <td className="py-1 font-mono">{rate.effectiveMonth}</td>
+                <td className="py-1 text-right font-mono">{formatFormMoney(rate.monthlyAmount)}</td>
+                <td className="py-1 text-center">
+                  <button type="button" onClick={() => setForm({ ...form, stockRateSchedule: schedule.filter(r => r !== rate) })} className="text-red-400 hover:text-red-600" title="削除">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex items-end gap-2 text-xs">
+          <div>
+            <label className="block text-gray-500 mb-1">適用開始月</label>
+            <input type="month" className="border p-1 rounded" value={newRate.effectiveMonth} onChange={e => setNewRate({...newRate, effectiveMonth: e.target.value})} />
+          </div>
+          <div>
+            <label className="block text-gray-500 mb-1">改定後の月額 ({getCurrencySymbol(formCurrency)})</label>
+            <NumberInput className="border p-1 rounded w-32 text-right font-mono" value={newRate.monthlyAmount} onChange={val => setNewRate({...newRate, monthlyAmount: val})} />
+          </div>
+          <button type="button" onClick={handleAddRate} className="px-3 py-1.5 bg-orange-600 text-white rounded font-bold hover:bg-orange-700">
+            改定を追加
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Flow billing: 一括 (lump sum at the end), 着手金・完了金 (start/end split) or an installment schedule
+  const billingMode = form.billingConfig?.installments?.length ? 'installments' : form.billingConfig?.flowSplit ? 'split' : 'lump';
+
+  const handleBillingModeChange = (mode: 'lump' | 'split' | 'installments') => {
+    const config = form.billingConfig!;
+    if (mode !== 'installments') {
+      setForm({ ...form, billingConfig: { ...config, flowSplit: mode === 'split', installments: undefined } });
+      return;
+    }
+    // Start from the current start/end terms; the last installment always takes the remainder
+    const installments: BillingInstallment[] = [
+      { id: generateId(), name: '着手金', amountType: 'percent', value: config.flowSplit ? Math.round(config.flowStartRatio || 0) : 50, triggerDate: form.flowStartDate, delay: config.flowStartDelay ?? 1, payDay: config.flowStartPayDay || 99 },
+      { id: generateId(), name: '完了金', amountType: 'percent', value: 0, triggerDate: form.flowEndDate, delay: config.flowEndDelay ?? 1, payDay: config.flowEndPayDay || 99 },
+    ];
+    setForm({ ...form, billingConfig: { ...config, installments } });
+  };
+
+  const updateInstallment = (id: string, updates: Partial<BillingInstallment>) => {
+    const installments = (form.billingConfig?.installments || []).map(inst => inst.id === id ? { ...inst, ...updates } : inst);
+    setForm({ ...form, billingConfig: { ...form.billingConfig!, installments } });
+  };
+
+  const handleAddInstallment = () => {
+    const installments = form.billingConfig?.installments || [];
+    const last = installments[installments.length - 1];
+    const added: BillingInstallment = {
+      id: generateId(), name: `第${installments.length + 1}回`, amountType: 'percent', value: 0,
+      triggerDate: form.flowEndDate, delay: last?.delay ?? 1, payDay: last?.payDay || 99,
+    };
+    setForm({ ...form, billingConfig: { ...form.billingConfig!, installments: [...installments, added] } });
+  };
+
+  // A linked task bills on its due date, which is edited here along with the installment
+  const handleTaskDueDateChange = (taskId: string, dueDate: string) => {
+    setForm({ ...form, projectTasks: (form.projectTasks || []).map(t => t.id === taskId ? { ...t, dueDate } : t) });
+  };
+
+  const renderInstallmentSchedule = () => {
+    const installments = form.billingConfig?.installments || [];
+    const amounts = getInstallmentAmounts(form.flowAmount || 0, installments);
+    const tasks = form.projectTasks || [];
+    return (
+      <div className="bg-white border p-4 rounded space-y-2">
+        <div className="grid grid-cols-12 gap-2 text-[10px] text-gray-400 px-1">
+          <div className="col-span-2">名称 / 消費税区分</div>
+          <div className="col-span-2">金額 / 割合</div>
+          <div className="col-span-3">請求日 (日付またはタスク完了)</div>
+          <div className="col-span-3">入金サイト</div>
+          <div className="col-span-1 text-right">請求額</div>
+          <div className="col-span-1"></div>
+        </div>
+        {installments.map((inst, i) => {
+          const isLast = i === installments.length - 1;
+          const task = inst.taskId ? tasks.find(t => t.id === inst.taskId) : undefined;
+          return (
+            <div key={inst.id} className="grid grid-cols-12 gap-2 items-center p-2 bg-gray-50 rounded border border-gray-100">
+              <div className="col-span-2 space-y-1">
+                <input className="w-full border p-2 rounded text-sm" value={inst.name} onChange={e => updateInstallment(inst.id, { name: e.target.value })} />
+                <select
+                  className="w-full border p-1 rounded text-xs bg-white"
+                  value={inst.taxCode || ''}
+                  onChange={e => updateInstallment(inst.id, { taxCode: (e.target.value || undefined) as TaxCode | undefined })}
+                >
+                  <option value="">案件の区分</option>
+                  {(Object.keys(TAX_CODE_LABELS) as TaxCode[]).map(code => <option key={code} value={code}>{TAX_CODE_LABELS[code]}</option>)}
+                </select>
+              </div>
+              <div className="col-span-2 flex gap-1">
+                {isLast ? (
+                  <div className="w-full border p-2 rounded text-xs bg-gray-100 text-gray-500 text-center" title="最終回は契約総額の残額です">残額</div>
+                ) : (
+                  <>
+                    <NumberInput className="w-full border p-2 rounded text-right text-sm font-mono" value={inst.value} onChange={val => updateInstallment(inst.id, { value: val })} />
+                    <select className="border p-1 rounded text-xs bg-white" value={inst.amountType} onChange={e => updateInstallment(inst.id, { amountType: e.target.value as BillingInstallment['amountType'] })}>
+                      <option value="percent">%</option>
+                      <option value="amount">{getCurrencySymbol(formCurrency)}</option>
+                    </select>
+                  </>
+                )}
+              </div>
+              <div className="col-span-3 flex gap-1">
+                <select
+                  className="w-1/2 border p-2 rounded text-xs bg-white"
+                  value={inst.taskId || ''}
+                  onChange={e => updateInstallment(inst.id, { taskId: e.target.value || undefined })}
+                >
+                  <option value="">日付指定</option>
+                  {tasks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                {inst.taskId ? (
+                  <input type="date" className="w-1/2 border p-2 rounded text-xs" title="タスクの完了予定日" value={task?.dueDate || ''} onChange={e => handleTaskDueDateChange(inst.taskId!, e.target.value)} />
+                ) : (
+                  <input type="date" className="w-1/2 border p-2 rounded text-xs" value={inst.triggerDate || ''} onChange={e => updateInstallment(inst.id, { triggerDate: e.target.value })} />
+                )}
+              </div>
+              <div className="col-span-3">
+                <PaymentTermInput
+                  delayValue={inst.delay}
+                  payDayValue={inst.payDay}
+                  onDelayChange={v => updateInstallment(inst.id, { delay: v })}
+                  onPayDayChange={v => updateInstallment(inst.id, { payDay: v })}
+                />
+              </div>
+              <div className={`col-span-1 text-right text-xs font-mono ${amounts[i] < 0 ? 'text-red-600 font-bold' : 'text-gray-700'}`}>{formatFormMoney(amounts[i])}</div>
+              <div className="col-span-1 text-center">
+                <button type="button" onClick={() => setForm({ ...form, billingConfig: { ...form.billingConfig!, installments: installments.filter(x => x.id !== inst.id) } })} className="text-red-400 hover:text-red-600" title="削除">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        <div className="flex justify-between items-center pt-1">
+          <button type="button" onClick={handleAddInstallment} className="text-xs text-blue-600 hover:underline flex items-center">
+            <Plus className="w-3 h-3 mr-1" /> 分割を追加
+          </button>
+          <div className="text-xs text-gray-500">
+            合計 <span className="font-mono font-bold text-gray-800">{formatFormMoney(amounts.reduce((sum, v) => sum + v, 0))}</span>
+            <span className="ml-2 text-[10px]">日付未設定の回はフロー終了日に請求します</span>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
   
   const filteredProjects = projects.filter(p => {
-    // 1. View Mode Filter (Lost vs Active)
-    if (showLostList) {
+    // 1. View Mode Filter (Archived / Lost / Active). Archived projects only appear in their own list.
+    if (showArchivedList) {
+        if (!p.isArchived) return false;
+    } else if (p.isArchived) {
+        return false;
+    } else if (showLostList) {
         if (p.status !== ProjectStatus.Lost) return false;
     } else {
         // Standard View: Show PreOrder, Ordered (Delivery), Delivered
@@ -197,7 +476,7 @@ const ProjectMaster: React.FC = () => {
     
     // Term filter check (Overlap Logic)
     // Show if project duration overlaps with the fiscal term
-    const { start: termStart, end: termEnd } = getTermDateRange(currentTerm);
+    const { start: termStart, end: termEnd } = getTermDateRange(currentTerm, settings);
     
     // Determine Project Start and End for filtering
     let pStart: Date | null = null;
@@ -218,9 +497,11 @@ const ProjectMaster: React.FC = () => {
             const d = new Date(p.stockStartDate);
             if (!pStart || d < pStart) pStart = d;
         }
-        // Stock has no definite end usually, assume it extends to term end or future
-        // If stock is active, set pEnd to termEnd to ensure overlap returns true
-        if (pStart) {
+        // Open-ended or auto-renewing stock runs into the future; ended or cancelled contracts stop at their end date
+        const stockEnd = getStockEndDate(p);
+        if (stockEnd) {
+             if (!pEnd || stockEnd > pEnd) pEnd = stockEnd;
+        } else if (pStart) {
              pEnd = new Date(termEnd); 
              pEnd.setFullYear(pEnd.getFullYear() + 1); // Future
         }
@@ -272,56 +553,210 @@ const ProjectMaster: React.FC = () => {
        alert('少なくとも1つの契約形態(固定報酬, サブスク, タイムチャージ)を選択してください。');
        return;
     }
+    if (form.useStock && form.stockCancellation) {
+       if (!form.stockCancellation.reason.trim()) {
+          alert('解約理由を入力してください。');
+          return;
+       }
+       if (!form.stockCancellation.endDate || form.stockCancellation.endDate < form.stockCancellation.noticeDate) {
+          alert('解約による終了日は通知日以降の日付を入力してください。');
+          return;
+       }
+    }
+    if (form.useStock && form.stockEndDate && form.stockStartDate && form.stockEndDate < form.stockStartDate) {
+       alert('契約終了日は開始日以降の日付を入力してください。');
+       return;
+    }
+    if (form.useTimeCharge) {
+       const targets = (form.timeChargeRates || []).map(r => r.employeeId || '');
+       if (new Set(targets).size !== targets.length) {
+          alert('時間単価の対象が重複しています。');
+          return;
+       }
+    }
+    if (form.useFlow && form.billingConfig?.installments?.length) {
+       const amounts = getInstallmentAmounts(form.flowAmount || 0, form.billingConfig.installments);
+       if (amounts.some(a => a < 0)) {
+          alert('分割請求の合計が契約総額を超えています。各回の金額・割合を見直してください。');
+          return;
+       }
+    }
 
     const projectData = form as Project;
-    if (editingId) {
-      updateProject(projectData);
-    } else {
-      addProject(projectData);
-    }
+    const label = projectData.projectName || projectData.clientName;
+    // Everything saved from the modal is a single undo step
+    batch(editingId ? `案件『${label}』を更新しました` : `案件『${label}』を追加しました`, () => {
+      if (editingId) {
+        updateProject(projectData);
+      } else {
+        addProject(projectData);
+      }
+    });
     
     // Reset View State to show the saved project
     setShowModal(false);
     setShowLostList(false); // Switch to active list
+    setShowArchivedList(false);
     setSearchTerm(''); // Clear search
     setFilterType('all'); // Clear filters
   };
 
-  // Time Charge Monthly Grid generator
+  const handleAddTimeChargeRate = () => {
+    const rates = form.timeChargeRates || [];
+    // First row is the project default; later rows are per employee
+    const nextEmployee = rates.some(r => !r.employeeId)
+      ? employees.find(e => !e.isArchived && !rates.some(r => r.employeeId === e.id))?.id
+      : undefined;
+    if (rates.some(r => !r.employeeId) && !nextEmployee) return;
+    setForm({ ...form, timeChargeRates: [...rates, { employeeId: nextEmployee, hourlyRate: 0 }] });
+  };
+
+  const updateTimeChargeRate = (index: number, updates: Partial<TimeChargeRate>) => {
+    setForm({ ...form, timeChargeRates: (form.timeChargeRates || []).map((r, i) => i === index ? { ...r, ...updates } : r) });
+  };
+
+  // Time Charge: hourly rates, monthly cap/floor, and per-month amounts computed from hours (manual override per month)
   const renderTimeChargeInputs = () => {
-      const { start } = getTermDateRange(currentTerm);
-      const months = [];
-      for (let i = 0; i < 12; i++) {
-          const d = new Date(start.getFullYear(), start.getMonth() + i, 1);
-          months.push({ 
-            label: `${d.getFullYear()}/${d.getMonth()+1}`, 
-            key: `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}` 
-          });
-      }
+      const months = getTermMonths(currentTerm, settings).map(d => ({ 
+        date: d,
+        label: `${d.getFullYear()}/${d.getMonth()+1}`, 
+        key: `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,'0')}` 
+      }));
+      const rates = form.timeChargeRates || [];
+      const ctx = { employees, workLogs };
+      const billingOf = (d: Date) => getTimeChargeBilling(form as Project, d.getFullYear(), d.getMonth(), ctx);
+      const detailMonth = months.find(m => m.key === timeChargeDetailKey);
+      const detail = detailMonth ? billingOf(detailMonth.date) : null;
+      const employeeName = (id: string) => employees.find(e => e.id === id)?.name || '(削除済み)';
+
+      const setOverride = (key: string, value: number | undefined) => {
+          const newPrices = { ...(form.timeChargePrices || {}) };
+          if (value === undefined) delete newPrices[key];
+          else newPrices[key] = value;
+          setForm({ ...form, timeChargePrices: newPrices });
+      };
 
       return (
           <div className="bg-purple-50 p-4 rounded border border-purple-100 relative mt-4">
                <span className="absolute -top-2.5 left-4 bg-purple-600 text-white text-[10px] font-bold px-2 py-0.5 rounded">タイムチャージ (従量) 設定</span>
                <p className="text-xs text-purple-700 mb-2 mt-2">
-                   対象月の売上見込額を入力してください。
+                   稼働実績(時間) × 時間単価で毎月の請求額を計算します。実績のない当月以降はアサイン計画の予定時間で見込みます。手動にした月は入力額を優先します。
                </p>
+
+               <div className="grid grid-cols-2 gap-4 mb-4">
+                  <div className="bg-white p-3 rounded border border-purple-100">
+                     <div className="text-xs font-bold text-gray-600 mb-2">時間単価</div>
+                     <div className="space-y-1">
+                        {rates.map((rate, i) => (
+                           <div key={i} className="flex items-center gap-2 text-xs">
+                              <select
+                                className="flex-1 border p-1 rounded bg-white"
+                                value={rate.employeeId || ''}
+                                onChange={e => updateTimeChargeRate(i, { employeeId: e.target.value || undefined })}
+                              >
+                                 <option value="">全員 (デフォルト単価)</option>
+                                 {employees.filter(e => !e.isArchived || e.id === rate.employeeId).map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+                              </select>
+                              <NumberInput className="w-24 border p-1 rounded text-right font-mono" value={rate.hourlyRate} onChange={val => updateTimeChargeRate(i, { hourlyRate: val })} />
+                              <span className="text-gray-400">{getCurrencySymbol(formCurrency)}/h</span>
+                              <button type="button" onClick={() => setForm({ ...form, timeChargeRates: rates.filter((_, j) => j !== i) })} className="text-red-400 hover:text-red-600" title="削除">
+                                 <Trash2 className="w-3 h-3" />
+                              </button>
+                           </div>
+                        ))}
+                        {rates.length === 0 && <p className="text-[10px] text-gray-400">単価が未設定のため、各月の金額は手動入力のみです。</p>}
+                     </div>
+                     <button type="button" onClick={handleAddTimeChargeRate} className="mt-2 text-xs text-purple-700 hover:underline flex items-center">
+                        <Plus className="w-3 h-3 mr-1" /> 単価を追加
+                     </button>
+                  </div>
+                  <div className="bg-white p-3 rounded border border-purple-100 space-y-2">
+                     <div className="text-xs font-bold text-gray-600">月額の上限・下限</div>
+                     <div className="flex items-center gap-2 text-xs">
+                        <label className="w-20 text-gray-500">上限</label>
+                        <NumberInput className="flex-1 border p-1 rounded text-right font-mono" placeholder="なし" value={form.timeChargeCap || 0} onChange={val => setForm({ ...form, timeChargeCap: val || undefined })} />
+                        <span className="text-gray-400">{getCurrencySymbol(formCurrency)}</span>
+                     </div>
+                     <div className="flex items-center gap-2 text-xs">
+                        <label className="w-20 text-gray-500">下限 (最低)</label>
+                        <NumberInput className="flex-1 border p-1 rounded text-right font-mono" placeholder="なし" value={form.timeChargeFloor || 0} onChange={val => setForm({ ...form, timeChargeFloor: val || undefined })} />
+                        <span className="text-gray-400">{getCurrencySymbol(formCurrency)}</span>
+                     </div>
+                     <p className="text-[10px] text-gray-400">下限は稼働のある月にのみ適用します。</p>
+                  </div>
+               </div>
+
                <div className="grid grid-cols-3 gap-2">
-                  {months.map(m => (
-                      <div key={m.key} className="flex items-center gap-2 bg-white p-2 rounded border border-purple-100">
-                          <span className="text-xs font-bold text-gray-500 w-16">{m.label}</span>
-                          <NumberInput
-                            className="w-full text-right border-b border-gray-200 focus:border-purple-500 focus:outline-none text-sm font-mono"
-                            value={form.timeChargePrices?.[m.key] || 0}
-                            onChange={(val) => {
-                                const newPrices = { ...(form.timeChargePrices || {}) };
-                                if (val === 0) delete newPrices[m.key];
-                                else newPrices[m.key] = val;
-                                setForm({ ...form, timeChargePrices: newPrices });
-                            }}
-                          />
-                      </div>
-                  ))}
+                  {months.map(m => {
+                      const billing = billingOf(m.date);
+                      const isOverride = billing.source === 'override';
+                      return (
+                        <div key={m.key} className={`bg-white p-2 rounded border ${timeChargeDetailKey === m.key ? 'border-purple-500' : 'border-purple-100'}`}>
+                            <div className="flex items-center justify-between mb-1">
+                                <span className="text-xs font-bold text-gray-500">{m.label}</span>
+                                <span className={`text-[10px] px-1 rounded ${isOverride ? 'bg-gray-100 text-gray-600' : billing.source === 'forecast' ? 'bg-yellow-50 text-yellow-700' : 'bg-blue-50 text-blue-700'}`}>
+                                    {isOverride ? '手動' : billing.source === 'forecast' ? '予測' : '実績'}
+                                </span>
+                            </div>
+                            {isOverride ? (
+                                <NumberInput
+                                  className="w-full text-right border-b border-gray-200 focus:border-purple-500 focus:outline-none text-sm font-mono"
+                                  value={billing.amount}
+                                  onChange={val => setOverride(m.key, val)}
+                                />
+                            ) : (
+                                <div className="text-right text-sm font-mono text-gray-800 border-b border-transparent">{formatFormMoney(billing.amount)}</div>
+                            )}
+                            <div className="flex items-center justify-between mt-1 text-[10px]">
+                                <label className="flex items-center text-gray-500 cursor-pointer">
+                                    <input type="checkbox" className="mr-1" checked={isOverride} onChange={e => setOverride(m.key, e.target.checked ? billing.amount : undefined)} />
+                                    手動
+                                </label>
+                                <button type="button" onClick={() => setTimeChargeDetailKey(timeChargeDetailKey === m.key ? null : m.key)} className="text-purple-700 hover:underline">
+                                    明細
+                                </button>
+                            </div>
+                        </div>
+                      );
+                  })}
                </div>
+
+               {detailMonth && detail && (
+                  <div className="mt-3 bg-white p-3 rounded border border-purple-200">
+                     <div className="text-xs font-bold text-gray-600 mb-2">{detailMonth.label} の請求明細 ({detail.source === 'forecast' ? '予定時間による見込み' : '稼働実績'})</div>
+                     <table className="min-w-full text-xs">
+                        <thead className="text-gray-500 border-b">
+                           <tr>
+                              <th className="text-left py-1">担当者</th>
+                              <th className="text-right py-1">時間</th>
+                              <th className="text-right py-1">単価</th>
+                              <th className="text-right py-1">金額</th>
+                           </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                           {detail.lines.map(line => (
+                              <tr key={line.employeeId}>
+                                 <td className="py-1">{employeeName(line.employeeId)}</td>
+                                 <td className="py-1 text-right font-mono">{line.hours.toFixed(1)}h</td>
+                                 <td className="py-1 text-right font-mono">{formatFormMoney(line.hourlyRate)}</td>
+                                 <td className="py-1 text-right font-mono">{formatFormMoney(line.amount)}</td>
+                              </tr>
+                           ))}
+                           {detail.lines.length === 0 && <tr><td colSpan={4} className="py-2 text-center text-gray-400">稼働がありません</td></tr>}
+                        </tbody>
+                        <tfoot className="border-t">
+                           <tr><td colSpan={3} className="py-1 text-right text-gray-500">小計</td><td className="py-1 text-right font-mono">{formatFormMoney(detail.subtotal)}</td></tr>
+                           {detail.adjustment !== 0 && (
+                              <tr><td colSpan={3} className="py-1 text-right text-gray-500">{detail.adjustment > 0 ? '下限による調整' : '上限による調整'}</td><td className="py-1 text-right font-mono">{formatFormMoney(detail.adjustment)}</td></tr>
+                           )}
+                           {detail.source === 'override' && (
+                              <tr><td colSpan={3} className="py-1 text-right text-gray-500">手動入力 (計算額より優先)</td><td className="py-1 text-right font-mono">{formatFormMoney(detail.amount)}</td></tr>
+                           )}
+                           <tr className="font-bold"><td colSpan={3} className="py-1 text-right">請求額 (税抜)</td><td className="py-1 text-right font-mono">{formatFormMoney(detail.amount)}</td></tr>
+                        </tfoot>
+                     </table>
+                  </div>
+               )}
           </div>
       );
   };
@@ -368,26 +803,36 @@ const ProjectMaster: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-xl font-bold text-gray-700">
-            {showLostList ? `案件マスタ - 失注リスト (${currentTerm}年11月期)` : `案件マスタ (${currentTerm}年11月期)`}
+            {showArchivedList ? `案件マスタ - アーカイブ (${termLabel})` : showLostList ? `案件マスタ - 失注リスト (${termLabel})` : `案件マスタ (${termLabel})`}
         </h2>
         <div className="flex gap-2">
-          {showLostList ? (
-             <button onClick={() => setShowLostList(false)} className="flex items-center px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 text-sm font-bold shadow-sm">
+          {showLostList || showArchivedList ? (
+             <button onClick={() => { setShowLostList(false); setShowArchivedList(false); }} className="flex items-center px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 text-sm font-bold shadow-sm">
                <ArrowLeft className="w-4 h-4 mr-1"/> 案件一覧に戻る
              </button>
           ) : (
             <>
+               <button onClick={() => setShowRenewals(!showRenewals)} className={`flex items-center px-4 py-2 border rounded text-sm font-bold shadow-sm transition-colors ${showRenewals ? 'bg-orange-50 border-orange-300 text-orange-700' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'}`}>
+                 <RefreshCw className="w-4 h-4 mr-1"/> 更新・解約
+               </button>
+               <button onClick={() => setShowArchivedList(true)} className="flex items-center px-4 py-2 bg-white border border-gray-300 text-gray-600 rounded hover:bg-gray-50 text-sm font-bold shadow-sm transition-colors">
+                 <FolderArchive className="w-4 h-4 mr-1"/> アーカイブ
+               </button>
                <button onClick={() => setShowLostList(true)} className="flex items-center px-4 py-2 bg-white border border-red-200 text-red-600 rounded hover:bg-red-50 text-sm font-bold shadow-sm transition-colors">
                  <Archive className="w-4 h-4 mr-1"/> 失注案件リスト
                </button>
-               <button onClick={handleOpenCreate} className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-bold shadow-sm">
-                 <Plus className="w-4 h-4 mr-1"/> 新規案件登録
-               </button>
+               {canEdit && (
+                 <button onClick={handleOpenCreate} className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-bold shadow-sm">
+                   <Plus className="w-4 h-4 mr-1"/> 新規案件登録
+                 </button>
+               )}
             </>
           )}
         </div>
       </div>
 
+      {showRenewals && !showLostList && !showArchivedList && <StockRenewals onSelect={handleOpenEdit} />}
+
       {/* Filters */}
       <div className="flex gap-4 bg-white p-4 rounded shadow-sm border border-gray-100">
         <div className="relative flex-1">
@@ -420,7 +865,7 @@ const ProjectMaster: React.FC = () => {
               <th className="px-2 py-3 text-center text-xs font-bold text-gray-500 uppercase w-28">ステータス</th>
               <th className="px-4 py-3 text-right text-xs font-bold text-gray-500 uppercase w-32">金額</th>
               <th className="px-4 py-3 text-center text-xs font-bold text-gray-500 uppercase w-40">開始/期間</th>
-              <th className="px-2 py-3 text-right w-20">操作</th>
+              <th className="px-2 py-3 text-right w-28">操作</th>
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
@@ -459,8 +904,8 @@ const ProjectMaster: React.FC = () => {
                       </span>
                     </td>
                     <td className="px-4 py-3 text-right">
-                       {p.useFlow && <div className="text-sm font-mono text-gray-900 whitespace-nowrap">{formatCurrency(p.flowAmount)} <span className="text-[10px] text-gray-400">(固)</span></div>}
-                       {p.useStock && <div className="text-sm font-mono text-gray-700 whitespace-nowrap">{formatCurrency(p.stockAmount)} <span className="text-[10px] text-gray-400">/月</span></div>}
+                       {p.useFlow && <div className="text-sm font-mono text-gray-900 whitespace-nowrap">{formatMoney(p.flowAmount, getProjectCurrency(p))} <span className="text-[10px] text-gray-400">(固)</span></div>}
+                       {p.useStock && <div className="text-sm font-mono text-gray-700 whitespace-nowrap">{formatMoney(getStockRate(p, new Date().getFullYear(), new Date().getMonth()), getProjectCurrency(p))} <span className="text-[10px] text-gray-400">/月</span></div>}
                        {p.useTimeCharge && <div className="text-sm font-mono text-purple-700 whitespace-nowrap">Time <span className="text-[10px] text-gray-400">(従量)</span></div>}
                     </td>
                     <td className="px-4 py-3 text-center text-xs text-gray-500 whitespace-nowrap">
@@ -470,13 +915,27 @@ const ProjectMaster: React.FC = () => {
                             <div className="text-[10px] text-gray-400">({durationLabel}ヶ月)</div>
                           </>
                       ) : (
-                          <>{p.stockStartDate} ~</>
+                          <>
+                            {p.stockStartDate} ~ {getStockEndDate(p) ? (p.stockCancellation ? p.stockCancellation.endDate : p.stockEndDate) : ''}
+                            {p.stockCancellation && <div className="text-[10px] text-red-500">解約済み</div>}
+                          </>
                       )}
                     </td>
-                    <td className="px-2 py-3 text-right">
-                      <button onClick={() => handleOpenEdit(p)} className="text-blue-600 hover:text-blue-800 font-bold text-sm whitespace-nowrap">
-                        編集
+                    <td className="px-2 py-3 text-right whitespace-nowrap">
+                      {canEdit && (<>
+                      {p.isArchived ? (
+                        <button onClick={() => archiveProject(p.id, false)} className="inline-flex items-center text-gray-600 hover:text-gray-800 font-bold text-sm">
+                          <RotateCcw className="w-4 h-4 mr-1" /> 復元
+                        </button>
+                      ) : (
+                        <button onClick={() => handleOpenEdit(p)} className="text-blue-600 hover:text-blue-800 font-bold text-sm">
+                          編集
+                        </button>
+                      )}
+                      <button onClick={() => setDeletingId(p.id)} className="ml-3 text-red-400 hover:text-red-600 align-middle" title="削除">
+                        <Trash2 className="w-4 h-4" />
                       </button>
+                      </>)}
                     </td>
                   </tr>
                 );
@@ -484,7 +943,7 @@ const ProjectMaster: React.FC = () => {
             {filteredProjects.length === 0 && (
               <tr>
                 <td colSpan={8} className="px-6 py-12 text-center text-gray-400">
-                   {showLostList ? '失注案件はありません' : '該当する案件がありません'}
+                   {showArchivedList ? 'アーカイブされた案件はありません' : showLostList ? '失注案件はありません' : '該当する案件がありません'}
                 </td>
               </tr>
             )}
@@ -701,6 +1160,22 @@ const ProjectMaster: React.FC = () => {
                    </label>
                 </div>
 
+                <div className="flex items-center gap-3 mb-6 text-xs">
+                   <label className="font-bold text-gray-600">契約通貨</label>
+                   <select
+                     className="border p-1.5 rounded bg-white"
+                     value={formCurrency}
+                     onChange={e => setForm({ ...form, currency: e.target.value === 'JPY' ? undefined : e.target.value })}
+                   >
+                     {CONTRACT_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                   </select>
+                   {formCurrency !== 'JPY' && (
+                     getFxRate(settings.fxRates, formCurrency, '9999-12', 'average') === null
+                       ? <span className="text-red-600">{formCurrency} の為替レートが未登録です。登録するまで円換算の売上・入金は0円になります。</span>
+                       : <span className="text-gray-500">金額はすべて{formCurrency}建てで入力します。売上は月中平均レート、入金は入金月の月末レートで円換算します。</span>
+                   )}
+                </div>
+
                 <div className="space-y-6">
                   {/* Flow Settings */}
                   {form.useFlow && (
@@ -730,18 +1205,46 @@ const ProjectMaster: React.FC = () => {
                                   />
                                   請求基準 (着手・完了月のみ計上)
                                </label>
+                               <label className="flex items-center cursor-pointer">
+                                  <input 
+                                    type="radio" 
+                                    name="revenueMethod" 
+                                    className="mr-1"
+                                    checked={form.revenueMethod === RevenueRecognitionMethod.PercentageOfCompletion}
+                                    onChange={() => setForm({...form, revenueMethod: RevenueRecognitionMethod.PercentageOfCompletion})}
+                                  />
+                                  進行基準 (原価比例)
+                               </label>
                              </div>
                              <p className="text-[10px] text-blue-600 mt-1 pl-20">
                                 {form.revenueMethod === RevenueRecognitionMethod.Milestone 
-                                   ? "※ 作業期間中の月は売上0円となり、着手金・完了金の請求月のみに売上が立ちます。" 
-                                   : "※ 契約金額を作業期間で割り、毎月均等に売上を計上します(デフォルト)。"}
+                                   ? "※ 作業期間中の月は売上0円となり、着手金・完了金や分割スケジュールの請求月のみに売上が立ちます。" 
+                                   : form.revenueMethod === RevenueRecognitionMethod.PercentageOfCompletion
+                                   ? "※ 契約金額 × 累計実績 ÷ 見積総額 を累計売上とし、前月までの計上額との差額を当月に計上します。見積を見直すと、その月に差額が調整されます。デリバリー完了または終了日を過ぎた案件は、終了月までに契約金額の全額を計上します。"
+                                   : form.prorationMethod === ProrationMethod.CalendarDay
+                                     ? "※ 契約金額を作業期間の暦日数で按分します。月途中の開始・終了月はその日数分のみ計上します。"
+                                     : form.prorationMethod === ProrationMethod.BusinessDay
+                                       ? "※ 契約金額を作業期間の営業日数(土日・祝日・会社の休業日を除く)で按分します。"
+                                       : "※ 契約金額を作業期間で割り、毎月均等に売上を計上します(デフォルト)。"}
                              </p>
+                             {(form.revenueMethod === RevenueRecognitionMethod.Duration || !form.revenueMethod) && (
+                               <div className="flex items-center gap-2 text-xs mt-2 pl-20">
+                                 <label className="font-bold text-gray-600">按分方法:</label>
+                                 <select
+                                   className="border rounded p-1 bg-white"
+                                   value={form.prorationMethod || ProrationMethod.Month}
+                                   onChange={e => setForm({...form, prorationMethod: e.target.value as ProrationMethod})}
+                                 >
+                                   {Object.values(ProrationMethod).map(m => <option key={m} value={m}>{m}</option>)}
+                                 </select>
+                               </div>
+                             )}
                           </div>
                           
                           <div className="col-span-4">
                             <label className="block text-xs font-bold text-gray-600 mb-1">契約総額</label>
                             <div className="relative">
-                                <span className="absolute left-2 top-2 text-gray-400 text-xs">¥</span>
+                                <span className="absolute left-2 top-2 text-gray-400 text-xs">{getCurrencySymbol(formCurrency)}</span>
                                 <NumberInput
                                   className="w-full border p-2 pl-6 rounded text-right font-mono focus:ring-2 focus:ring-blue-500 outline-none"
                                   value={form.flowAmount || 0}
@@ -770,6 +1273,7 @@ const ProjectMaster: React.FC = () => {
                                 {calculateExactMonths(form.flowStartDate, form.flowEndDate).toFixed(1)}ヶ月
                              </span>
                           </div>
+                          {form.revenueMethod === RevenueRecognitionMethod.PercentageOfCompletion && renderEstimateEditor()}
                        </div>
                     </div>
                   )}
@@ -780,9 +1284,9 @@ const ProjectMaster: React.FC = () => {
                        <span className="absolute -top-2.5 left-4 bg-orange-600 text-white text-[10px] font-bold px-2 py-0.5 rounded">サブスク (ストック) 設定</span>
                        <div className="grid grid-cols-12 gap-4 mt-1">
                           <div className="col-span-4">
-                            <label className="block text-xs font-bold text-gray-600 mb-1">月額単価</label>
+                            <label className="block text-xs font-bold text-gray-600 mb-1">月額単価 (開始時)</label>
                             <div className="relative">
-                                <span className="absolute left-2 top-2 text-gray-400 text-xs">¥</span>
+                                <span className="absolute left-2 top-2 text-gray-400 text-xs">{getCurrencySymbol(formCurrency)}</span>
                                 <NumberInput
                                   className="w-full border p-2 pl-6 rounded text-right font-mono focus:ring-2 focus:ring-blue-500 outline-none"
                                   value={form.stockAmount || 0}
@@ -794,8 +1298,64 @@ const ProjectMaster: React.FC = () => {
                             <label className="block text-xs font-bold text-gray-600 mb-1">開始日</label>
                             <input type="date" className="w-full border p-2 rounded" value={form.stockStartDate} onChange={e => setForm({...form, stockStartDate: e.target.value})} />
                           </div>
-                          <div className="col-span-4 flex items-center pt-4 text-xs text-gray-500">
-                             ※ 終了日が決まっている場合は、終了時に手動で完了に変更してください。
+                          <div className="col-span-4">
+                            <label className="block text-xs font-bold text-gray-600 mb-1">契約期間の終了日</label>
+                            <input type="date" className="w-full border p-2 rounded" value={form.stockEndDate || ''} onChange={e => setForm({...form, stockEndDate: e.target.value || undefined})} />
+                          </div>
+                          <div className="col-span-4">
+                            <label className="block text-xs font-bold text-gray-600 mb-1">自動更新</label>
+                            <select className="w-full border p-2 rounded bg-white" value={form.stockRenewalMonths || 0} onChange={e => setForm({...form, stockRenewalMonths: Number(e.target.value) || undefined})} disabled={!form.stockEndDate}>
+                              <option value={0}>なし (期間満了で終了)</option>
+                              {[1, 3, 6, 12, 24].map(m => <option key={m} value={m}>{m}ヶ月ごとに自動更新</option>)}
+                            </select>
+                          </div>
+                          <div className="col-span-4">
+                            <label className="block text-xs font-bold text-gray-600 mb-1">解約予告期間</label>
+                            <select className="w-full border p-2 rounded bg-white" value={form.stockNoticeMonths || 0} onChange={e => setForm({...form, stockNoticeMonths: Number(e.target.value) || undefined})}>
+                              <option value={0}>なし</option>
+                              {[1, 2, 3, 6].map(m => <option key={m} value={m}>{m}ヶ月前まで</option>)}
+                            </select>
+                          </div>
+                          <div className="col-span-12 text-xs text-gray-500">
+                             {!form.stockEndDate
+                               ? '※ 終了日が未設定の場合は、解約を記録するまで毎月計上されます。'
+                               : form.stockRenewalMonths
+                                 ? '※ 解約を記録しない限り、期間満了ごとに自動更新されます。'
+                                 : '※ 契約期間の終了日の月まで計上されます。'}
+                          </div>
+                          {renderStockRateSchedule()}
+                          <div className="col-span-12 border-t border-orange-200 pt-3">
+                            {form.stockCancellation ? (
+                              <div className="grid grid-cols-12 gap-4 bg-white p-3 rounded border border-red-200">
+                                <div className="col-span-3">
+                                  <label className="block text-xs font-bold text-red-700 mb-1">解約通知日</label>
+                                  <input type="date" className="w-full border p-2 rounded text-sm" value={form.stockCancellation.noticeDate} onChange={e => setForm({...form, stockCancellation: { ...form.stockCancellation!, noticeDate: e.target.value }})} />
+                                </div>
+                                <div className="col-span-3">
+                                  <label className="block text-xs font-bold text-red-700 mb-1">サービス終了日</label>
+                                  <input type="date" className="w-full border p-2 rounded text-sm" value={form.stockCancellation.endDate} onChange={e => setForm({...form, stockCancellation: { ...form.stockCancellation!, endDate: e.target.value }})} />
+                                </div>
+                                <div className="col-span-5">
+                                  <label className="block text-xs font-bold text-red-700 mb-1">解約理由</label>
+                                  <input className="w-full border p-2 rounded text-sm" placeholder="予算削減、内製化、競合への乗り換えなど" value={form.stockCancellation.reason} onChange={e => setForm({...form, stockCancellation: { ...form.stockCancellation!, reason: e.target.value }})} />
+                                </div>
+                                <div className="col-span-1 flex items-end pb-2">
+                                  <button type="button" onClick={() => setForm({...form, stockCancellation: undefined})} className="text-xs text-gray-500 hover:text-gray-700" title="解約の記録を取り消す">取消</button>
+                                </div>
+                              </div>
+                            ) : (
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  const today = new Date();
+                                  const end = getEarliestCancellationEnd(form as Project, today);
+                                  setForm({...form, stockCancellation: { noticeDate: toDateKey(today), endDate: toDateKey(end), reason: '' }});
+                                }}
+                                className="text-xs font-bold text-red-600 hover:text-red-800"
+                              >
+                                解約を記録する (終了日は予告期間・契約期間から自動計算)
+                              </button>
+                            )}
                           </div>
                        </div>
                      </div>
@@ -812,6 +1372,31 @@ const ProjectMaster: React.FC = () => {
                   <span className="bg-blue-100 text-blue-800 w-6 h-6 rounded-full flex items-center justify-center mr-2 text-xs">3</span>
                   請求・キャッシュフロー設定
                 </h4>
+
+                {(form.useFlow || form.useStock || form.useTimeCharge) && (
+                   <div className="grid grid-cols-2 gap-4 mb-4">
+                      <div className="flex items-center justify-between bg-gray-50 p-2 rounded border border-gray-200">
+                         <span className="text-xs font-bold text-gray-600">消費税区分</span>
+                         <select
+                           className="border rounded p-1 text-xs bg-white"
+                           value={form.taxCode || 'standard'}
+                           onChange={e => setForm({...form, taxCode: e.target.value as TaxCode})}
+                         >
+                           {(Object.keys(TAX_CODE_LABELS) as TaxCode[]).map(code => <option key={code} value={code}>{TAX_CODE_LABELS[code]}</option>)}
+                         </select>
+                      </div>
+                      <div className="flex items-center justify-between bg-gray-50 p-2 rounded border border-gray-200">
+                         <span className="text-xs font-bold text-gray-600">入金日が土日祝・休業日の場合</span>
+                         <select
+                           className="border rounded p-1 text-xs bg-white"
+                           value={form.billingConfig?.paymentShift || 'none'}
+                           onChange={e => setForm({...form, billingConfig: {...form.billingConfig!, paymentShift: e.target.value as BusinessDayShift}})}
+                         >
+                           {(Object.keys(BUSINESS_DAY_SHIFT_LABELS) as BusinessDayShift[]).map(shift => <option key={shift} value={shift}>{BUSINESS_DAY_SHIFT_LABELS[shift]}</option>)}
+                         </select>
+                      </div>
+                   </div>
+                )}
                 
                 {/* Flow Billing */}
                 {form.useFlow && (
@@ -822,29 +1407,31 @@ const ProjectMaster: React.FC = () => {
                       </h5>
                       
                       <div className="flex items-center justify-between mb-3 bg-gray-50 p-2 rounded border border-gray-200">
-                         <span className="text-xs font-bold text-gray-600">分割請求 (着手金・完了金など)</span>
-                         <label className="inline-flex items-center cursor-pointer">
-                           <input type="checkbox" className="sr-only peer" 
-                              checked={form.billingConfig?.flowSplit}
-                              onChange={e => setForm({
-                                ...form,
-                                billingConfig: { ...form.billingConfig!, flowSplit: e.target.checked }
-                              })}
-                           />
-                           <div className="relative w-9 h-5 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
-                         </label>
+                         <span className="text-xs font-bold text-gray-600">請求方法</span>
+                         <div className="flex gap-1">
+                           {([['lump', '一括 (完了時)'], ['split', '着手金・完了金'], ['installments', '分割スケジュール']] as const).map(([mode, label]) => (
+                             <button
+                               key={mode}
+                               type="button"
+                               onClick={() => handleBillingModeChange(mode)}
+                               className={`px-3 py-1 rounded text-xs border ${billingMode === mode ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+                             >
+                               {label}
+                             </button>
+                           ))}
+                         </div>
                       </div>
 
-                      {form.billingConfig?.flowSplit ? (
+                      {billingMode === 'installments' ? renderInstallmentSchedule() : billingMode === 'split' ? (
                          <div className="grid grid-cols-2 gap-6 bg-white border p-4 rounded">
                             {/* Start Payment */}
                             <div className="p-3 bg-gray-50 rounded border border-gray-100">
                                <div className="text-xs font-bold text-gray-500 mb-2 border-b pb-1">開始時 (着手金)</div>
                                <div className="space-y-3">
                                   <div>
-                                     <label className="text-[10px] text-gray-400 block mb-1">金額 (円)</label>
+                                     <label className="text-[10px] text-gray-400 block mb-1">金額 ({getCurrencySymbol(formCurrency)})</label>
                                      <div className="relative">
-                                        <span className="absolute left-2 top-2 text-gray-400 text-xs">¥</span>
+                                        <span className="absolute left-2 top-2 text-gray-400 text-xs">{getCurrencySymbol(formCurrency)}</span>
                                         <NumberInput 
                                             className="w-full border p-2 pl-6 rounded text-right text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none" 
                                             value={Math.round((form.flowAmount || 0) * ((form.billingConfig.flowStartRatio || 0) / 100))}
@@ -880,9 +1467,9 @@ const ProjectMaster: React.FC = () => {
                                <div className="text-xs font-bold text-gray-500 mb-2 border-b pb-1">完了時 (残金)</div>
                                <div className="space-y-3">
                                   <div>
-                                     <label className="text-[10px] text-gray-400 block mb-1">金額 (円)</label>
+                                     <label className="text-[10px] text-gray-400 block mb-1">金額 ({getCurrencySymbol(formCurrency)})</label>
                                      <div className="relative">
-                                         <span className="absolute left-2 top-2 text-gray-400 text-xs">¥</span>
+                                         <span className="absolute left-2 top-2 text-gray-400 text-xs">{getCurrencySymbol(formCurrency)}</span>
                                          <input 
                                             type="text"
                                             className="w-full border p-2 pl-6 rounded text-right text-sm font-mono bg-gray-100 text-gray-500" 
@@ -951,6 +1538,8 @@ const ProjectMaster: React.FC = () => {
                    <div className="grid grid-cols-2 gap-3 max-h-40 overflow-y-auto">
                       {employees.map(emp => {
                         const assign = form.assignments?.find(a => a.employeeId === emp.id);
+                        // Archived employees can no longer be assigned, but existing assignments stay visible
+                        if (emp.isArchived && !assign) return null;
                         return (
                           <div key={emp.id} className="flex justify-between items-center p-2 bg-white rounded border shadow-sm">
                             <span className="text-sm">{emp.name}</span>
@@ -986,6 +1575,9 @@ const ProjectMaster: React.FC = () => {
         </div>
       )}
 
+      {deletingId && (
+        <DeleteEntityDialog entityType="project" entityId={deletingId} onClose={() => setDeletingId(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ProjectionRange, ROLLING_HORIZONS, toMonthKey } from '../utils';
+
+interface ProjectionRangeSelectorProps {
+  value: ProjectionRange;
+  onChange: (range: ProjectionRange) => void;
+}
+
+// Switches a projection between the selected term and a rolling horizon that spans term boundaries
+const ProjectionRangeSelector: React.FC<ProjectionRangeSelectorProps> = ({ value, onChange }) => {
+  const startMonth = value.mode === 'rolling' ? value.startMonth : toMonthKey(new Date());
+  const months = value.mode === 'rolling' ? value.months : 12;
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <select
+        className="border rounded p-1 text-sm bg-gray-50"
+        value={value.mode === 'rolling' ? String(months) : 'term'}
+        onChange={e => onChange(e.target.value === 'term'
+          ? { mode: 'term' }
+          : { mode: 'rolling', startMonth, months: Number(e.target.value) })}
+      >
+        <option value="term">選択中の決算期</option>
+        {ROLLING_HORIZONS.map(m => <option key={m} value={m}>ローリング {m}ヶ月</option>)}
+      </select>
+      {value.mode === 'rolling' && (
+        <>
+          <input
+            type="month"
+            className="border rounded p-1 text-sm bg-gray-50"
+            value={startMonth}
+            onChange={e => { if (e.target.value) onChange({ ...value, startMonth: e.target.value }); }}
+          />
+          <span className="text-xs text-gray-500">から</span>
+          <button
+            onClick={() => onChange({ ...value, startMonth: toMonthKey(new Date()) })}
+            className="text-xs text-blue-600 hover:underline"
+          >
+            今月
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProjectionRangeSelector;
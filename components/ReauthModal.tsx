@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { ShieldCheck, X } from 'lucide-react';
+
+// Password prompt for sensitive screens. On success the session counts as freshly authenticated for a few minutes.
+const ReauthModal: React.FC<{ reason: string, onClose: () => void, onSuccess?: () => void }> = ({ reason, onClose, onSuccess }) => {
+  const { user, reauthenticate, oidcEnabled, signInWithOidc } = useAuth();
+  const useSso = oidcEnabled && !!user?.oidcSubject;
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const message = await reauthenticate(password);
+      if (message) {
+        setError(message);
+        return;
+      }
+      onSuccess?.();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // The provider is asked to prompt for the password again; the app reloads signed in afresh
+  const handleOidc = async () => {
+    try {
+      await signInWithOidc({ forceLogin: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg w-[400px] shadow-2xl">
+        <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <ShieldCheck className="w-5 h-5 mr-2 text-gray-500" /> 再認証
+          </h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        {useSso ? (
+          <p className="text-sm text-gray-600 mb-4">{reason}には社内アカウントでの再認証が必要です。認証サーバーに移動するため、保存されていない入力内容は失われます。</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-4">{reason}にはパスワードの再入力が必要です。</p>
+            <label className="block text-xs font-bold text-gray-600 mb-1">パスワード</label>
+            <input
+              type="password"
+              required
+              autoFocus
+              autoComplete="current-password"
+              className="w-full border p-2 rounded text-sm"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+            />
+          </>
+        )}
+        {error && <p className="text-red-500 text-sm font-medium mt-2">{error}</p>}
+        <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+          {useSso ? (
+            <button type="button" onClick={handleOidc} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700">SSOで再認証</button>
+          ) : (
+            <button type="submit" disabled={isSubmitting} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700 disabled:opacity-50">確認</button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ReauthModal;
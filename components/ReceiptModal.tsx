@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { useData } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import { Receivable, formatMoney, getProjectCurrency, toDateKey } from '../utils';
+import { Trash2, Wallet, X } from 'lucide-react';
+
+// Receipts recorded against one billing event. Partial payments stay open; a receipt above the balance is an overpayment.
+const ReceiptModal: React.FC<{ receivable: Receivable, onClose: () => void }> = ({ receivable, onClose }) => {
+  const { projects, recordReceipt, deleteReceipt } = useData();
+  const { can } = useAuth();
+  const project = projects.find(p => p.id === receivable.project.id) || receivable.project;
+  const currency = getProjectCurrency(project);
+  // Read from the current project so the list follows deletions while the modal is open
+  const receipts = (project.receipts || []).filter(r => r.sourceKey === receivable.sourceKey);
+  const received = receipts.reduce((sum, r) => sum + r.amount, 0);
+  const outstanding = receivable.billed - received;
+
+  const [date, setDate] = useState(toDateKey(new Date()));
+  const [amount, setAmount] = useState(Math.max(0, outstanding));
+  const [memo, setMemo] = useState('');
+
+  const handleRecord = () => {
+    if (!date || amount <= 0) {
+      alert('入金日と入金額を入力してください。');
+      return;
+    }
+    recordReceipt(project.id, { sourceKey: receivable.sourceKey, date, amount, memo: memo || undefined });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg w-[520px] shadow-2xl">
+        <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <Wallet className="w-5 h-5 mr-2 text-gray-500" /> 入金消込
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="text-sm mb-4">
+          <div className="font-bold text-gray-800">{project.clientName}</div>
+          <div className="text-gray-500 text-xs">{project.projectName} / {receivable.name} (入金期日 {toDateKey(receivable.paymentDate)})</div>
+          <div className="grid grid-cols-3 gap-2 mt-3 text-xs">
+            <div className="p-2 bg-gray-50 rounded border">
+              <div className="text-gray-500">請求額 (税込)</div>
+              <div className="font-mono font-bold">{formatMoney(receivable.billed, currency)}</div>
+            </div>
+            <div className="p-2 bg-gray-50 rounded border">
+              <div className="text-gray-500">入金済</div>
+              <div className="font-mono font-bold">{formatMoney(received, currency)}</div>
+            </div>
+            <div className={`p-2 rounded border ${outstanding < 0 ? 'bg-orange-50 border-orange-200' : 'bg-gray-50'}`}>
+              <div className="text-gray-500">{outstanding < 0 ? '過入金' : '残高'}</div>
+              <div className="font-mono font-bold">{formatMoney(Math.abs(outstanding), currency)}</div>
+            </div>
+          </div>
+        </div>
+
+        <table className="min-w-full text-xs border mb-4">
+          <thead className="bg-gray-50 text-gray-500">
+            <tr>
+              <th className="text-left px-2 py-1.5">入金日</th>
+              <th className="text-right px-2 py-1.5">金額</th>
+              <th className="text-left px-2 py-1.5">メモ</th>
+              <th className="w-8"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {receipts.map(r => (
+              <tr key={r.id}>
+                <td className="px-2 py-1.5 font-mono">{r.date}</td>
+                <td className="px-2 py-1.5 text-right font-mono">{formatMoney(r.amount, currency)}</td>
+                <td className="px-2 py-1.5 text-gray-600">{r.memo}</td>
+                <td className="px-2 py-1.5 text-center">
+                  {can('invoice:edit') && (
+                    <button onClick={() => deleteReceipt(project.id, r.id)} className="text-red-400 hover:text-red-600" title="削除">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {receipts.length === 0 && (
+              <tr><td colSpan={4} className="px-2 py-3 text-center text-gray-400">入金の記録はありません</td></tr>
+            )}
+          </tbody>
+        </table>
+
+        {can('invoice:edit') && (
+          <div className="flex items-end gap-2 text-xs bg-gray-50 p-3 rounded border">
+            <div>
+              <label className="block text-gray-500 mb-1">入金日</label>
+              <input type="date" className="border p-1 rounded" value={date} onChange={e => setDate(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-gray-500 mb-1">入金額 ({currency})</label>
+              <input type="number" min="0" className="border p-1 rounded w-28 text-right font-mono" value={amount || ''} onChange={e => setAmount(Number(e.target.value))} />
+            </div>
+            <div className="flex-1">
+              <label className="block text-gray-500 mb-1">メモ</label>
+              <input type="text" className="border p-1 rounded w-full" placeholder="振込手数料差引 など" value={memo} onChange={e => setMemo(e.target.value)} />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">閉じる</button>
+          {can('invoice:edit') && (
+            <button onClick={handleRecord} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700">入金を記録</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptModal;
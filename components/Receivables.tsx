@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import { AGING_BUCKETS, getAgingBucketIndex, getAgingByClient, getDaysOverdue } from '../services/receivables';
+import { Receivable, formatCurrency, formatMoney, getProjectCurrency, getReceivables, toDateKey, toMonthKey } from '../utils';
+import ReceiptModal from './ReceiptModal';
+import { AlertTriangle, Wallet } from 'lucide-react';
+
+const BUCKET_COLORS = ['text-gray-700', 'text-yellow-700', 'text-orange-600', 'text-red-600', 'text-red-700 font-bold'];
+
+// Accounts receivable ledger: every billing event since `receivablesFrom`, matched against recorded receipts
+const Receivables: React.FC = () => {
+  const { projects, employees, workLogs, settings, updateSettings } = useData();
+  const { can } = useAuth();
+  const [showSettled, setShowSettled] = useState(false);
+  const [clientFilter, setClientFilter] = useState('');
+  const [selected, setSelected] = useState<Receivable | null>(null);
+  const today = useMemo(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }, []);
+
+  const receivables = useMemo(
+    () => getReceivables(projects, settings, today, { employees, workLogs, fxRates: settings.fxRates, closedDays: settings.closedDays, taxRates: settings.taxRates })
+      .sort((a, b) => a.paymentDate.getTime() - b.paymentDate.getTime()),
+    [projects, settings, today, employees, workLogs]
+  );
+  const aging = useMemo(() => getAgingByClient(receivables, today, settings.fxRates), [receivables, today, settings.fxRates]);
+  const clients = Array.from(new Set(receivables.map(r => r.project.clientName))).sort();
+
+  const listed = receivables.filter(r =>
+    (showSettled || r.outstanding !== 0) && (!clientFilter || r.project.clientName === clientFilter)
+  );
+  const totals = AGING_BUCKETS.map((_, i) => aging.reduce((sum, row) => sum + row.buckets[i], 0));
+  const overdueTotal = totals.slice(1).reduce((sum, v) => sum + v, 0);
+
+  const handleStartChange = (month: string) => {
+    updateSettings({ ...settings, receivablesFrom: month || undefined }, '入金消込の開始月を更新しました');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-bold text-gray-700 flex items-center">
+            <Wallet className="w-5 h-5 mr-2 text-gray-500" /> 売掛金・入金消込
+          </h2>
+          <p className="text-sm text-gray-500">
+            請求ごとの売掛金に実際の入金を消し込みます。キャッシュフローは消し込んだ入金を入金日に計上し、期日を過ぎた未入金残高は当日以降の入金予定として繰り越します。
+          </p>
+        </div>
+        <div className="text-xs text-gray-600 text-right shrink-0 ml-4">
+          <label className="block mb-1 font-bold">消込開始月 (請求月)</label>
+          <input
+            type="month"
+            className="border rounded p-1 disabled:bg-gray-100"
+            value={settings.receivablesFrom || ''}
+            disabled={!can('settings:edit')}
+            onChange={e => handleStartChange(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {!settings.receivablesFrom ? (
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded text-sm text-blue-800">
+          消込開始月を設定すると、その月以降の請求が売掛金として管理されます。開始月より前の請求は、従来どおり入金予定日に入金される前提で計算されます。
+        </div>
+      ) : (
+        <>
+          {/* Aging by client */}
+          <div className="bg-white rounded shadow-sm border border-gray-200 p-4 overflow-x-auto">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-sm font-bold text-gray-700">顧客別 年齢表 (円換算)</h3>
+              {overdueTotal > 0 && (
+                <div className="text-xs text-red-600 flex items-center font-bold">
+                  <AlertTriangle className="w-3 h-3 mr-1" /> 期日超過 {formatCurrency(overdueTotal)}
+                </div>
+              )}
+            </div>
+            <table className="min-w-full text-xs">
+              <thead className="text-gray-500 border-b">
+                <tr>
+                  <th className="text-left py-1">顧客</th>
+                  {AGING_BUCKETS.map(b => <th key={b.label} className="text-right py-1">{b.label}</th>)}
+                  <th className="text-right py-1">未入金合計</th>
+                  <th className="text-right py-1">過入金</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {aging.map(row => (
+                  <tr key={row.clientName} className="hover:bg-gray-50 cursor-pointer" onClick={() => setClientFilter(row.clientName)}>
+                    <td className="py-1.5 font-bold text-gray-800">{row.clientName}</td>
+                    {row.buckets.map((v, i) => (
+                      <td key={i} className={`py-1.5 text-right font-mono ${v > 0 ? BUCKET_COLORS[i] : 'text-gray-300'}`}>{v > 0 ? formatCurrency(v) : '-'}</td>
+                    ))}
+                    <td className="py-1.5 text-right font-mono font-bold">{formatCurrency(row.total)}</td>
+                    <td className="py-1.5 text-right font-mono text-orange-600">{row.overpaid > 0 ? formatCurrency(row.overpaid) : '-'}</td>
+                  </tr>
+                ))}
+                {aging.length === 0 ? (
+                  <tr><td colSpan={AGING_BUCKETS.length + 3} className="py-4 text-center text-gray-400">未入金の売掛金はありません</td></tr>
+                ) : (
+                  <tr className="bg-gray-50 font-bold">
+                    <td className="py-1.5">合計</td>
+                    {totals.map((v, i) => <td key={i} className="py-1.5 text-right font-mono">{formatCurrency(v)}</td>)}
+                    <td className="py-1.5 text-right font-mono">{formatCurrency(totals.reduce((sum, v) => sum + v, 0))}</td>
+                    <td className="py-1.5 text-right font-mono">{formatCurrency(aging.reduce((sum, row) => sum + row.overpaid, 0))}</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Receivables */}
+          <div className="bg-white rounded shadow overflow-hidden border border-gray-200">
+            <div className="flex justify-end items-center gap-3 p-3 border-b bg-gray-50 text-xs">
+              <select className="border rounded p-1 bg-white" value={clientFilter} onChange={e => setClientFilter(e.target.value)}>
+                <option value="">すべての顧客</option>
+                {clients.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <label className="flex items-center text-gray-600 cursor-pointer">
+                <input type="checkbox" className="mr-1" checked={showSettled} onChange={e => setShowSettled(e.target.checked)} />
+                消込済みも表示
+              </label>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">顧客 / 案件</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">請求</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500">請求月</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500">入金期日</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">請求額 (税込)</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">入金済</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">残高</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500">経過</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {listed.map(r => {
+                  const currency = getProjectCurrency(r.project);
+                  const days = getDaysOverdue(r, today);
+                  return (
+                    <tr key={`${r.project.id}:${r.sourceKey}`} className="hover:bg-gray-50 cursor-pointer" onClick={() => setSelected(r)}>
+                      <td className="px-4 py-2">
+                        <div className="font-bold text-gray-700">{r.project.clientName}</div>
+                        <div className="text-xs text-gray-500">{r.project.projectName}</div>
+                      </td>
+                      <td className="px-4 py-2 text-xs text-gray-600">{r.name}</td>
+                      <td className="px-4 py-2 text-center font-mono text-xs">{toMonthKey(r.billingDate)}</td>
+                      <td className="px-4 py-2 text-center font-mono text-xs">{toDateKey(r.paymentDate)}</td>
+                      <td className="px-4 py-2 text-right font-mono">{formatMoney(r.billed, currency)}</td>
+                      <td className="px-4 py-2 text-right font-mono text-gray-600">{formatMoney(r.received, currency)}</td>
+                      <td className="px-4 py-2 text-right font-mono font-bold">
+                        {r.outstanding < 0
+                          ? <span className="text-orange-600">過入金 {formatMoney(-r.outstanding, currency)}</span>
+                          : formatMoney(r.outstanding, currency)}
+                      </td>
+                      <td className="px-4 py-2 text-center text-xs">
+                        {r.outstanding > 0 && days > 0
+                          ? <span className={BUCKET_COLORS[getAgingBucketIndex(days)]}>{days}日超過</span>
+                          : r.outstanding === 0 ? <span className="text-green-600">消込済</span> : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {listed.length === 0 && (
+                  <tr><td colSpan={8} className="px-4 py-6 text-center text-gray-400 text-sm">該当する売掛金はありません</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {selected && <ReceiptModal receivable={selected} onClose={() => setSelected(null)} />}
+    </div>
+  );
+};
+
+export default Receivables;
@@ -1,13 +1,36 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { useData } from '../context/AppContext';
-import { getTermMonthsWithWeeks, generateId } from '../utils';
-import { User, ChevronRight, CheckCircle2, CircleDashed, ListTodo, Plus, X } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { getTermMonthsWithWeeks, getTermLabel, generateId, parseLocalDate, getStockEndDate } from '../utils';
+import { findLinkedEmployee } from '../services/auth';
+import { User, ChevronRight, CheckCircle2, CircleDashed, ListTodo, Plus, X, AlertTriangle, UserCheck, Users } from 'lucide-react';
 import { Project, ProjectStatus } from '../types';
 
+// Whether the project has billable work in the week (flow period, running stock, or a time-charge month)
+const isProjectActiveInWeek = (p: Project, weekStart: Date, weekEnd: Date) => {
+  if (p.useFlow && p.flowStartDate && p.flowEndDate &&
+      parseLocalDate(p.flowStartDate) <= weekEnd && parseLocalDate(p.flowEndDate) >= weekStart) return true;
+  if (p.useStock && p.stockStartDate && parseLocalDate(p.stockStartDate) <= weekEnd) {
+    const stockEnd = getStockEndDate(p);
+    if (!stockEnd || stockEnd >= weekStart) return true;
+  }
+  // Rate-based time charge bills whatever hours are worked; otherwise only months with a manual amount
+  const monthKey = `${weekStart.getFullYear()}-${String(weekStart.getMonth() + 1).padStart(2, '0')}`;
+  return !!p.useTimeCharge && ((p.timeChargeRates || []).length > 0 || (p.timeChargePrices?.[monthKey] || 0) > 0);
+};
+
 const ResourcePlanning: React.FC = () => {
-  const { employees, projects, workLogs, currentTerm, updateWorkLog, updateProject } = useData();
+  const { employees, projects, workLogs, currentTerm, settings, updateWorkLog, updateProject } = useData();
+  const { user, can } = useAuth();
   const [selectedEmpId, setSelectedEmpId] = useState<string | null>(null);
+  // Self-service: only the signed-in user's own grid (employees and contractors alike).
+  // Members always use it; managers can switch to it to enter their own hours.
+  const linkedEmployee = findLinkedEmployee(user, employees);
+  const selfServiceOnly = !can('worklog:editAll');
+  const [selfServiceToggle, setSelfServiceToggle] = useState(false);
+  const isSelfService = selfServiceOnly || selfServiceToggle;
+  const viewEmpId = isSelfService ? (linkedEmployee?.id ?? null) : selectedEmpId;
   const [activeTab, setActiveTab] = useState<'active' | 'completed'>('active');
 
   // Scroll Container Ref for auto-scrolling
@@ -19,9 +42,15 @@ const ResourcePlanning: React.FC = () => {
   const [newTaskName, setNewTaskName] = useState('');
 
   // Grouped weeks structure
-  const termMonths = useMemo(() => getTermMonthsWithWeeks(currentTerm), [currentTerm]);
+  const termMonths = useMemo(() => getTermMonthsWithWeeks(currentTerm, settings), [currentTerm, settings.fiscalYearEndMonth, settings.firstTermStartDate]);
   
-  const selectedEmployee = employees.find(e => e.id === selectedEmpId);
+  const selectedEmployee = employees.find(e => e.id === viewEmpId);
+  // Members can only enter actuals for the employee linked to their account
+  const canEditLogs = can('worklog:editAll') || (can('worklog:editOwn') && !!viewEmpId && linkedEmployee?.id === viewEmpId);
+  const activeEmployees = employees.filter(e => !e.isArchived);
+
+  // Logs of deleted projects are not counted (see DataManagement for orphan cleanup)
+  const projectIds = useMemo(() => new Set(projects.map(p => p.id)), [projects]);
 
   // Auto-scroll to current month on mount or term change OR when employee is selected
   useEffect(() => {
@@ -38,7 +67,7 @@ const ResourcePlanning: React.FC = () => {
         scrollContainerRef.current.scrollLeft = targetEl.offsetLeft - stickyOffset;
       }
     }
-  }, [termMonths, selectedEmpId]);
+  }, [termMonths, viewEmpId]);
 
   // Helper to check if project is completed (EndDate < Today)
   const isProjectCompleted = (p: Project) => {
@@ -50,8 +79,11 @@ const ResourcePlanning: React.FC = () => {
         if (!endDate || flowEnd > endDate) endDate = flowEnd;
     }
     
+    // Stock without an end (open-ended or auto-renewing) keeps the project running
     if (p.useStock) {
-        return false;
+        const stockEnd = getStockEndDate(p);
+        if (!stockEnd) return false;
+        if (!endDate || stockEnd > endDate) endDate = stockEnd;
     }
 
     if (endDate) {
@@ -62,16 +94,18 @@ const ResourcePlanning: React.FC = () => {
 
   // Filter projects relevant to the selected employee AND the active/completed state
   const empProjects = useMemo(() => {
-    if (!selectedEmpId) return [];
+    if (!viewEmpId) return [];
     
     const relevantProjects = projects.filter(p => 
-      p.assignments.some(a => a.employeeId === selectedEmpId) || 
-      workLogs.some(l => l.employeeId === selectedEmpId && l.projectId === p.id)
+      p.assignments.some(a => a.employeeId === viewEmpId) || 
+      workLogs.some(l => l.employeeId === viewEmpId && l.projectId === p.id)
     );
 
     return relevantProjects.filter(p => {
         // Exclude Lost projects from Resource Planning
         if (p.status === ProjectStatus.Lost) return false;
+        // Archived projects are kept for reference under the completed tab only
+        if (p.isArchived) return activeTab === 'completed';
 
         const completed = isProjectCompleted(p);
         
@@ -83,7 +117,32 @@ const ResourcePlanning: React.FC = () => {
              return p.status === ProjectStatus.Delivered || (p.status === ProjectStatus.Ordered && completed);
         }
     });
-  }, [projects, workLogs, selectedEmpId, activeTab]);
+  }, [projects, workLogs, viewEmpId, activeTab]);
+
+  // "未入力の週": finished weeks of the term where an ordered, assigned project was running but no hours were entered
+  const missingWeeks = useMemo(() => {
+    if (!viewEmpId) return [];
+    const today = new Date();
+    const assigned = projects.filter(p =>
+      !p.isArchived &&
+      p.status === ProjectStatus.Ordered &&
+      p.assignments.some(a => a.employeeId === viewEmpId && a.utilizationRate > 0)
+    );
+    return termMonths.flatMap(m => m.weeks).filter((week: any) => {
+      const weekStart = parseLocalDate(week.startDate);
+      const weekEnd = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 4);
+      if (weekEnd >= today) return false;
+      if (!assigned.some(p => isProjectActiveInWeek(p, weekStart, weekEnd))) return false;
+      return !workLogs.some(l => l.employeeId === viewEmpId && l.weekStartDate === week.startDate && l.actualHours > 0 && projectIds.has(l.projectId));
+    });
+  }, [projects, workLogs, viewEmpId, termMonths, projectIds]);
+
+  const scrollToWeek = (startDate: string) => {
+    const targetEl = document.getElementById(`week-header-${startDate}`);
+    if (scrollContainerRef.current && targetEl) {
+      scrollContainerRef.current.scrollLeft = targetEl.offsetLeft - 320; // Sticky columns width
+    }
+  };
 
   const openAddTaskModal = (project: Project) => {
     setTargetProject(project);
@@ -108,13 +167,14 @@ const ResourcePlanning: React.FC = () => {
 
   return (
     <div className="flex h-full gap-4 relative">
-      {/* Left Sidebar: Employee List */}
+      {/* Left Sidebar: Employee List (hidden in self-service mode) */}
+      {!isSelfService && (
       <div className="w-64 bg-white rounded-lg shadow-sm border border-gray-200 overflow-y-auto flex flex-col">
         <div className="p-4 bg-gray-50 border-b">
           <h3 className="font-bold text-gray-700">従業員一覧</h3>
         </div>
         <ul className="flex-1 overflow-y-auto">
-          {employees.map(emp => (
+          {activeEmployees.map(emp => (
             <li 
               key={emp.id}
               onClick={() => setSelectedEmpId(emp.id)}
@@ -133,20 +193,38 @@ const ResourcePlanning: React.FC = () => {
           ))}
         </ul>
       </div>
+      )}
 
       {/* Main Content */}
       <div className="flex-1 bg-white rounded-lg shadow-sm border border-gray-200 flex flex-col overflow-hidden">
+        {can('worklog:editAll') && linkedEmployee && (
+          <div className="px-4 pt-3 flex justify-end">
+            <button
+              onClick={() => setSelfServiceToggle(!selfServiceToggle)}
+              className="flex items-center text-xs px-3 py-1.5 rounded bg-white border border-gray-300 text-gray-600 hover:bg-gray-50"
+            >
+              {selfServiceToggle ? <><Users className="w-3 h-3 mr-1" /> 全員の稼働計画を表示</> : <><UserCheck className="w-3 h-3 mr-1" /> 自分の稼働を入力</>}
+            </button>
+          </div>
+        )}
         {!selectedEmployee ? (
           <div className="flex-1 flex items-center justify-center text-gray-400">
-            左側のリストから従業員を選択してください
+            {isSelfService
+              ? 'ログイン中のアカウントに従業員が紐づいていません。従業員マスタのメールアドレスを確認するか、管理者に連絡してください。'
+              : '左側のリストから従業員を選択してください'}
           </div>
         ) : (
           <div className="flex-1 flex flex-col">
              {/* Header Info & Tabs */}
              <div className="p-4 border-b bg-gray-50 flex justify-between items-center">
                <div>
-                 <h3 className="text-lg font-bold text-gray-800">{selectedEmployee.name} - 稼働計画 ({currentTerm}年11月期)</h3>
-                 <p className="text-xs text-gray-500">標準稼働(月): {selectedEmployee.defaultMonthlyHours}h</p>
+                 <h3 className="text-lg font-bold text-gray-800">
+                   {isSelfService ? `${selectedEmployee.name} - 稼働入力` : `${selectedEmployee.name} - 稼働計画`} ({getTermLabel(currentTerm, settings)})
+                 </h3>
+                 <p className="text-xs text-gray-500">
+                   <span className="px-1.5 py-0.5 bg-gray-100 rounded border border-gray-200 mr-2">{selectedEmployee.contractType}</span>
+                   標準稼働(月): {selectedEmployee.defaultMonthlyHours}h
+                 </p>
                </div>
                
                <div className="flex bg-gray-200 p-1 rounded-lg">
@@ -167,6 +245,29 @@ const ResourcePlanning: React.FC = () => {
                </div>
              </div>
              
+             {/* Missing Weeks Summary */}
+             {missingWeeks.length > 0 ? (
+               <div className="px-4 py-2 border-b bg-orange-50 text-xs text-orange-800 flex items-start gap-2">
+                 <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                 <div>
+                   <span className="font-bold mr-2">未入力の週: {missingWeeks.length}週</span>
+                   {missingWeeks.map((week: any) => (
+                     <button
+                       key={week.startDate}
+                       onClick={() => scrollToWeek(week.startDate)}
+                       className="inline-block mr-1 mb-1 px-2 py-0.5 rounded-full bg-white border border-orange-200 hover:bg-orange-100"
+                     >
+                       {week.label}
+                     </button>
+                   ))}
+                 </div>
+               </div>
+             ) : (
+               <div className="px-4 py-2 border-b bg-green-50 text-xs text-green-700 flex items-center">
+                 <CheckCircle2 className="w-4 h-4 mr-2" /> 未入力の週はありません
+               </div>
+             )}
+
              {/* Grid */}
              <div className="flex-1 overflow-auto" ref={scrollContainerRef}>
                <table className="min-w-full divide-y divide-gray-200 border-collapse">
@@ -190,7 +291,7 @@ const ResourcePlanning: React.FC = () => {
                    <tr>
                      {termMonths.map(month => (
                        month.weeks.map((week: any) => (
-                         <th key={week.startDate} className="p-1 border text-center min-w-[60px] text-xs font-medium text-gray-600 bg-gray-50">
+                         <th key={week.startDate} id={`week-header-${week.startDate}`} className="p-1 border text-center min-w-[60px] text-xs font-medium text-gray-600 bg-gray-50">
                            <div className="font-bold">{week.weekNum}w</div>
                            <div className="text-[10px] text-gray-400">{week.label}</div>
                          </th>
@@ -206,7 +307,7 @@ const ResourcePlanning: React.FC = () => {
                        {termMonths.map(month => 
                          month.weeks.map((week: any) => {
                            const totalActual = workLogs
-                             .filter(l => l.employeeId === selectedEmployee.id && l.weekStartDate === week.startDate)
+                             .filter(l => l.employeeId === selectedEmployee.id && l.weekStartDate === week.startDate && projectIds.has(l.projectId))
                              .reduce((sum, l) => sum + l.actualHours, 0);
                            
                            // Approx weekly standard
@@ -250,12 +351,14 @@ const ResourcePlanning: React.FC = () => {
                                 )}
                                 {proj.projectName}
                               </div>
-                              <button 
-                                onClick={() => openAddTaskModal(proj)}
-                                className="inline-flex items-center text-[10px] bg-white border border-blue-200 text-blue-600 px-2 py-0.5 rounded-full hover:bg-blue-50 transition-colors shadow-sm"
-                              >
-                                <Plus className="w-3 h-3 mr-1" /> タスク追加
-                              </button>
+                              {can('project:edit') && (
+                                <button 
+                                  onClick={() => openAddTaskModal(proj)}
+                                  className="inline-flex items-center text-[10px] bg-white border border-blue-200 text-blue-600 px-2 py-0.5 rounded-full hover:bg-blue-50 transition-colors shadow-sm"
+                                >
+                                  <Plus className="w-3 h-3 mr-1" /> タスク追加
+                                </button>
+                              )}
                             </td>
                             <td className="p-2 border text-center text-[10px] text-gray-500 bg-gray-50 sticky left-[240px] z-10 leading-tight">
                               MAX<br/>稼働時間
@@ -309,6 +412,7 @@ const ResourcePlanning: React.FC = () => {
                                             className={`w-full h-full text-center p-2 text-xs focus:bg-blue-50 focus:outline-none ${actual > 0 ? 'text-blue-800 font-bold' : 'text-gray-400'}`}
                                             value={actual || ''}
                                             placeholder="-"
+                                            readOnly={!canEditLogs}
                                             onChange={(e) => updateWorkLog({
                                               id: log?.id || '',
                                               projectId: proj.id,
@@ -349,6 +453,7 @@ const ResourcePlanning: React.FC = () => {
                                           className={`w-full h-full text-center p-2 text-xs focus:bg-blue-50 focus:outline-none ${actual > basePlannedWeekly ? 'text-red-600 font-bold' : 'text-gray-800'}`}
                                           value={actual || ''}
                                           placeholder="-"
+                                          readOnly={!canEditLogs}
                                           onChange={(e) => updateWorkLog({
                                             id: log?.id || '',
                                             projectId: proj.id,
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../context/AppContext';
+import { Project } from '../types';
+import { formatCurrency, formatMoney, getProjectCurrency, getStockRate, getTermDateRange, getUpcomingRenewals, isStockActiveInMonth, parseLocalDate, toJpy, toMonthKey } from '../utils';
+import { RefreshCw, UserMinus } from 'lucide-react';
+
+const HORIZONS = [3, 6, 12];
+
+const formatDate = (d: Date) => `${d.getFullYear()}/${d.getMonth() + 1}/${d.getDate()}`;
+
+// Stock contracts coming up for renewal or expiry, and cancellations (churn) with their reasons
+const StockRenewals: React.FC<{ onSelect: (project: Project) => void }> = ({ onSelect }) => {
+  const { projects, currentTerm, settings } = useData();
+  const [horizon, setHorizon] = useState(3);
+  const today = useMemo(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }, []);
+
+  const renewals = useMemo(() => getUpcomingRenewals(projects, today, horizon), [projects, today, horizon]);
+  const cancellations = useMemo(() => projects
+    .filter(p => p.useStock && p.stockCancellation && !p.isArchived)
+    .sort((a, b) => (a.stockCancellation!.endDate).localeCompare(b.stockCancellation!.endDate)), [projects]);
+
+  // Monthly recurring revenue now, and the part lost to cancellations ending within the term (JPY)
+  const { activeMrr, churnedMrr } = useMemo(() => {
+    const { start, end } = getTermDateRange(currentTerm, settings);
+    const thisMonth = toMonthKey(today);
+    const activeMrr = projects
+      .filter(p => !p.isArchived && isStockActiveInMonth(p, today.getFullYear(), today.getMonth()))
+      .reduce((sum, p) => sum + toJpy(p, getStockRate(p, today.getFullYear(), today.getMonth()), thisMonth, 'average', settings.fxRates), 0);
+    const churnedMrr = cancellations
+      .filter(p => {
+        const endDate = parseLocalDate(p.stockCancellation!.endDate);
+        return endDate >= start && endDate <= end;
+      })
+      .reduce((sum, p) => {
+        const endDate = parseLocalDate(p.stockCancellation!.endDate);
+        return sum + toJpy(p, getStockRate(p, endDate.getFullYear(), endDate.getMonth()), toMonthKey(endDate), 'average', settings.fxRates);
+      }, 0);
+    return { activeMrr, churnedMrr };
+  }, [projects, cancellations, currentTerm, settings, today]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div className="bg-white rounded shadow-sm border border-gray-200 p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-sm font-bold text-gray-700 flex items-center">
+            <RefreshCw className="w-4 h-4 mr-1 text-orange-500" /> 更新・満了予定のサブスク契約
+          </h3>
+          <select className="border rounded p-1 text-xs bg-white" value={horizon} onChange={e => setHorizon(Number(e.target.value))}>
+            {HORIZONS.map(h => <option key={h} value={h}>{h}ヶ月以内</option>)}
+          </select>
+        </div>
+        <table className="min-w-full text-xs">
+          <thead className="text-gray-500 border-b">
+            <tr>
+              <th className="text-left py-1">案件</th>
+              <th className="text-right py-1">月額</th>
+              <th className="text-center py-1">期間満了日</th>
+              <th className="text-center py-1">解約通知期限</th>
+              <th className="text-center py-1">満了後</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {renewals.map(({ project, termEnd, noticeDeadline, autoRenews }) => (
+              <tr key={project.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => onSelect(project)}>
+                <td className="py-1.5">
+                  <div className="font-bold text-gray-800">{project.clientName}</div>
+                  <div className="text-gray-500">{project.projectName}</div>
+                </td>
+                <td className="py-1.5 text-right font-mono">{formatMoney(getStockRate(project, today.getFullYear(), today.getMonth()), getProjectCurrency(project))}</td>
+                <td className="py-1.5 text-center font-mono">{formatDate(termEnd)}</td>
+                <td className={`py-1.5 text-center font-mono ${noticeDeadline < today ? 'text-gray-400 line-through' : 'text-red-600 font-bold'}`}>
+                  {formatDate(noticeDeadline)}
+                </td>
+                <td className="py-1.5 text-center">
+                  {autoRenews
+                    ? <span className="px-1.5 py-0.5 bg-green-50 text-green-700 rounded border border-green-200">{project.stockRenewalMonths}ヶ月更新</span>
+                    : <span className="px-1.5 py-0.5 bg-gray-100 text-gray-600 rounded border border-gray-200">終了</span>}
+                </td>
+              </tr>
+            ))}
+            {renewals.length === 0 && (
+              <tr><td colSpan={5} className="py-4 text-center text-gray-400">該当する契約はありません</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded shadow-sm border border-gray-200 p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-sm font-bold text-gray-700 flex items-center">
+            <UserMinus className="w-4 h-4 mr-1 text-red-500" /> 解約
+          </h3>
+          <div className="text-xs text-gray-500">
+            現在の月額合計 <span className="font-mono font-bold text-gray-800">{formatCurrency(activeMrr)}</span>
+            <span className="mx-2">/</span>
+            当期の解約 <span className="font-mono font-bold text-red-600">{formatCurrency(churnedMrr)}</span>
+            {activeMrr > 0 && <span className="ml-1">({((churnedMrr / activeMrr) * 100).toFixed(1)}%)</span>}
+          </div>
+        </div>
+        <table className="min-w-full text-xs">
+          <thead className="text-gray-500 border-b">
+            <tr>
+              <th className="text-left py-1">案件</th>
+              <th className="text-right py-1">月額</th>
+              <th className="text-center py-1">通知日</th>
+              <th className="text-center py-1">終了日</th>
+              <th className="text-left py-1 pl-2">理由</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {cancellations.map(p => (
+              <tr key={p.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => onSelect(p)}>
+                <td className="py-1.5">
+                  <div className="font-bold text-gray-800">{p.clientName}</div>
+                  <div className="text-gray-500">{p.projectName}</div>
+                </td>
+                <td className="py-1.5 text-right font-mono">{formatMoney(getStockRate(p, today.getFullYear(), today.getMonth()), getProjectCurrency(p))}</td>
+                <td className="py-1.5 text-center font-mono">{p.stockCancellation!.noticeDate}</td>
+                <td className="py-1.5 text-center font-mono">{p.stockCancellation!.endDate}</td>
+                <td className="py-1.5 pl-2 text-gray-600">{p.stockCancellation!.reason}</td>
+              </tr>
+            ))}
+            {cancellations.length === 0 && (
+              <tr><td colSpan={5} className="py-4 text-center text-gray-400">解約された契約はありません</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StockRenewals;
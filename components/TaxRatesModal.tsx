@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useData } from '../context/AppContext';
+import { TaxCode, TaxRate } from '../types';
+import { DEFAULT_TAX_RATES, generateId, getTaxRate, TAX_CODE_LABELS, TAXABLE_CODES } from '../utils';
+import { Percent, Trash2, X } from 'lucide-react';
+
+// Consumption tax rate table. A rate change is modelled by adding an entry with its effective date;
+// billings and payments use the rate effective on their own date.
+const TaxRatesModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { settings, updateSettings } = useData();
+  const [rates, setRates] = useState<TaxRate[]>(settings.taxRates || DEFAULT_TAX_RATES);
+  const [newRate, setNewRate] = useState<Omit<TaxRate, 'id'>>({ code: 'standard', rate: 10, effectiveFrom: '' });
+
+  const sorted = [...rates].sort((a, b) => TAXABLE_CODES.indexOf(a.code) - TAXABLE_CODES.indexOf(b.code) || b.effectiveFrom.localeCompare(a.effectiveFrom));
+  const today = new Date();
+
+  const handleAdd = () => {
+    if (!newRate.effectiveFrom || newRate.rate < 0) {
+      alert('適用開始日と税率を入力してください。');
+      return;
+    }
+    // One rate per code and date: re-entering replaces it
+    setRates([...rates.filter(r => !(r.code === newRate.code && r.effectiveFrom === newRate.effectiveFrom)), { ...newRate, id: generateId() }]);
+    setNewRate({ ...newRate, effectiveFrom: '' });
+  };
+
+  const handleSave = () => {
+    updateSettings({ ...settings, taxRates: rates }, '消費税率を更新しました');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg w-[560px] max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center">
+            <Percent className="w-5 h-5 mr-2 text-gray-500" /> 消費税率
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-3">
+          案件の請求とCF項目は、それぞれの日付に適用される税率で税込額・税抜額を計算します。将来の税率改定は、適用開始日を指定して追加してください。
+          免税 (輸出等)・非課税・不課税は常に0%です。
+        </p>
+
+        <div className="flex gap-2 mb-3 text-xs">
+          {TAXABLE_CODES.map(code => (
+            <div key={code} className="flex-1 p-2 bg-gray-50 rounded border">
+              <div className="text-gray-500">{TAX_CODE_LABELS[code]} (本日時点)</div>
+              <div className="font-mono font-bold text-base">{getTaxRate(code, today, rates)}%</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto border rounded mb-3">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50 text-gray-500 sticky top-0">
+              <tr>
+                <th className="text-left px-3 py-2">区分</th>
+                <th className="text-left px-3 py-2">適用開始日</th>
+                <th className="text-right px-3 py-2">税率</th>
+                <th className="w-8"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sorted.map(rate => (
+                <tr key={rate.id}>
+                  <td className="px-3 py-1.5 font-bold">{TAX_CODE_LABELS[rate.code]}</td>
+                  <td className="px-3 py-1.5 font-mono">{rate.effectiveFrom}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">{rate.rate}%</td>
+                  <td className="px-3 py-1.5 text-center">
+                    <button onClick={() => setRates(rates.filter(r => r.id !== rate.id))} className="text-red-400 hover:text-red-600" title="削除">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {sorted.length === 0 && (
+                <tr><td colSpan={4} className="px-3 py-4 text-center text-gray-400">税率が登録されていません (すべて0%として計算します)</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-end gap-2 text-xs bg-gray-50 p-3 rounded border">
+          <div>
+            <label className="block text-gray-500 mb-1">区分</label>
+            <select className="border p-1.5 rounded bg-white" value={newRate.code} onChange={e => setNewRate({ ...newRate, code: e.target.value as TaxCode })}>
+              {TAXABLE_CODES.map(code => <option key={code} value={code}>{TAX_CODE_LABELS[code]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-gray-500 mb-1">適用開始日</label>
+            <input type="date" className="border p-1 rounded" value={newRate.effectiveFrom} onChange={e => setNewRate({ ...newRate, effectiveFrom: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-gray-500 mb-1">税率 (%)</label>
+            <input type="number" step="0.1" min="0" className="border p-1 rounded w-20 text-right font-mono" value={newRate.rate} onChange={e => setNewRate({ ...newRate, rate: Number(e.target.value) })} />
+          </div>
+          <button onClick={handleAdd} className="px-3 py-1.5 bg-gray-700 text-white rounded font-bold hover:bg-gray-800">追加</button>
+          <button onClick={() => setRates(DEFAULT_TAX_RATES)} className="px-3 py-1.5 text-gray-500 hover:text-gray-700 ml-auto">法定税率に戻す</button>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+          <button onClick={handleSave} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700">保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaxRatesModal;
@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useData } from '../context/AppContext';
+import { formatCurrency, getClientRevenueForTerm, getGrowthRate, getTermLabel, getTermOptions, summarizeTerm, TermSummary } from '../utils';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { GitCompare, Users } from 'lucide-react';
+
+type MonthlyMetric = 'revenue' | 'stockRevenue' | 'flowRevenue' | 'laborCost' | 'grossProfit' | 'cashBalance';
+
+const METRICS: { key: MonthlyMetric, label: string }[] = [
+  { key: 'revenue', label: '売上' },
+  { key: 'stockRevenue', label: 'ストック売上' },
+  { key: 'flowRevenue', label: 'フロー売上' },
+  { key: 'laborCost', label: '人件費' },
+  { key: 'grossProfit', label: '粗利' },
+  { key: 'cashBalance', label: '月末現預金' },
+];
+
+const TERM_COLORS = ['#cbd5e1', '#93c5fd', '#3b82f6', '#1d4ed8', '#1e3a8a'];
+
+// Delta and growth rate vs the previous compared term
+const Delta: React.FC<{ current: number, previous: number }> = ({ current, previous }) => {
+  const delta = current - previous;
+  const growth = getGrowthRate(current, previous);
+  const color = delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-gray-400';
+  return (
+    <div className={`text-[10px] ${color}`}>
+      {delta >= 0 ? '+' : ''}{formatCurrency(delta)}
+      {growth !== null && <span className="ml-1">({growth >= 0 ? '+' : ''}{growth.toFixed(1)}%)</span>}
+    </div>
+  );
+};
+
+const TermComparison: React.FC = () => {
+  const { projects, employees, workLogs, settings, currentTerm } = useData();
+  const termOptions = getTermOptions(currentTerm, settings);
+  const [selectedTerms, setSelectedTerms] = useState<number[]>([currentTerm - 1, currentTerm]);
+  const [metric, setMetric] = useState<MonthlyMetric>('revenue');
+
+  // Follow the header term selector: always compare the current term with its previous term by default
+  useEffect(() => {
+    setSelectedTerms([currentTerm - 1, currentTerm]);
+  }, [currentTerm]);
+
+  const toggleTerm = (term: number) => {
+    setSelectedTerms(prev => prev.includes(term) ? prev.filter(t => t !== term) : [...prev, term].sort((a, b) => a - b));
+  };
+
+  const summaries = useMemo<TermSummary[]>(
+    () => selectedTerms.map(term => summarizeTerm(projects, employees, workLogs, term, settings)),
+    [selectedTerms, projects, employees, workLogs, settings]
+  );
+
+  // Monthly rows aligned by calendar month (a short first term only fills its own months)
+  const monthlyRows = useMemo(() => {
+    const firstMonth = settings.fiscalYearEndMonth % 12; // 0-based month after the year end
+    return Array.from({ length: 12 }, (_, i) => {
+      const month = (firstMonth + i) % 12;
+      const row: Record<string, string | number | null> = { month: `${month + 1}月` };
+      summaries.forEach(s => {
+        const r = s.rows.find(x => x.date.getMonth() === month);
+        row[s.label] = r ? r[metric] : null;
+      });
+      return row;
+    });
+  }, [summaries, metric, settings.fiscalYearEndMonth]);
+
+  const clientRows = useMemo(() => {
+    const byTerm = selectedTerms.map(term => getClientRevenueForTerm(projects, term, settings, { employees, workLogs, fxRates: settings.fxRates, closedDays: settings.closedDays }));
+    const clients = Array.from(new Set<string>(byTerm.flatMap(t => Object.keys(t))));
+    const latest = byTerm[byTerm.length - 1] || {};
+    return clients
+      .map(client => ({ client, values: byTerm.map(t => t[client] || 0) }))
+      .sort((a, b) => (latest[b.client] || 0) - (latest[a.client] || 0));
+  }, [selectedTerms, projects, employees, workLogs, settings]);
+
+  const summaryRows: { label: string, value: (s: TermSummary) => number }[] = [
+    { label: '売上高', value: s => s.revenue },
+    { label: 'うちストック', value: s => s.stockRevenue },
+    { label: 'うちフロー', value: s => s.flowRevenue },
+    { label: '人件費', value: s => s.laborCost },
+    { label: '粗利', value: s => s.grossProfit },
+    { label: '期末現預金', value: s => s.endingCash },
+  ];
+
+  const metricLabel = METRICS.find(m => m.key === metric)?.label;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 flex items-center">
+              <GitCompare className="w-5 h-5 mr-2 text-gray-500" /> 決算期比較 (前期比)
+            </h2>
+            <p className="text-sm text-gray-500">複数の決算期の予測・実績を並べて比較します。増減・成長率は直前に並ぶ期との比較です。</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {termOptions.map(term => (
+            <label
+              key={term}
+              className={`px-3 py-1 rounded-full border text-xs cursor-pointer ${selectedTerms.includes(term) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            >
+              <input type="checkbox" className="hidden" checked={selectedTerms.includes(term)} onChange={() => toggleTerm(term)} />
+              {getTermLabel(term, settings)}
+            </label>
+          ))}
+        </div>
+        {selectedTerms.length < 2 && <p className="text-xs text-orange-600 mt-2">比較する期を2つ以上選択してください。</p>}
+      </div>
+
+      {summaries.length > 0 && (
+        <>
+          {/* Term Totals */}
+          <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100 overflow-x-auto">
+            <h3 className="text-lg font-bold text-gray-800 mb-4">期間合計</h3>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="bg-gray-50 text-gray-600 text-xs">
+                  <th className="px-3 py-2 text-left">項目</th>
+                  {summaries.map(s => <th key={s.termYear} className="px-3 py-2 text-right">{s.label}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {summaryRows.map(row => (
+                  <tr key={row.label}>
+                    <td className="px-3 py-2 font-bold text-gray-700">{row.label}</td>
+                    {summaries.map((s, i) => (
+                      <td key={s.termYear} className="px-3 py-2 text-right font-mono">
+                        {formatCurrency(row.value(s))}
+                        {i > 0 && <Delta current={row.value(s)} previous={row.value(summaries[i - 1])} />}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr>
+                  <td className="px-3 py-2 font-bold text-gray-700">粗利率</td>
+                  {summaries.map(s => (
+                    <td key={s.termYear} className="px-3 py-2 text-right font-mono">
+                      {s.revenue > 0 ? `${((s.grossProfit / s.revenue) * 100).toFixed(1)}%` : '-'}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {/* Monthly Comparison */}
+          <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-bold text-gray-800">月次推移の比較: {metricLabel}</h3>
+              <select className="border rounded p-1 text-sm bg-gray-50" value={metric} onChange={e => setMetric(e.target.value as MonthlyMetric)}>
+                {METRICS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+              </select>
+            </div>
+            <div className="h-72 mb-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={monthlyRows}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="month" fontSize={12} />
+                  <YAxis fontSize={12} tickFormatter={(val) => `${val/10000}万`} />
+                  <Tooltip formatter={(val: number) => formatCurrency(val)} />
+                  <Legend />
+                  {summaries.map((s, i) => (
+                    <Bar key={s.termYear} dataKey={s.label} fill={TERM_COLORS[Math.max(0, TERM_COLORS.length - summaries.length + i)]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs">
+                <thead>
+                  <tr className="bg-gray-50 text-gray-600">
+                    <th className="px-3 py-2 text-left">月</th>
+                    {summaries.map(s => <th key={s.termYear} className="px-3 py-2 text-right">{s.label}</th>)}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {monthlyRows.map(row => (
+                    <tr key={row.month as string}>
+                      <td className="px-3 py-1.5 font-bold text-gray-700">{row.month}</td>
+                      {summaries.map((s, i) => {
+                        const value = row[s.label] as number | null;
+                        const previous = i > 0 ? row[summaries[i - 1].label] as number | null : null;
+                        return (
+                          <td key={s.termYear} className="px-3 py-1.5 text-right font-mono">
+                            {value === null ? '-' : formatCurrency(value)}
+                            {value !== null && previous !== null && <Delta current={value} previous={previous} />}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Per-client Comparison */}
+          <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100 overflow-x-auto">
+            <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center">
+              <Users className="w-5 h-5 mr-2 text-gray-500" /> 顧客別 売上比較
+            </h3>
+            {clientRows.length === 0 ? (
+              <p className="text-sm text-gray-400">選択した期に売上のある顧客はありません。</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 text-gray-600 text-xs">
+                    <th className="px-3 py-2 text-left">顧客</th>
+                    {summaries.map(s => <th key={s.termYear} className="px-3 py-2 text-right">{s.label}</th>)}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {clientRows.map(row => (
+                    <tr key={row.client}>
+                      <td className="px-3 py-2 font-bold text-gray-700">{row.client}</td>
+                      {row.values.map((value, i) => (
+                        <td key={summaries[i].termYear} className="px-3 py-2 text-right font-mono">
+                          {formatCurrency(value)}
+                          {i > 0 && <Delta current={value} previous={row.values[i - 1]} />}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50 font-bold">
+                    <td className="px-3 py-2 text-gray-700">合計</td>
+                    {summaries.map((s, i) => (
+                      <td key={s.termYear} className="px-3 py-2 text-right font-mono">
+                        {formatCurrency(s.revenue)}
+                        {i > 0 && <Delta current={s.revenue} previous={summaries[i - 1].revenue} />}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TermComparison;
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { useData } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import { Undo2, Redo2, X } from 'lucide-react';
+
+const TOAST_DURATION_MS = 6000;
+
+// Shows the last data change with an undo link, and binds Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) globally
+const UndoToast: React.FC = () => {
+  const { history, undo, redo } = useData();
+  const { isLocked } = useAuth();
+  const [visibleId, setVisibleId] = useState<string | null>(null);
+  const action = history.lastAction;
+
+  useEffect(() => {
+    if (!action) return;
+    setVisibleId(action.id);
+    const timer = setTimeout(() => setVisibleId(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [action]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // The lock screen covers the app; nothing behind it may change until the user signs in again
+      if (isLocked || !(e.ctrlKey || e.metaKey)) return;
+
+      // Leave text fields to the browser's own undo
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, isLocked]);
+
+  if (!action || visibleId !== action.id || isLocked) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] bg-slate-900 text-white text-sm rounded-lg shadow-2xl flex items-center px-4 py-3 gap-4">
+      <span>
+        {action.type === 'undo' && <span className="text-slate-400 mr-1">元に戻しました:</span>}
+        {action.type === 'redo' && <span className="text-slate-400 mr-1">やり直しました:</span>}
+        {action.label}
+      </span>
+      {action.type !== 'undo' && history.canUndo && (
+        <button onClick={undo} className="flex items-center font-bold text-blue-300 hover:text-blue-100">
+          <Undo2 className="w-4 h-4 mr-1" /> 元に戻す
+        </button>
+      )}
+      {action.type === 'undo' && history.canRedo && (
+        <button onClick={redo} className="flex items-center font-bold text-blue-300 hover:text-blue-100">
+          <Redo2 className="w-4 h-4 mr-1" /> やり直す
+        </button>
+      )}
+      <button onClick={() => setVisibleId(null)} className="text-slate-400 hover:text-white">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { useData } from '../context/AppContext';
+import { AccountInput, useAuth } from '../context/AuthContext';
+import { AuthUser, UserRole } from '../types';
+import { findLinkedEmployee, MIN_PASSWORD_LENGTH } from '../services/auth';
+import { ROLE_LABELS } from '../services/permissions';
+import { KeyRound, Plus, Trash2, UserCog, X } from 'lucide-react';
+
+const ROLES: UserRole[] = ['admin', 'manager', 'member'];
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: '全機能 + ユーザー管理・データ管理',
+  manager: '案件・従業員・請求書・CF・設定の編集、全員の稼働実績入力',
+  member: '自分の稼働実績の入力のみ。報酬額・CF・ダッシュボードは非表示',
+};
+
+const emptyInput: AccountInput = { email: '', name: '', role: 'member', employeeId: '' };
+
+const UserManagement: React.FC = () => {
+  const { employees } = useData();
+  const { user, accounts, addAccount, updateAccount, resetPassword, deleteAccount } = useAuth();
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [newAccount, setNewAccount] = useState<AccountInput>(emptyInput);
+  const [newPassword, setNewPassword] = useState('');
+  const [passwordTarget, setPasswordTarget] = useState<AuthUser | null>(null);
+  const [resetValue, setResetValue] = useState('');
+
+  const activeEmployees = employees.filter(e => !e.isArchived);
+
+  // Account changes are async (the account store may be remote); errors carry a user-facing message
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      return true;
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+      return false;
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newAccount.email || !newAccount.name) {
+      alert('氏名とメールアドレスを入力してください。');
+      return;
+    }
+    if (await run(() => addAccount(newAccount, newPassword))) {
+      setShowAddModal(false);
+      setNewAccount(emptyInput);
+      setNewPassword('');
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!passwordTarget) return;
+    if (await run(() => resetPassword(passwordTarget.id, resetValue))) {
+      alert(`${passwordTarget.name} のパスワードを変更しました。`);
+      setPasswordTarget(null);
+      setResetValue('');
+    }
+  };
+
+  const handleDelete = (account: AuthUser) => {
+    if (!confirm(`ユーザー『${account.name}』を削除しますか？`)) return;
+    run(() => deleteAccount(account.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold text-gray-700 flex items-center">
+            <UserCog className="w-5 h-5 mr-2 text-gray-500" /> ユーザー管理
+          </h2>
+          <p className="text-sm text-gray-500">ログインできるユーザーと権限を管理します。メンバーは紐づく従業員 (従業員マスタのメールアドレスが一致、または個別指定) の稼働実績のみ入力できます。</p>
+        </div>
+        <button onClick={() => setShowAddModal(true)} className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-bold shadow-sm">
+          <Plus className="w-4 h-4 mr-1" /> ユーザー追加
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs">
+        {ROLES.map(role => (
+          <div key={role} className="p-3 bg-gray-50 rounded border border-gray-200">
+            <div className="font-bold text-gray-700 mb-1">{ROLE_LABELS[role]}</div>
+            <div className="text-gray-500">{ROLE_DESCRIPTIONS[role]}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded shadow overflow-hidden border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">氏名 / メールアドレス</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">権限</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">紐づく従業員</th>
+              <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">状態</th>
+              <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">操作</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {accounts.map(account => {
+              const linkedEmployee = findLinkedEmployee(account, employees);
+              return (
+              <tr key={account.id} className={account.disabled ? 'opacity-60' : ''}>
+                <td className="px-4 py-3">
+                  <div className="font-bold text-gray-700 text-sm">
+                    {account.name}
+                    {account.id === user?.id && <span className="ml-2 text-[10px] text-blue-600">(自分)</span>}
+                    {account.oidcSubject && <span className="ml-2 px-1.5 py-0.5 bg-blue-50 text-blue-700 rounded text-[10px] border border-blue-100" title={account.ssoManaged ? '権限は認証サーバーのクレームで毎回上書きされます' : 'SSOでログインできます。権限はこの画面の設定が使われます'}>SSO</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">{account.email}</div>
+                </td>
+                <td className="px-4 py-3">
+                  <select
+                    className="border rounded p-1 text-sm bg-white"
+                    value={account.role}
+                    onChange={e => run(() => updateAccount({ ...account, role: e.target.value as UserRole }))}
+                  >
+                    {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                  </select>
+                </td>
+                <td className="px-4 py-3">
+                  <select
+                    className="border rounded p-1 text-sm bg-white"
+                    value={account.employeeId || ''}
+                    onChange={e => run(() => updateAccount({ ...account, employeeId: e.target.value || undefined }))}
+                  >
+                    <option value="">(メールアドレスで自動)</option>
+                    {activeEmployees.map(emp => <option key={emp.id} value={emp.id}>{emp.name}</option>)}
+                  </select>
+                  {!account.employeeId && (
+                    <div className="text-[10px] text-gray-400 mt-1">
+                      {linkedEmployee ? `→ ${linkedEmployee.name}` : '一致する従業員なし'}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-center">
+                  <label className="inline-flex items-center text-xs text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mr-1"
+                      checked={!account.disabled}
+                      disabled={account.id === user?.id}
+                      onChange={e => run(() => updateAccount({ ...account, disabled: !e.target.checked }))}
+                    />
+                    有効
+                  </label>
+                </td>
+                <td className="px-4 py-3 text-center whitespace-nowrap">
+                  <button onClick={() => { setPasswordTarget(account); setResetValue(''); }} className="text-blue-600 hover:text-blue-800 text-sm inline-flex items-center" title="パスワード変更">
+                    <KeyRound className="w-4 h-4 mr-1" /> パスワード
+                  </button>
+                  {account.id !== user?.id && (
+                    <button onClick={() => handleDelete(account)} className="ml-3 text-red-400 hover:text-red-600 align-middle" title="削除">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Add User Modal */}
+      {showAddModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-lg w-[480px] shadow-2xl">
+            <div className="flex justify-between items-center mb-4 border-b pb-2">
+              <h3 className="text-lg font-bold text-gray-800">ユーザー追加</h3>
+              <button onClick={() => setShowAddModal(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">氏名</label>
+                <input className="w-full border p-2 rounded text-sm" value={newAccount.name} onChange={e => setNewAccount({ ...newAccount, name: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">メールアドレス</label>
+                <input type="email" className="w-full border p-2 rounded text-sm" value={newAccount.email} onChange={e => setNewAccount({ ...newAccount, email: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 mb-1">権限</label>
+                  <select className="w-full border p-2 rounded text-sm bg-white" value={newAccount.role} onChange={e => setNewAccount({ ...newAccount, role: e.target.value as UserRole })}>
+                    {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 mb-1">紐づく従業員</label>
+                  <select className="w-full border p-2 rounded text-sm bg-white" value={newAccount.employeeId || ''} onChange={e => setNewAccount({ ...newAccount, employeeId: e.target.value })}>
+                    <option value="">(メールアドレスで自動)</option>
+                    {activeEmployees.map(emp => <option key={emp.id} value={emp.id}>{emp.name}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">初期パスワード</label>
+                <input type="password" autoComplete="new-password" className="w-full border p-2 rounded text-sm" value={newPassword} onChange={e => setNewPassword(e.target.value)} />
+                <p className="text-[10px] text-gray-400 mt-1">{MIN_PASSWORD_LENGTH}文字以上。本人に伝え、ログイン後に変更してもらってください。</p>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+              <button onClick={() => setShowAddModal(false)} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+              <button onClick={handleAdd} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700">追加</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Password Reset Modal */}
+      {passwordTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-lg w-[400px] shadow-2xl">
+            <div className="flex justify-between items-center mb-4 border-b pb-2">
+              <h3 className="text-lg font-bold text-gray-800">パスワード変更: {passwordTarget.name}</h3>
+              <button onClick={() => setPasswordTarget(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">新しいパスワード</label>
+            <input type="password" autoComplete="new-password" className="w-full border p-2 rounded text-sm" value={resetValue} onChange={e => setResetValue(e.target.value)} />
+            <div className="flex justify-end gap-2 mt-6 border-t pt-4">
+              <button onClick={() => setPasswordTarget(null)} className="px-4 py-2 text-gray-500 text-sm hover:text-gray-700">キャンセル</button>
+              <button onClick={handleResetPassword} className="px-6 py-2 rounded text-sm font-bold text-white shadow-sm bg-blue-600 hover:bg-blue-700">変更</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserManagement;
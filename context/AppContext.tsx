@@ -1,11 +1,23 @@
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Employee, Project, WorkLog, AppSettings, DataContextType, ContractType, ProjectType, ProjectStatus, CashFlowCategory, RevenueRecognitionMethod } from '../types';
-import { generateId } from '../utils';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { Employee, Project, WorkLog, Invoice, Receipt, AppSettings, DataContextType, PersistedData, ImportMode, DataSnapshot, HistoryEntry, HistoryAction, AuditEntry, DeleteOptions, Permission, ContractType, ProjectType, ProjectStatus, CashFlowCategory, RevenueRecognitionMethod } from '../types';
+import { generateId, getTermForDate, FiscalCalendar } from '../utils';
+import { CURRENT_SCHEMA_VERSION } from '../services/migrations';
+import { mergeAuditLog, mergeData, replaceData } from '../services/backup';
+import { createStorageAdapter } from '../services/storage';
+import { buildAuditEntries } from '../services/audit';
+import { getLinkedAccounts, getProjectDependencies, isProjectDeletable, PROJECT_HAS_RECORDS_MESSAGE, relinkAccounts, removeEmployee, removeOrphans as removeOrphanRecords, removeProject } from '../services/integrity';
+import { PERMISSION_DENIED_MESSAGE } from '../services/permissions';
+import { formatInvoiceNumber, getIssuerProblems, getNextInvoiceSequence } from '../services/invoices';
+import { findLinkedEmployee } from '../services/auth';
+import { useAuth } from './AuthContext';
 
 const AppContext = createContext<DataContextType | undefined>(undefined);
 
-const STORAGE_KEY = 'irwin_manager_data_v11'; // Bump version to reset data with new dates
+const storage = createStorageAdapter();
+const SAVE_DEBOUNCE_MS = 500;
+const HISTORY_LIMIT = 100;
+const HISTORY_COALESCE_MS = 1500;
 
 const defaultSettings: AppSettings = {
   targetLaborShareMin: 40,
@@ -13,6 +25,9 @@ const defaultSettings: AppSettings = {
   salesTargets: {},
   monthlySalesTarget: 5000000,
   initialCashBalance: 10000000, 
+  cashBalanceAsOf: '2024-12',
+  fiscalYearEndMonth: 11,
+  firstTermStartDate: '2024-12-01',
   cashFlowItems: [
     {
       id: 'cf-1',
@@ -41,6 +56,9 @@ const defaultSettings: AppSettings = {
       payDay: 10
     }
   ],
+  closedDays: [
+    { id: 'closed-1', name: '年末年始', start: '12-29', end: '01-03', recurring: true }
+  ],
   leadSourceOptions: {
     "交流会": ["V三田会", "不動産三田会", "エアトリCXOサロン", "JCI"],
     "紹介": ["アルサーガパートナーズ"],
@@ -73,14 +91,8 @@ const seedEmployees: Employee[] = [
   },
 ];
 
-// Helper to determine current fiscal term based on today (Nov Year End)
-const getInitialTerm = () => {
-  const today = new Date();
-  // Term ends in Nov. 
-  // If Month is 0-10 (Jan-Nov), term is Year.
-  // If Month is 11 (Dec), term is Year + 1.
-  return today.getMonth() === 11 ? today.getFullYear() + 1 : today.getFullYear();
-};
+// Helper to determine current fiscal term based on today and the configured year end
+const getInitialTerm = (fiscal: FiscalCalendar = defaultSettings) => getTermForDate(new Date(), fiscal);
 
 const currentYear = getInitialTerm();
 
@@ -125,86 +137,489 @@ const seedProjects: Project[] = [
 ];
 
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, can, isRecentlyAuthenticated, isLocked, accounts, updateAccount } = useAuth();
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [workLogs, setWorkLogs] = useState<WorkLog[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [settings, setSettings] = useState<AppSettings>(defaultSettings);
   const [currentTerm, setCurrentTerm] = useState<number>(getInitialTerm()); 
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // Last snapshot the backend confirmed, used as the baseline for incremental saves
+  const lastSavedRef = useRef<PersistedData | null>(null);
+  const pendingSaveRef = useRef<PersistedData | null>(null);
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
 
+  // Loaded once someone has signed in: the shared data server only answers authenticated requests
+  const loadStartedRef = useRef(false);
   useEffect(() => {
-    const savedData = localStorage.getItem(STORAGE_KEY);
-    if (savedData) {
-      const parsed = JSON.parse(savedData);
-      setEmployees(parsed.employees || []);
-      setProjects(parsed.projects || []);
-      setWorkLogs(parsed.workLogs || []);
-      setSettings({ ...defaultSettings, ...(parsed.settings || {}) });
-      // Use saved term if exists, otherwise recalculate based on today
-      if (parsed.currentTerm) setCurrentTerm(parsed.currentTerm);
-      else setCurrentTerm(getInitialTerm());
+    if (!user || loadStartedRef.current) return;
+    loadStartedRef.current = true;
+    storage.load()
+      .then(parsed => {
+        if (parsed) {
+          lastSavedRef.current = parsed;
+          const loadedSettings = { ...defaultSettings, ...(parsed.settings || {}) };
+          applySnapshot({
+            employees: parsed.employees || [],
+            projects: parsed.projects || [],
+            workLogs: parsed.workLogs || [],
+            invoices: parsed.invoices || [],
+            settings: loadedSettings
+          });
+          setAuditLog(parsed.auditLog || []);
+          // Use saved term if exists, otherwise recalculate based on today
+          if (parsed.currentTerm) setCurrentTerm(parsed.currentTerm);
+          else setCurrentTerm(getInitialTerm(loadedSettings));
+        } else {
+          applySnapshot({ employees: seedEmployees, projects: seedProjects, workLogs: [], invoices: [], settings: defaultSettings });
+          setCurrentTerm(getInitialTerm());
+        }
+        setIsLoaded(true);
+      })
+      .catch(e => {
+        // Do not enable saving: writing seed data here would overwrite the unreadable dataset
+        console.error('Failed to load stored data', e);
+        setStorageError(e instanceof Error ? e.message : String(e));
+      });
+  }, [user?.id]);
+
+  // Saves run one at a time so each diff is taken against what the backend actually holds
+  const persist = (snapshot: PersistedData) => {
+    saveChainRef.current = saveChainRef.current.then(async () => {
+      try {
+        await storage.save(snapshot, lastSavedRef.current);
+        lastSavedRef.current = snapshot;
+        if (pendingSaveRef.current === snapshot) pendingSaveRef.current = null;
+        setStorageError(null);
+      } catch (e) {
+        console.error('Failed to save data', e);
+        setStorageError(e instanceof Error ? e.message : String(e));
+      }
+    });
+  };
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const snapshot: PersistedData = { schemaVersion: CURRENT_SCHEMA_VERSION, employees, projects, workLogs, invoices, settings, currentTerm, auditLog };
+    pendingSaveRef.current = snapshot;
+    // Debounce so that typing in a grid does not write on every keystroke
+    const timer = setTimeout(() => persist(snapshot), SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [employees, projects, workLogs, invoices, settings, currentTerm, auditLog, isLoaded]);
+
+  // Flush a pending debounced save (and a coalescing audit entry) when the tab is hidden or closed
+  useEffect(() => {
+    const flush = () => {
+      const auditEntries = takePendingAudit();
+      const snapshot = pendingSaveRef.current || (auditEntries.length > 0 ? lastSavedRef.current : null);
+      if (snapshot) persist(auditEntries.length > 0 ? { ...snapshot, auditLog: [...snapshot.auditLog, ...auditEntries] } : snapshot);
+      if (auditEntries.length > 0) setAuditLog(prev => [...prev, ...auditEntries]);
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, []);
+
+  // --- Mutations & Undo/Redo History ---
+  // Every data mutation goes through `commit`, which records a before/after snapshot.
+  // `dataRef` always holds the latest snapshot so several mutations in one handler compose correctly.
+  const dataRef = useRef<DataSnapshot>({ employees, projects, workLogs, invoices, settings });
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  const batchRef = useRef<{ label: string, before: DataSnapshot } | null>(null);
+  const [lastAction, setLastAction] = useState<HistoryAction | null>(null);
+  // A coalescing edit (typing a value) waits here until it ends, so it is written to the trail once
+  const pendingAuditRef = useRef<{ before: DataSnapshot, after: DataSnapshot, description: string, coalesceKey: string, userEmail: string, timestamp: string, timer: ReturnType<typeof setTimeout> } | null>(null);
+
+  const applySnapshot = (next: DataSnapshot) => {
+    const prev = dataRef.current;
+    dataRef.current = next;
+    if (prev.employees !== next.employees) setEmployees(next.employees);
+    if (prev.projects !== next.projects) setProjects(next.projects);
+    if (prev.workLogs !== next.workLogs) setWorkLogs(next.workLogs);
+    if (prev.invoices !== next.invoices) setInvoices(next.invoices);
+    if (prev.settings !== next.settings) setSettings(next.settings);
+  };
+
+  // Audit trail: every applied change (including undo/redo) is diffed against the previous state and appended.
+  // Stored entries are never rewritten; a coalesced edit is recorded once, after its last keystroke.
+  const takePendingAudit = (): AuditEntry[] => {
+    const pending = pendingAuditRef.current;
+    if (!pending) return [];
+    clearTimeout(pending.timer);
+    pendingAuditRef.current = null;
+    return buildAuditEntries(pending.before, pending.after, { userEmail: pending.userEmail, description: pending.description, timestamp: pending.timestamp });
+  };
+
+  const flushAudit = () => {
+    const entries = takePendingAudit();
+    if (entries.length > 0) setAuditLog(prev => [...prev, ...entries]);
+  };
+
+  const recordAudit = (before: DataSnapshot, after: DataSnapshot, description: string, coalesceKey?: string) => {
+    const userEmail = user?.email || '不明';
+    const timestamp = new Date().toISOString();
+    const pending = pendingAuditRef.current;
+    if (pending && coalesceKey && pending.coalesceKey === coalesceKey && pending.userEmail === userEmail) {
+      clearTimeout(pending.timer);
+      pendingAuditRef.current = { ...pending, after, description, timestamp, timer: setTimeout(flushAudit, HISTORY_COALESCE_MS) };
+      return;
+    }
+    flushAudit();
+    if (coalesceKey) {
+      pendingAuditRef.current = { before, after, description, coalesceKey, userEmail, timestamp, timer: setTimeout(flushAudit, HISTORY_COALESCE_MS) };
+      return;
+    }
+    const entries = buildAuditEntries(before, after, { userEmail, description, timestamp });
+    if (entries.length > 0) setAuditLog(prev => [...prev, ...entries]);
+  };
+
+  const pushHistory = (entry: HistoryEntry) => {
+    const top = undoStackRef.current[undoStackRef.current.length - 1];
+    // Consecutive edits of the same field (e.g. typing hours into one cell) collapse into one step
+    if (top && entry.coalesceKey && top.coalesceKey === entry.coalesceKey && entry.timestamp - top.timestamp < HISTORY_COALESCE_MS) {
+      undoStackRef.current[undoStackRef.current.length - 1] = { ...entry, before: top.before };
     } else {
-      setEmployees(seedEmployees);
-      setProjects(seedProjects);
-      setCurrentTerm(getInitialTerm());
+      undoStackRef.current = [...undoStackRef.current, entry].slice(-HISTORY_LIMIT);
     }
-    setIsLoaded(true);
-  }, []);
+    recordAudit(entry.before, entry.after, entry.label, entry.coalesceKey);
+    redoStackRef.current = [];
+    setLastAction({ id: generateId(), type: 'do', label: entry.label });
+  };
+
+  const commit = (label: string, producer: (data: DataSnapshot) => DataSnapshot, coalesceKey?: string) => {
+    const before = dataRef.current;
+    const after = producer(before);
+    if (after === before) return;
+    applySnapshot(after);
+    // Inside a batch the whole group is recorded once when the batch ends
+    if (!batchRef.current) {
+      pushHistory({ label, before, after, coalesceKey, timestamp: Date.now() });
+    }
+  };
+
+  // Changes that cannot be reverted, such as issuing an invoice: audited but kept out of the history. Earlier
+  // snapshots still hold the state before them, so the history up to here is dropped as well.
+  const commitFinal = (label: string, producer: (data: DataSnapshot) => DataSnapshot) => {
+    const before = dataRef.current;
+    const after = producer(before);
+    if (after === before) return;
+    applySnapshot(after);
+    recordAudit(before, after, label);
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    setLastAction(null);
+  };
+
+  const batch = (label: string, fn: () => void) => {
+    if (batchRef.current) {
+      fn();
+      return;
+    }
+    const before = dataRef.current;
+    batchRef.current = { label, before };
+    try {
+      fn();
+    } finally {
+      batchRef.current = null;
+    }
+    if (dataRef.current !== before) {
+      pushHistory({ label, before, after: dataRef.current, timestamp: Date.now() });
+    }
+  };
 
+  // History belongs to the user who made the changes; the next user to sign in starts with none
   useEffect(() => {
-    if (isLoaded) {
-      const dataToSave = { employees, projects, workLogs, settings, currentTerm };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(dataToSave));
+    flushAudit();
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    setLastAction(null);
+  }, [user?.id]);
+
+  // Sent (issued or voided) invoices never change and their numbers are never reused
+  const changesSentInvoices = (target: DataSnapshot) => {
+    const current = dataRef.current.invoices.filter(inv => inv.status !== 'draft');
+    const next = new Set(target.invoices.filter(inv => inv.status !== 'draft'));
+    return current.length !== next.size || current.some(inv => !next.has(inv));
+  };
+
+  // Undo and redo apply whole snapshots, so they need the same rights as the changes they revert or repeat
+  const canApplyHistory = ({ before, after }: HistoryEntry, target: DataSnapshot) => {
+    const required: Permission[] = [];
+    if (before.employees !== after.employees) required.push('employee:edit');
+    if (before.projects !== after.projects) required.push('project:edit');
+    if (before.invoices !== after.invoices) required.push('invoice:edit');
+    if (before.settings !== after.settings) required.push('settings:edit');
+    let allowed = required.every(can);
+    if (allowed && before.workLogs !== after.workLogs && !can('worklog:editAll')) {
+      const ownId = findLinkedEmployee(user, dataRef.current.employees)?.id;
+      const beforeLogs = new Set(before.workLogs);
+      const afterLogs = new Set(after.workLogs);
+      const changed = [...before.workLogs.filter(l => !afterLogs.has(l)), ...after.workLogs.filter(l => !beforeLogs.has(l))];
+      allowed = can('worklog:editOwn') && changed.every(l => !!ownId && l.employeeId === ownId);
+    }
+    if (!allowed) {
+      alert(PERMISSION_DENIED_MESSAGE);
+      return false;
+    }
+    if (changesSentInvoices(target)) {
+      alert('発行済み・無効の請求書を変更する操作は元に戻せません。');
+      return false;
     }
-  }, [employees, projects, workLogs, settings, currentTerm, isLoaded]);
+    if (before.settings.initialCashBalance !== after.settings.initialCashBalance && !isRecentlyAuthenticated) {
+      alert('現預金残高を変更するにはパスワードを再入力してください。');
+      return false;
+    }
+    return true;
+  };
+
+  const undo = () => {
+    const entry = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!entry || isLocked || !canApplyHistory(entry, entry.before)) return;
+    undoStackRef.current = undoStackRef.current.slice(0, -1);
+    redoStackRef.current = [...redoStackRef.current, entry];
+    applySnapshot(entry.before);
+    recordAudit(entry.after, entry.before, `元に戻す: ${entry.label}`);
+    setLastAction({ id: generateId(), type: 'undo', label: entry.label });
+  };
+
+  const redo = () => {
+    const entry = redoStackRef.current[redoStackRef.current.length - 1];
+    if (!entry || isLocked || !canApplyHistory(entry, entry.after)) return;
+    redoStackRef.current = redoStackRef.current.slice(0, -1);
+    undoStackRef.current = [...undoStackRef.current, entry];
+    applySnapshot(entry.after);
+    recordAudit(entry.before, entry.after, `やり直し: ${entry.label}`);
+    setLastAction({ id: generateId(), type: 'redo', label: entry.label });
+  };
+
+  const getProjectLabel = (p: Project) => p.projectName || p.clientName;
+
+  // Mutations re-check the role, so hidden buttons are not the only guard
+  const denied = (permission: Permission) => {
+    if (can(permission)) return false;
+    alert(PERMISSION_DENIED_MESSAGE);
+    return true;
+  };
 
   const addEmployee = (emp: Omit<Employee, 'id'>) => {
-    setEmployees([...employees, { ...emp, id: generateId() }]);
+    if (denied('employee:edit')) return;
+    commit(`従業員『${emp.name}』を追加しました`, d => ({
+      ...d,
+      employees: [...d.employees, { ...emp, id: generateId() }]
+    }));
   };
 
   const updateEmployee = (emp: Employee) => {
-    setEmployees(employees.map(e => e.id === emp.id ? emp : e));
+    if (denied('employee:edit')) return;
+    commit(`従業員『${emp.name}』を更新しました`, d => ({
+      ...d,
+      employees: d.employees.map(e => e.id === emp.id ? emp : e)
+    }));
   };
 
-  const deleteEmployee = (id: string) => {
-    setEmployees(employees.filter(e => e.id !== id));
-    setProjects(projects.map(p => ({
-      ...p,
-      assignments: p.assignments.filter(a => a.employeeId !== id)
-    })));
+  // Hard delete. Work logs and assignments are removed with the employee or moved to `options.targetId`.
+  const deleteEmployee = (id: string, options: DeleteOptions = { mode: 'cascade' }) => {
+    if (denied('employee:edit')) return;
+    const emp = dataRef.current.employees.find(e => e.id === id);
+    // Linked accounts are relinked along with the data, which only someone who manages accounts can do.
+    // (With the data server, others see only their own account; the server unlinks the rest.)
+    if (getLinkedAccounts(accounts, id).length > 0 && !can('user:manage')) {
+      alert('ユーザーアカウントに紐づいている従業員は削除できません。管理者にアカウントの紐付けを変更してもらってください。');
+      return;
+    }
+    commit(`従業員『${emp?.name || ''}』を削除しました`, d => removeEmployee(d, id, options));
+    Promise.all(relinkAccounts(accounts, id, options).map(updateAccount))
+      .catch(e => alert(`ユーザーアカウントの紐付けを変更できませんでした。ユーザー管理画面で確認してください。\n${e instanceof Error ? e.message : e}`));
+  };
+
+  const archiveEmployee = (id: string, archived: boolean) => {
+    if (denied('employee:edit')) return;
+    const emp = dataRef.current.employees.find(e => e.id === id);
+    commit(`従業員『${emp?.name || ''}』を${archived ? 'アーカイブ' : '復元'}しました`, d => ({
+      ...d,
+      employees: d.employees.map(e => e.id === id ? { ...e, isArchived: archived } : e)
+    }));
   };
 
   const addProject = (proj: Omit<Project, 'id'>) => {
-    setProjects([...projects, { ...proj, id: generateId() }]);
+    if (denied('project:edit')) return;
+    commit(`案件『${getProjectLabel(proj as Project)}』を追加しました`, d => ({
+      ...d,
+      projects: [...d.projects, { ...proj, id: generateId() }]
+    }));
   };
 
   const updateProject = (proj: Project) => {
-    setProjects(projects.map(p => p.id === proj.id ? proj : p));
+    if (denied('project:edit')) return;
+    commit(`案件『${getProjectLabel(proj)}』を更新しました`, d => ({
+      ...d,
+      projects: d.projects.map(p => p.id === proj.id ? proj : p)
+    }));
   };
 
-  const deleteProject = (id: string) => {
-    setProjects(projects.filter(p => p.id !== id));
+  // Hard delete. Work logs are removed with the project or moved to `options.targetId`; draft invoices are removed.
+  // Projects with sent invoices or receipts can only be archived.
+  const deleteProject = (id: string, options: DeleteOptions = { mode: 'cascade' }) => {
+    if (denied('project:edit')) return;
+    if (!isProjectDeletable(getProjectDependencies(dataRef.current, id))) {
+      alert(PROJECT_HAS_RECORDS_MESSAGE);
+      return;
+    }
+    const proj = dataRef.current.projects.find(p => p.id === id);
+    commit(`案件『${proj ? getProjectLabel(proj) : ''}』を削除しました`, d => removeProject(d, id, options));
+  };
+
+  const archiveProject = (id: string, archived: boolean) => {
+    if (denied('project:edit')) return;
+    const proj = dataRef.current.projects.find(p => p.id === id);
+    commit(`案件『${proj ? getProjectLabel(proj) : ''}』を${archived ? 'アーカイブ' : '復元'}しました`, d => ({
+      ...d,
+      projects: d.projects.map(p => p.id === id ? { ...p, isArchived: archived } : p)
+    }));
+  };
+
+  const removeOrphans = () => {
+    if (denied('data:manage')) return;
+    commit('孤立した稼働実績・アサインを削除しました', removeOrphanRecords);
   };
 
   const updateWorkLog = (log: WorkLog) => {
-    const existingIndex = workLogs.findIndex(l => 
-      l.projectId === log.projectId && 
-      l.taskId === log.taskId && // Check task ID as well
-      l.employeeId === log.employeeId && 
-      l.weekStartDate === log.weekStartDate
-    );
-
-    if (existingIndex >= 0) {
-      const newLogs = [...workLogs];
-      newLogs[existingIndex] = { ...newLogs[existingIndex], actualHours: log.actualHours };
-      setWorkLogs(newLogs);
-    } else {
-      setWorkLogs([...workLogs, { ...log, id: generateId() }]);
+    const isOwnRow = log.employeeId === findLinkedEmployee(user, dataRef.current.employees)?.id;
+    if (!can('worklog:editAll') && !(isOwnRow && can('worklog:editOwn'))) {
+      alert(PERMISSION_DENIED_MESSAGE);
+      return;
+    }
+    const cellKey = `worklog:${log.projectId}:${log.taskId || ''}:${log.employeeId}:${log.weekStartDate}`;
+    commit(`稼働実績 (${log.weekStartDate}週) を更新しました`, d => {
+      const existingIndex = d.workLogs.findIndex(l => 
+        l.projectId === log.projectId && 
+        l.taskId === log.taskId && // Check task ID as well
+        l.employeeId === log.employeeId && 
+        l.weekStartDate === log.weekStartDate
+      );
+
+      if (existingIndex >= 0) {
+        const newLogs = [...d.workLogs];
+        newLogs[existingIndex] = { ...newLogs[existingIndex], actualHours: log.actualHours };
+        return { ...d, workLogs: newLogs };
+      }
+      return { ...d, workLogs: [...d.workLogs, { ...log, id: generateId() }] };
+    }, cellKey);
+  };
+
+  const getInvoiceLabel = (inv: Invoice) => inv.number || `${inv.clientName} (下書き)`;
+
+  const addInvoices = (drafts: Omit<Invoice, 'id'>[]) => {
+    if (denied('invoice:edit') || drafts.length === 0) return;
+    commit(`請求書の下書きを${drafts.length}件作成しました`, d => ({
+      ...d,
+      invoices: [...d.invoices, ...drafts.map(inv => ({ ...inv, id: generateId() }))]
+    }));
+  };
+
+  // Issued and voided invoices are kept as they were sent; only drafts can be edited or deleted
+  const updateDraftInvoice = (id: string, label: (inv: Invoice) => string, producer: (invoices: Invoice[], inv: Invoice) => Invoice[], apply = commit) => {
+    const inv = dataRef.current.invoices.find(i => i.id === id);
+    if (!inv) return;
+    if (inv.status !== 'draft') {
+      alert('発行済みの請求書は変更できません。訂正する場合は無効にして再発行してください。');
+      return;
+    }
+    apply(label(inv), d => ({ ...d, invoices: producer(d.invoices, inv) }));
+  };
+
+  const updateInvoice = (invoice: Invoice) => {
+    if (denied('invoice:edit')) return;
+    updateDraftInvoice(invoice.id, inv => `請求書『${getInvoiceLabel(inv)}』を更新しました`, list => list.map(i => i.id === invoice.id ? invoice : i));
+  };
+
+  const deleteInvoice = (id: string) => {
+    if (denied('invoice:edit')) return;
+    updateDraftInvoice(id, inv => `請求書『${getInvoiceLabel(inv)}』を削除しました`, list => list.filter(i => i.id !== id));
+  };
+
+  // Assigns the next number. The issuer block must be complete, since the number is final once sent.
+  // Issuing and voiding cannot be undone.
+  const issueInvoice = (id: string) => {
+    if (denied('invoice:edit')) return;
+    const problems = getIssuerProblems(dataRef.current.settings.invoiceIssuer);
+    if (problems.length > 0) {
+      alert(`請求書を発行できません。\n${problems.join('\n')}`);
+      return;
+    }
+    const issuer = dataRef.current.settings.invoiceIssuer!;
+    const sequence = getNextInvoiceSequence(dataRef.current.invoices);
+    const number = formatInvoiceNumber(issuer.numberPrefix, sequence);
+    updateDraftInvoice(id, () => `請求書『${number}』を発行しました`, (list, inv) => list.map(i => i.id === id
+      ? { ...inv, sequence, number, status: 'issued', issuedAt: new Date().toISOString() }
+      : i), commitFinal);
+  };
+
+  const voidInvoice = (id: string, reason: string) => {
+    if (denied('invoice:edit')) return;
+    const inv = dataRef.current.invoices.find(i => i.id === id);
+    if (!inv || inv.status !== 'issued') return;
+    commitFinal(`請求書『${getInvoiceLabel(inv)}』を無効にしました`, d => ({
+      ...d,
+      invoices: d.invoices.map(i => i.id === id ? { ...i, status: 'void', voidedAt: new Date().toISOString(), voidReason: reason } : i)
+    }));
+  };
+
+  const updateReceipts = (projectId: string, label: string, producer: (receipts: Receipt[]) => Receipt[]) => {
+    commit(label, d => ({
+      ...d,
+      projects: d.projects.map(p => p.id === projectId ? { ...p, receipts: producer(p.receipts || []) } : p)
+    }));
+  };
+
+  const recordReceipt = (projectId: string, receipt: Omit<Receipt, 'id'>) => {
+    if (denied('invoice:edit')) return;
+    const proj = dataRef.current.projects.find(p => p.id === projectId);
+    updateReceipts(projectId, `案件『${proj ? getProjectLabel(proj) : ''}』の入金 (${receipt.date}) を記録しました`, list => [...list, { ...receipt, id: generateId() }]);
+  };
+
+  const deleteReceipt = (projectId: string, receiptId: string) => {
+    if (denied('invoice:edit')) return;
+    const proj = dataRef.current.projects.find(p => p.id === projectId);
+    updateReceipts(projectId, `案件『${proj ? getProjectLabel(proj) : ''}』の入金記録を削除しました`, list => list.filter(r => r.id !== receiptId));
+  };
+
+  const updateSettings = (newSettings: AppSettings, description?: string) => {
+    if (denied('settings:edit')) return;
+    if (newSettings.initialCashBalance !== dataRef.current.settings.initialCashBalance && !isRecentlyAuthenticated) {
+      alert('現預金残高を変更するにはパスワードを再入力してください。');
+      return;
     }
+    const label = description || '設定を更新しました';
+    // Repeated edits with the same description (e.g. typing a balance) are one undo step
+    commit(label, d => ({ ...d, settings: newSettings }), `settings:${label}`);
   };
 
-  const updateSettings = (newSettings: AppSettings) => {
-    setSettings(newSettings);
+  const importData = (data: PersistedData, mode: ImportMode) => {
+    if (denied('data:manage')) return;
+    const current: PersistedData = { schemaVersion: CURRENT_SCHEMA_VERSION, ...dataRef.current, currentTerm, auditLog };
+    const next = mode === 'merge' ? mergeData(current, data) : replaceData(current, data);
+    // The imported trail is added in both modes; the import itself is then recorded on top
+    setAuditLog(prev => mergeAuditLog(prev, data.auditLog || []));
+    commit(mode === 'merge' ? 'バックアップをマージしました' : 'バックアップでデータを置き換えました', () => ({
+      employees: next.employees,
+      projects: next.projects,
+      workLogs: next.workLogs,
+      invoices: next.invoices || [],
+      settings: { ...defaultSettings, ...next.settings }
+    }));
+    setCurrentTerm(next.currentTerm || getInitialTerm({ ...defaultSettings, ...next.settings }));
   };
 
   return (
@@ -212,17 +627,39 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       employees,
       projects,
       workLogs,
+      invoices,
       settings,
       currentTerm,
+      auditLog,
       setCurrentTerm,
       addEmployee,
       updateEmployee,
       deleteEmployee,
+      archiveEmployee,
       addProject,
       updateProject,
       deleteProject,
+      archiveProject,
+      removeOrphans,
       updateWorkLog,
-      updateSettings
+      addInvoices,
+      updateInvoice,
+      deleteInvoice,
+      issueInvoice,
+      voidInvoice,
+      recordReceipt,
+      deleteReceipt,
+      updateSettings,
+      importData,
+      batch,
+      undo,
+      redo,
+      history: {
+        canUndo: undoStackRef.current.length > 0,
+        canRedo: redoStackRef.current.length > 0,
+        lastAction
+      },
+      storageStatus: { label: storage.label, isLoaded, error: storageError }
     }}>
       {children}
     </AppContext.Provider>
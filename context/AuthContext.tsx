@@ -0,0 +1,281 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { AuthSession, AuthUser, Permission } from '../types';
+import { AccountInput, createAccountStore, createSession, isSessionLocked, loadSession, normalizeEmail, REAUTH_WINDOW_MS, saveSession, SignInResult, validatePassword } from '../services/auth';
+import { hasPermission } from '../services/permissions';
+import { beginOidcSignIn, completeOidcSignIn, getOidcConfig, hasOidcCallback, OidcIdentity } from '../services/oidc';
+
+export type { AccountInput } from '../services/auth';
+
+interface AuthContextType {
+  user: AuthUser | null;
+  accounts: AuthUser[];
+  isLoaded: boolean;
+  loadError: string | null;
+  // No accounts yet: the first sign-up becomes the admin
+  needsSetup: boolean;
+  // Resolves to an error message, or null on success
+  login: (email: string, password: string) => Promise<string | null>;
+  setupAdmin: (input: Omit<AccountInput, 'role' | 'employeeId'>, password: string) => Promise<void>;
+  logout: () => void;
+  // OpenID Connect sign-in, available when OIDC_ISSUER and OIDC_CLIENT_ID are set.
+  // `forceLogin` makes the provider ask for the password again (re-authentication).
+  oidcEnabled: boolean;
+  signInWithOidc: (options?: { forceLogin?: boolean }) => Promise<void>;
+  oidcError: string | null;
+  // Idle timeout or session expiry: the UI stays mounted behind a re-login overlay
+  isLocked: boolean;
+  unlock: (password: string) => Promise<string | null>;
+  // Password entered within the last few minutes (salary data, opening cash balance)
+  isRecentlyAuthenticated: boolean;
+  reauthenticate: (password: string) => Promise<string | null>;
+  can: (permission: Permission) => boolean;
+  // Account management (admin). These throw an Error with a user-facing message on invalid input.
+  addAccount: (input: AccountInput, password: string) => Promise<void>;
+  updateAccount: (user: AuthUser) => Promise<void>;
+  resetPassword: (id: string, password: string) => Promise<void>;
+  // Signed-in user's own password, confirmed with the current one
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  deleteAccount: (id: string) => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+const ACTIVITY_CHECK_MS = 15 * 1000;
+// Pre-account sessions (domain-only email login) are dropped so everyone signs in with a password
+const LEGACY_KEYS = ['irwin_auth', 'irwin_auth_user'];
+
+export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const store = useMemo(() => createAccountStore(), []);
+  const [accounts, setAccounts] = useState<AuthUser[]>([]);
+  const [needsSetup, setNeedsSetup] = useState(false);
+  // After a reload there is no unsaved screen to keep, so an expired or idle session just signs out
+  const [session, setSession] = useState<AuthSession | null>(() => {
+    const stored = loadSession();
+    return stored && !isSessionLocked(stored) ? stored : null;
+  });
+  const sessionRef = useRef(session);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isRecentlyAuthenticated, setIsRecentlyAuthenticated] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const oidcConfig = useMemo(() => getOidcConfig(), []);
+  const [oidcError, setOidcError] = useState<string | null>(null);
+
+  // Accounts visible to the current session; the data server only lists them once signed in
+  const refreshAccounts = async () => {
+    const loaded = await store.load();
+    setAccounts(loaded.accounts);
+    setNeedsSetup(loaded.needsSetup);
+  };
+
+  useEffect(() => {
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+    // A stored session that is already locked must not keep authenticating requests either
+    if (!sessionRef.current) saveSession(null);
+    refreshAccounts()
+      .catch(e => setLoadError(e instanceof Error ? e.message : String(e)))
+      .finally(() => setIsLoaded(true));
+  }, [store]);
+
+  const updateSession = (next: AuthSession | null) => {
+    sessionRef.current = next;
+    saveSession(next);
+    setSession(next);
+  };
+
+  // Idle tracking. Activity is recorded in the stored session without re-rendering the app.
+  useEffect(() => {
+    if (!session || isLocked) return;
+    let lastActivity = Date.now();
+    const onActivity = () => { lastActivity = Date.now(); };
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, onActivity, { passive: true }));
+    const timer = setInterval(() => {
+      const current = sessionRef.current;
+      if (!current) return;
+      const next = { ...current, lastActiveAt: Math.max(current.lastActiveAt, lastActivity) };
+      sessionRef.current = next;
+      saveSession(next);
+      if (isSessionLocked(next)) setIsLocked(true);
+    }, ACTIVITY_CHECK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, onActivity));
+      clearInterval(timer);
+    };
+  }, [session?.token, isLocked]);
+
+  // Re-authentication expires on its own after the window
+  useEffect(() => {
+    const remaining = session ? session.authenticatedAt + REAUTH_WINDOW_MS - Date.now() : 0;
+    setIsRecentlyAuthenticated(remaining > 0);
+    if (remaining <= 0) return;
+    const timer = setTimeout(() => setIsRecentlyAuthenticated(false), remaining);
+    return () => clearTimeout(timer);
+  }, [session?.authenticatedAt]);
+
+  // The signed-in user is looked up on every change, so role edits and disabling take effect immediately
+  const user = accounts.find(a => a.id === session?.accountId && !a.disabled) || null;
+
+  // `authenticatedAt` is the time of the password entry when it happened elsewhere (the identity provider)
+  const startSession = async ({ accountId, token }: SignInResult, authenticatedAt?: number) => {
+    const created = createSession(accountId, token);
+    updateSession(authenticatedAt === undefined ? created : { ...created, authenticatedAt: Math.min(authenticatedAt, created.authenticatedAt) });
+    setIsLocked(false);
+    await refreshAccounts();
+  };
+
+  // Same message for unknown email and wrong password
+  const WRONG_CREDENTIALS = 'メールアドレスまたはパスワードが正しくありません。';
+
+  const login = async (email: string, password: string) => {
+    try {
+      const result = await store.signIn(email, password);
+      if (!result) return WRONG_CREDENTIALS;
+      await startSession(result);
+      return null;
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  };
+
+  const signInWithIdentity = async (identity: OidcIdentity) => {
+    await startSession(await store.signInWithIdentity(identity), identity.authTime);
+  };
+
+  // Finish the redirect back from the identity provider once the accounts are available
+  useEffect(() => {
+    if (!isLoaded || loadError || !oidcConfig || !hasOidcCallback()) return;
+    completeOidcSignIn(oidcConfig)
+      .then(signInWithIdentity)
+      .catch(e => setOidcError(e instanceof Error ? e.message : String(e)));
+  }, [isLoaded]);
+
+  const signInWithOidc = async (options?: { forceLogin?: boolean }) => {
+    if (!oidcConfig) throw new Error('シングルサインオンが設定されていません。');
+    setOidcError(null);
+    await beginOidcSignIn(oidcConfig, options);
+  };
+
+  const setupAdmin = async (input: Omit<AccountInput, 'role' | 'employeeId'>, password: string) => {
+    if (!needsSetup) throw new Error('初期管理者は既に登録されています。');
+    const passwordError = validatePassword(password);
+    if (passwordError) throw new Error(passwordError);
+    await startSession(await store.setupAdmin(input, password));
+  };
+
+  const logout = () => {
+    const current = sessionRef.current;
+    if (current) store.signOut(current.token).catch(e => console.error('Failed to sign out', e));
+    updateSession(null);
+    setIsLocked(false);
+  };
+
+  const WRONG_PASSWORD = 'パスワードが正しくありません。';
+
+  // Password check of the signed-in user through the store, which issues a new session token
+  const verifyOwnPassword = async (password: string): Promise<SignInResult | string> => {
+    if (!user) return 'アカウントが見つからないか無効化されています。';
+    try {
+      const result = await store.signIn(user.email, password);
+      return result && result.accountId === user.id ? result : WRONG_PASSWORD;
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  };
+
+  // Re-login of the locked user: a new token and expiry, the screens underneath stay as they were
+  const unlock = async (password: string) => {
+    const result = await verifyOwnPassword(password);
+    if (typeof result === 'string') return result;
+    await startSession(result);
+    return null;
+  };
+
+  const reauthenticate = async (password: string) => {
+    const current = sessionRef.current;
+    if (!current) return 'ログインしていません。';
+    const result = await verifyOwnPassword(password);
+    if (typeof result === 'string') return result;
+    const now = Date.now();
+    updateSession({ ...current, token: result.token, authenticatedAt: now, lastActiveAt: now });
+    store.signOut(current.token).catch(e => console.error('Failed to end the previous session', e));
+    return null;
+  };
+
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+
+  const requireAdmin = () => {
+    if (!can('user:manage')) throw new Error('ユーザー管理の権限がありません。');
+  };
+
+  const addAccount = async (input: AccountInput, password: string) => {
+    requireAdmin();
+    const passwordError = validatePassword(password);
+    if (passwordError) throw new Error(passwordError);
+    await store.addAccount({ ...input, email: normalizeEmail(input.email) }, password);
+    await refreshAccounts();
+  };
+
+  const updateAccount = async (updated: AuthUser) => {
+    requireAdmin();
+    await store.updateAccount({ ...updated, email: normalizeEmail(updated.email) });
+    await refreshAccounts();
+  };
+
+  const resetPassword = async (id: string, password: string) => {
+    requireAdmin();
+    const passwordError = validatePassword(password);
+    if (passwordError) throw new Error(passwordError);
+    await store.setPassword(id, password);
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!user) throw new Error('ログインしていません。');
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) throw new Error(passwordError);
+    await store.setPassword(user.id, newPassword, currentPassword);
+  };
+
+  const deleteAccount = async (id: string) => {
+    requireAdmin();
+    if (id === user?.id) throw new Error('ログイン中のアカウントは削除できません。');
+    await store.deleteAccount(id);
+    await refreshAccounts();
+  };
+
+  return (
+    <AuthContext.Provider value={{
+      user,
+      accounts,
+      isLoaded,
+      loadError,
+      needsSetup: isLoaded && !loadError && needsSetup,
+      login,
+      setupAdmin,
+      logout,
+      oidcEnabled: !!oidcConfig,
+      signInWithOidc,
+      oidcError,
+      isLocked,
+      unlock,
+      isRecentlyAuthenticated,
+      reauthenticate,
+      can,
+      addAccount,
+      updateAccount,
+      resetPassword,
+      changePassword,
+      deleteAccount,
+    }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
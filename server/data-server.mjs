@@ -0,0 +1,522 @@
+// Minimal self-hosted data server for the HTTP storage backend (services/storage.ts).
+// Stores the whole dataset in one JSON file so the team can share a single copy.
+// Passwords are checked here and hashes never leave the server; every other request needs the session token
+// from sign-in (`Authorization: Bearer <token>`). Sessions live in memory, so a restart signs everyone out.
+//
+//   DATA_FILE=./server/data/dataset.json PORT=3100 ALLOWED_ORIGIN=http://localhost:3000 node server/data-server.mjs
+//
+// ALLOWED_ORIGIN is the app's URL. Without it the server sends no CORS headers and browsers on other origins are refused.
+// MAX_BODY_BYTES (default 20 MB) caps request bodies.
+// SSO sign-in needs the same OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_ALLOWED_DOMAINS, OIDC_DOMAIN_CLAIM, OIDC_ROLE_CLAIM
+// and OIDC_ROLE_MAP as the app (services/oidc.ts).
+//
+// Endpoints:
+//   GET    /api/auth/status        -> { needsSetup } (no session needed)
+//   POST   /api/auth/setup         -> first admin { email, name, password }, only while no account exists
+//   POST   /api/auth/login         -> { email, password } -> { accountId, token }
+//   POST   /api/auth/oidc          -> { idToken } -> { accountId, token }
+//   POST   /api/auth/logout        -> end the session
+//   GET    /api/users              -> accounts without credentials (admins: all, others: their own)
+//   POST   /api/users              -> add { email, name, role, employeeId?, password } (admin)
+//   PATCH  /api/users/:id          -> update { email, name, role, employeeId, disabled } (admin)
+//   PUT    /api/users/:id/password -> { password } (admin) or { password, currentPassword } (own account)
+//   DELETE /api/users/:id          -> (admin)
+//   GET    /api/data               -> dataset (404 when empty); members get it without employee costs
+//   PUT    /api/data               -> replace dataset (admin, or anyone while the server is empty)
+//   PATCH  /api/data               -> apply a change set { collections, settings?, currentTerm?, schemaVersion };
+//                                     new audit entries are stamped with the session's user and the server time
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { promisify } from 'node:util';
+
+const PORT = Number(process.env.PORT || 3100);
+const DATA_FILE = path.resolve(process.env.DATA_FILE || 'server/data/dataset.json');
+const USERS_FILE = path.resolve(process.env.USERS_FILE || path.join(path.dirname(DATA_FILE), 'users.json'));
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '';
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES || 20 * 1024 * 1024);
+const COLLECTIONS = ['employees', 'projects', 'workLogs', 'invoices', 'auditLog'];
+
+// Same values as services/auth.ts, so accounts created in either place verify in both
+const PBKDF2_ITERATIONS = 210000;
+const MIN_PASSWORD_LENGTH = 8;
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const ROLES = ['admin', 'manager', 'member']; // Highest privilege first
+const CLOCK_SKEW_SEC = 60;
+const ID_TOKEN_MAX_AGE_SEC = 5 * 60; // An ID token is exchanged for a session right after the provider issued it
+
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+// Refusal with a status and a message the app shows as is
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readJson = (file) => {
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+};
+
+// Write to a temp file first so a crash mid-write never leaves a truncated file
+const writeJson = (file, data) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data));
+  fs.renameSync(tmp, file);
+};
+
+const readDataset = () => readJson(DATA_FILE);
+const writeDataset = (data) => writeJson(DATA_FILE, data);
+
+// Bodies past the limit are read to the end but not kept, so the 413 still reaches the client
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (size > MAX_BODY_BYTES) return reject(new HttpError(413, 'データが大きすぎます。'));
+    const body = Buffer.concat(chunks).toString('utf8');
+    try {
+      resolve(body ? JSON.parse(body) : null);
+    } catch {
+      reject(new HttpError(400, 'Invalid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res, status, body) => {
+  const headers = { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' };
+  if (ALLOWED_ORIGIN) {
+    headers['Access-Control-Allow-Origin'] = ALLOWED_ORIGIN;
+    headers['Access-Control-Allow-Methods'] = 'GET, POST, PUT, PATCH, DELETE, OPTIONS';
+    headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization';
+  }
+  res.writeHead(status, headers);
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+// --- Accounts ---
+
+const readAccounts = () => readJson(USERS_FILE) || [];
+const writeAccounts = (accounts) => writeJson(USERS_FILE, accounts);
+
+const normalizeEmail = (email) => String(email || '').trim().toLowerCase();
+const toAuthUser = ({ passwordHash, passwordSalt, passwordIterations, ...user }) => user;
+const hasActiveAdmin = (accounts) => accounts.some(a => a.role === 'admin' && !a.disabled);
+
+const hashPassword = async (password) => {
+  const salt = crypto.randomBytes(16);
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS, 32, 'sha256');
+  return { passwordHash: hash.toString('base64'), passwordSalt: salt.toString('base64'), passwordIterations: PBKDF2_ITERATIONS };
+};
+
+const verifyPassword = async (account, password) => {
+  const expected = Buffer.from(account.passwordHash, 'base64');
+  const hash = await pbkdf2(String(password || ''), Buffer.from(account.passwordSalt, 'base64'), account.passwordIterations, expected.length, 'sha256');
+  return crypto.timingSafeEqual(hash, expected);
+};
+
+const validateAccountInput = ({ email, name, role }) => {
+  if (!normalizeEmail(email) || !String(name || '').trim()) throw new HttpError(400, '氏名とメールアドレスを入力してください。');
+  if (!ROLES.includes(role)) throw new HttpError(400, '権限の指定が不正です。');
+};
+
+const validatePassword = (password) => {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `パスワードは${MIN_PASSWORD_LENGTH}文字以上で入力してください。`);
+  }
+};
+
+const createAccount = async ({ email, name, role, employeeId }, password) => ({
+  id: crypto.randomUUID(),
+  email: normalizeEmail(email),
+  name: String(name).trim(),
+  role,
+  employeeId: employeeId || undefined,
+  ...(await hashPassword(password)),
+  createdAt: new Date().toISOString(),
+});
+
+const writeAccountsKeepingAdmin = (accounts) => {
+  if (!hasActiveAdmin(accounts)) throw new HttpError(409, '有効な管理者が1人以上必要です。');
+  writeAccounts(accounts);
+};
+
+// --- Sessions ---
+
+// token -> { accountId, expiresAt }
+const sessions = new Map();
+
+const startSession = (accountId) => {
+  const now = Date.now();
+  sessions.forEach((session, token) => {
+    if (session.expiresAt <= now) sessions.delete(token);
+  });
+  const token = crypto.randomBytes(32).toString('base64');
+  sessions.set(token, { accountId, expiresAt: now + SESSION_TTL_MS });
+  return { accountId, token };
+};
+
+const getToken = (req) => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  return match ? match[1] : null;
+};
+
+// The signed-in account, re-read on every request so disabling or a role change applies at once
+const authenticate = (req) => {
+  const session = sessions.get(getToken(req));
+  if (!session || session.expiresAt <= Date.now()) throw new HttpError(401, 'ログインの有効期限が切れました。もう一度ログインしてください。');
+  const account = readAccounts().find(a => a.id === session.accountId && !a.disabled);
+  if (!account) throw new HttpError(401, 'アカウントが見つからないか無効化されています。');
+  return account;
+};
+
+const requireAdmin = (req) => {
+  const account = authenticate(req);
+  if (account.role !== 'admin') throw new HttpError(403, 'ユーザー管理の権限がありません。');
+  return account;
+};
+
+// --- OpenID Connect ---
+
+const parseList = (value) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+const OIDC = process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID ? {
+  issuer: process.env.OIDC_ISSUER.replace(/\/$/, ''),
+  clientId: process.env.OIDC_CLIENT_ID,
+  allowedDomains: parseList(process.env.OIDC_ALLOWED_DOMAINS).map(d => d.toLowerCase()),
+  domainClaim: process.env.OIDC_DOMAIN_CLAIM || 'hd',
+  roleClaim: process.env.OIDC_ROLE_CLAIM || 'roles',
+  roleMap: Object.fromEntries(parseList(process.env.OIDC_ROLE_MAP)
+    .map(entry => entry.split('=').map(v => v.trim()))
+    .filter(([claimValue, role]) => claimValue && ROLES.includes(role))),
+} : null;
+
+const fetchJson = async (url) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new HttpError(502, `認証サーバーとの通信に失敗しました (${res.status})`);
+  return res.json();
+};
+
+const decodeJson = (part) => JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+
+// Same checks as the browser (services/oidc.ts) except the nonce, which only the browser knows
+const verifyIdToken = async (idToken) => {
+  const discovery = await fetchJson(`${OIDC.issuer}/.well-known/openid-configuration`);
+  if (String(discovery.issuer).replace(/\/$/, '') !== OIDC.issuer) throw new HttpError(502, '認証サーバーの issuer が設定と一致しません。');
+
+  const [headerPart, payloadPart, signaturePart] = String(idToken || '').split('.');
+  if (!headerPart || !payloadPart || !signaturePart) throw new HttpError(401, 'IDトークンの形式が不正です。');
+  const header = decodeJson(headerPart);
+  if (header.alg !== 'RS256') throw new HttpError(401, `未対応の署名方式です (${header.alg})`);
+  const { keys = [] } = await fetchJson(discovery.jwks_uri);
+  const jwk = keys.find(k => k.kid === header.kid);
+  if (!jwk) throw new HttpError(401, 'IDトークンの署名鍵が見つかりません。');
+  const key = crypto.createPublicKey({ key: { kty: jwk.kty, n: jwk.n, e: jwk.e }, format: 'jwk' });
+  if (!crypto.verify('sha256', Buffer.from(`${headerPart}.${payloadPart}`), key, Buffer.from(signaturePart, 'base64url'))) {
+    throw new HttpError(401, 'IDトークンの署名が不正です。');
+  }
+
+  const claims = decodeJson(payloadPart);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== discovery.issuer) throw new HttpError(401, 'IDトークンの発行元が一致しません。');
+  if (!audiences.includes(OIDC.clientId) || (audiences.length > 1 && claims.azp !== OIDC.clientId)) throw new HttpError(401, 'IDトークンの対象クライアントが一致しません。');
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SEC < now) throw new HttpError(401, 'IDトークンの有効期限が切れています。');
+  if (typeof claims.iat !== 'number' || claims.iat + ID_TOKEN_MAX_AGE_SEC + CLOCK_SKEW_SEC < now) throw new HttpError(401, 'IDトークンが古すぎます。もう一度ログインしてください。');
+  return claims;
+};
+
+const mapClaimsToIdentity = (claims) => {
+  if (typeof claims.sub !== 'string' || typeof claims.email !== 'string') throw new HttpError(401, 'IDトークンにユーザー情報 (sub, email) がありません。');
+  if (claims.email_verified === false) throw new HttpError(403, 'メールアドレスが確認されていないアカウントです。');
+  if (OIDC.allowedDomains.length > 0 && !OIDC.allowedDomains.includes(String(claims[OIDC.domainClaim] || '').toLowerCase())) {
+    throw new HttpError(403, 'このアカウントの組織はログインを許可されていません。');
+  }
+  const rawRoles = claims[OIDC.roleClaim];
+  const granted = (Array.isArray(rawRoles) ? rawRoles : [rawRoles])
+    .filter(v => typeof v === 'string')
+    .map(v => OIDC.roleMap[v] || (ROLES.includes(v) ? v : undefined));
+  const email = normalizeEmail(claims.email);
+  return {
+    subject: claims.sub,
+    email,
+    name: typeof claims.name === 'string' && claims.name ? claims.name : email,
+    role: ROLES.find(r => granted.includes(r)) || 'member',
+  };
+};
+
+// Account rules as in the local store (services/auth.ts): only SSO-created accounts follow the role claim,
+// the last admin is never demoted, and the first account becomes admin
+const signInWithIdentity = async (identity) => {
+  const accounts = readAccounts();
+  const bySubject = accounts.find(a => a.oidcSubject === identity.subject);
+  const byEmail = accounts.find(a => a.email === identity.email);
+  if (!bySubject && byEmail?.oidcSubject) throw new HttpError(409, 'このメールアドレスは別のSSOアカウントに紐づいています。管理者に連絡してください。');
+  const existing = bySubject || byEmail;
+  if (existing?.disabled) throw new HttpError(403, 'このアカウントは無効化されています。管理者に連絡してください。');
+  if (!existing) {
+    // Nobody knows the random password; an admin can set a real one later
+    const created = {
+      ...(await createAccount({ ...identity, role: accounts.length === 0 ? 'admin' : identity.role }, crypto.randomBytes(32).toString('base64'))),
+      oidcSubject: identity.subject,
+      ssoManaged: true,
+    };
+    writeAccounts([...accounts, created]);
+    return startSession(created.id);
+  }
+  let signedIn = { ...existing, email: identity.email, name: identity.name, oidcSubject: identity.subject };
+  if (existing.ssoManaged) {
+    const withClaimedRole = { ...signedIn, role: identity.role };
+    if (hasActiveAdmin(accounts.map(a => a.id === existing.id ? withClaimedRole : a))) signedIn = withClaimedRole;
+  }
+  writeAccounts(accounts.map(a => a.id === signedIn.id ? signedIn : a));
+  return startSession(signedIn.id);
+};
+
+const handleAuth = async (req, res, action) => {
+  if (req.method === 'GET' && action === 'status') return send(res, 200, { needsSetup: readAccounts().length === 0 });
+  if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed');
+  const body = (await readBody(req)) || {};
+
+  if (action === 'setup') {
+    if (readAccounts().length > 0) throw new HttpError(409, '初期管理者は既に登録されています。');
+    validateAccountInput({ ...body, role: 'admin' });
+    validatePassword(body.password);
+    const admin = await createAccount({ email: body.email, name: body.name, role: 'admin' }, body.password);
+    writeAccounts([admin]);
+    return send(res, 200, startSession(admin.id));
+  }
+  if (action === 'login') {
+    const target = readAccounts().find(a => a.email === normalizeEmail(body.email));
+    // Same answer for unknown email and wrong password
+    if (!target || !(await verifyPassword(target, body.password))) throw new HttpError(401, 'メールアドレスまたはパスワードが正しくありません。');
+    if (target.disabled) throw new HttpError(403, 'このアカウントは無効化されています。管理者に連絡してください。');
+    return send(res, 200, startSession(target.id));
+  }
+  if (action === 'oidc') {
+    if (!OIDC) throw new HttpError(404, 'データサーバーでシングルサインオンが設定されていません。');
+    const identity = mapClaimsToIdentity(await verifyIdToken(body.idToken));
+    return send(res, 200, await signInWithIdentity(identity));
+  }
+  if (action === 'logout') {
+    sessions.delete(getToken(req));
+    return send(res, 204);
+  }
+  throw new HttpError(404, 'Not found');
+};
+
+const handleUsers = async (req, res, id, sub) => {
+  if (!id) {
+    if (req.method === 'GET') {
+      const account = authenticate(req);
+      const visible = account.role === 'admin' ? readAccounts() : [account];
+      return send(res, 200, visible.map(toAuthUser));
+    }
+    if (req.method === 'POST') {
+      requireAdmin(req);
+      const body = (await readBody(req)) || {};
+      validateAccountInput(body);
+      validatePassword(body.password);
+      const accounts = readAccounts();
+      if (accounts.some(a => a.email === normalizeEmail(body.email))) throw new HttpError(409, 'このメールアドレスは既に登録されています。');
+      const created = await createAccount(body, body.password);
+      writeAccounts([...accounts, created]);
+      return send(res, 201, toAuthUser(created));
+    }
+    throw new HttpError(405, 'Method not allowed');
+  }
+
+  if (sub === 'password' && req.method === 'PUT') {
+    const account = authenticate(req);
+    const body = (await readBody(req)) || {};
+    const accounts = readAccounts();
+    const target = accounts.find(a => a.id === id);
+    if (!target) throw new HttpError(404, 'アカウントが見つかりません。');
+    const isOwnChange = account.id === id && body.currentPassword !== undefined;
+    if (isOwnChange) {
+      if (!(await verifyPassword(target, body.currentPassword))) throw new HttpError(403, '現在のパスワードが正しくありません。');
+    } else if (account.role !== 'admin') {
+      throw new HttpError(403, 'ユーザー管理の権限がありません。');
+    }
+    validatePassword(body.password);
+    const credentials = await hashPassword(body.password);
+    writeAccounts(accounts.map(a => a.id === id ? { ...a, ...credentials } : a));
+    return send(res, 204);
+  }
+  if (sub) throw new HttpError(404, 'Not found');
+
+  const admin = requireAdmin(req);
+  const accounts = readAccounts();
+  if (!accounts.some(a => a.id === id)) throw new HttpError(404, 'アカウントが見つかりません。');
+  if (req.method === 'PATCH') {
+    const body = (await readBody(req)) || {};
+    validateAccountInput(body);
+    const email = normalizeEmail(body.email);
+    if (accounts.some(a => a.id !== id && a.email === email)) throw new HttpError(409, 'このメールアドレスは既に登録されています。');
+    // Only profile fields; credentials and the SSO link are never taken from the request
+    writeAccountsKeepingAdmin(accounts.map(a => a.id === id ? {
+      ...a,
+      email,
+      name: String(body.name).trim(),
+      role: body.role,
+      employeeId: body.employeeId || undefined,
+      disabled: !!body.disabled || undefined,
+    } : a));
+    return send(res, 204);
+  }
+  if (req.method === 'DELETE') {
+    if (id === admin.id) throw new HttpError(409, 'ログイン中のアカウントは削除できません。');
+    writeAccountsKeepingAdmin(accounts.filter(a => a.id !== id));
+    return send(res, 204);
+  }
+  throw new HttpError(405, 'Method not allowed');
+};
+
+// --- Dataset ---
+
+// Employee whose timesheet a member fills in (services/auth.ts findLinkedEmployee)
+const findLinkedEmployeeId = (account, employees) => {
+  if (account.employeeId) return account.employeeId;
+  return employees.find(e => !e.isArchived && e.email && normalizeEmail(e.email) === account.email)?.id;
+};
+
+// Members get no cost figures (services/permissions.ts employee:viewCost): employee costs are zeroed, and audit
+// entries lose the changes that would show them
+const isCostField = (field) => field === 'defaultMonthlyCost' || field === 'monthlyData' || field.startsWith('monthlyData.');
+
+const redactForMember = (data) => ({
+  ...data,
+  employees: (data.employees || []).map(e => ({
+    ...e,
+    defaultMonthlyCost: 0,
+    monthlyData: Object.fromEntries(Object.entries(e.monthlyData || {}).map(([month, { cost, ...rest }]) => [month, rest])),
+  })),
+  auditLog: (data.auditLog || []).map(entry => entry.entityType === 'employee'
+    ? { ...entry, changes: entry.changes.filter(c => !isCostField(c.field)) }
+    : entry),
+});
+
+// Mirrors services/permissions.ts: members only write their own work logs, so they cannot write the employee costs
+// they never receive. The audit trail is append-only for everyone.
+const authorizeChangeSet = (account, current, changeSet) => {
+  const audit = changeSet.collections?.auditLog;
+  if (audit && audit.deletes.length > 0) throw new HttpError(403, '監査ログは削除できません。');
+  if (account.role !== 'member') return changeSet;
+
+  const touched = Object.keys(changeSet.collections || {}).filter(name => !['workLogs', 'auditLog'].includes(name));
+  if (touched.length > 0) throw new HttpError(403, 'この操作を行う権限がありません。');
+  const workLogs = changeSet.collections?.workLogs;
+  if (workLogs) {
+    const linkedId = findLinkedEmployeeId(account, current.employees || []);
+    const currentLogs = new Map((current.workLogs || []).map(log => [log.id, log]));
+    const isOwn = (log) => !!linkedId && log?.employeeId === linkedId;
+    if (!workLogs.upserts.every(log => isOwn(log) && (!currentLogs.has(log.id) || isOwn(currentLogs.get(log.id))))
+      || !workLogs.deletes.every(id => isOwn(currentLogs.get(id)))) {
+      throw new HttpError(403, '自分以外の稼働実績は変更できません。');
+    }
+  }
+  // The app merges defaults into the settings it loaded, so an unchanged copy may arrive; members never change them
+  const { settings, ...rest } = changeSet;
+  return rest;
+};
+
+const validateChangeSet = (changeSet) => {
+  const valid = changeSet && changeSet.schemaVersion && Object.entries(changeSet.collections || {})
+    .every(([name, changes]) => COLLECTIONS.includes(name) && Array.isArray(changes?.upserts) && Array.isArray(changes?.deletes));
+  if (!valid) throw new HttpError(400, 'Invalid change set');
+};
+
+// New audit entries carry the signed-in user and the server's time; whatever the client sent for them is ignored
+const stampAuditEntries = (account, changeSet) => {
+  const audit = changeSet.collections?.auditLog;
+  if (!audit) return changeSet;
+  const timestamp = new Date().toISOString();
+  const upserts = audit.upserts.map(entry => ({ ...entry, userEmail: account.email, timestamp }));
+  return { ...changeSet, collections: { ...changeSet.collections, auditLog: { ...audit, upserts } } };
+};
+
+const applyChangeSet = (current, changeSet) => {
+  const next = { ...current, schemaVersion: changeSet.schemaVersion };
+  COLLECTIONS.forEach(name => {
+    const changes = changeSet.collections?.[name];
+    if (!changes) return;
+    const byId = new Map((current[name] || []).map(item => [item.id, item]));
+    changes.deletes.forEach(id => byId.delete(id));
+    // Stored audit entries are never rewritten, only new ones are added
+    changes.upserts.forEach(item => {
+      if (name !== 'auditLog' || !byId.has(item.id)) byId.set(item.id, item);
+    });
+    next[name] = Array.from(byId.values());
+  });
+  if (changeSet.settings) next.settings = changeSet.settings;
+  if (changeSet.currentTerm !== undefined) next.currentTerm = changeSet.currentTerm;
+  return next;
+};
+
+// Accounts still linked to a deleted employee fall back to the email match. The app relinks them itself when the
+// user deleting the employee manages accounts; this covers the others, who cannot see every account.
+const unlinkDeletedEmployees = (employeeIds) => {
+  if (employeeIds.length === 0) return;
+  const accounts = readAccounts();
+  if (!accounts.some(a => employeeIds.includes(a.employeeId))) return;
+  writeAccounts(accounts.map(a => employeeIds.includes(a.employeeId) ? { ...a, employeeId: undefined } : a));
+};
+
+const handleData = async (req, res) => {
+  const account = authenticate(req);
+  if (req.method === 'GET') {
+    const data = readDataset();
+    if (!data) return send(res, 404, { error: 'No data' });
+    return send(res, 200, account.role === 'member' ? redactForMember(data) : data);
+  }
+  if (req.method === 'PUT') {
+    // A full replace drops whatever is stored, so only the first upload or an admin may do it
+    if (readDataset() && account.role !== 'admin') throw new HttpError(403, 'この操作を行う権限がありません。');
+    const data = await readBody(req);
+    if (!data || !data.schemaVersion) throw new HttpError(400, 'schemaVersion is required');
+    writeDataset(data);
+    return send(res, 204);
+  }
+  if (req.method === 'PATCH') {
+    const changeSet = await readBody(req);
+    validateChangeSet(changeSet);
+    const current = readDataset();
+    if (!current) throw new HttpError(409, 'Dataset not initialized');
+    writeDataset(applyChangeSet(current, stampAuditEntries(account, authorizeChangeSet(account, current, changeSet))));
+    unlinkDeletedEmployees(changeSet.collections?.employees?.deletes || []);
+    return send(res, 204);
+  }
+  throw new HttpError(405, 'Method not allowed');
+};
+
+const server = http.createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  try {
+    const [, api, resource, id, sub] = pathname.split('/').map(decodeURIComponent);
+    if (api !== 'api') throw new HttpError(404, 'Not found');
+    if (resource === 'auth') return await handleAuth(req, res, id);
+    if (resource === 'users') return await handleUsers(req, res, id, sub);
+    if (resource === 'data' && !id) return await handleData(req, res);
+    throw new HttpError(404, 'Not found');
+  } catch (e) {
+    if (e instanceof HttpError) return send(res, e.status, { error: e.message });
+    console.error(e);
+    return send(res, 500, { error: 'Internal server error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Data server listening on http://localhost:${PORT} (file: ${DATA_FILE})`);
+  if (!ALLOWED_ORIGIN) console.log('ALLOWED_ORIGIN is not set: browsers on other origins cannot call this server');
+});
@@ -0,0 +1,182 @@
+// Local OpenID Connect provider for development and offline testing of SSO sign-in (services/oidc.ts).
+// Instead of a password prompt it lists test users to pick from. Never expose it outside localhost.
+//
+//   PORT=3200 node server/mock-idp.mjs
+//   .env.local: OIDC_ISSUER=http://localhost:3200  OIDC_CLIENT_ID=irwin-local  OIDC_ALLOWED_DOMAINS=irwin-and-co.com
+//
+// MOCK_IDP_USERS may point to a JSON file of users: [{ sub, email, name, hd, roles }].
+// The signing key is generated at startup, so tokens from a previous run no longer verify.
+//
+// Endpoints:
+//   GET  /.well-known/openid-configuration
+//   GET  /jwks
+//   GET  /authorize        -> user picker; redirects back with ?code&state
+//   POST /token            -> authorization_code grant with PKCE (S256), returns an RS256 id_token
+import http from 'node:http';
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 3200);
+const ISSUER = (process.env.ISSUER || `http://localhost:${PORT}`).replace(/\/$/, '');
+const TOKEN_TTL_SEC = 3600;
+const CODE_TTL_MS = 60 * 1000;
+
+const DEFAULT_USERS = [
+  { sub: 'mock-admin', email: 'admin@irwin-and-co.com', name: '管理 太郎', hd: 'irwin-and-co.com', roles: ['admin'] },
+  { sub: 'mock-manager', email: 'manager@irwin-and-co.com', name: '部長 花子', hd: 'irwin-and-co.com', roles: ['manager'] },
+  { sub: 'mock-member', email: 'member@irwin-and-co.com', name: '社員 一郎', hd: 'irwin-and-co.com', roles: ['member'] },
+  { sub: 'mock-outsider', email: 'guest@example.com', name: '外部 ゲスト', hd: 'example.com', roles: ['admin'] },
+];
+const USERS = process.env.MOCK_IDP_USERS ? JSON.parse(fs.readFileSync(process.env.MOCK_IDP_USERS, 'utf8')) : DEFAULT_USERS;
+
+const KEY_ID = crypto.randomUUID();
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const JWKS = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] };
+
+// Issued authorization codes: code -> { clientId, redirectUri, codeChallenge, nonce, user, expiresAt }
+const codes = new Map();
+
+const base64Url = (value) => Buffer.from(value).toString('base64url');
+
+const signJwt = (claims) => {
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64Url(JSON.stringify(claims));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+const escapeHtml = (value) => String(value).replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Cache-Control': 'no-store',
+    ...headers,
+  });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+const readForm = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(new URLSearchParams(body)));
+  req.on('error', reject);
+});
+
+const handleAuthorize = (url, res) => {
+  const params = url.searchParams;
+  const redirectUri = params.get('redirect_uri');
+  if (params.get('response_type') !== 'code' || !params.get('client_id') || !redirectUri) {
+    return send(res, 400, { error: 'invalid_request', error_description: 'response_type=code, client_id and redirect_uri are required' });
+  }
+  if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+    return send(res, 400, { error: 'invalid_request', error_description: 'PKCE with S256 is required' });
+  }
+
+  const userId = params.get('user');
+  if (!userId) {
+    // User picker: each entry repeats the request with the chosen user
+    const links = USERS.map(u => {
+      const next = new URLSearchParams(params);
+      next.set('user', u.sub);
+      return `<li><a href="/authorize?${escapeHtml(next)}">${escapeHtml(u.name)}</a> &lt;${escapeHtml(u.email)}&gt; ${escapeHtml(u.hd || '')} [${escapeHtml((u.roles || []).join(', '))}]</li>`;
+    }).join('');
+    const html = `<!doctype html><meta charset="utf-8"><title>Mock IdP</title>
+<body style="font-family:sans-serif;max-width:640px;margin:40px auto">
+<h1>Mock IdP</h1><p>Sign in to <b>${escapeHtml(params.get('client_id'))}</b> as:</p><ul>${links}</ul></body>`;
+    return send(res, 200, html, { 'Content-Type': 'text/html; charset=utf-8' });
+  }
+
+  const user = USERS.find(u => u.sub === userId);
+  if (!user) return send(res, 400, { error: 'invalid_request', error_description: 'Unknown user' });
+  const code = crypto.randomBytes(32).toString('base64url');
+  codes.set(code, {
+    clientId: params.get('client_id'),
+    redirectUri,
+    codeChallenge: params.get('code_challenge'),
+    nonce: params.get('nonce'),
+    user,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+  const location = new URL(redirectUri);
+  location.searchParams.set('code', code);
+  if (params.get('state')) location.searchParams.set('state', params.get('state'));
+  res.writeHead(302, { Location: location.toString() });
+  res.end();
+};
+
+const handleToken = async (req, res) => {
+  const form = await readForm(req);
+  if (form.get('grant_type') !== 'authorization_code') return send(res, 400, { error: 'unsupported_grant_type' });
+
+  // Codes are single use, whatever the outcome
+  const code = form.get('code');
+  const issued = codes.get(code);
+  codes.delete(code);
+  if (!issued || issued.expiresAt < Date.now()) return send(res, 400, { error: 'invalid_grant', error_description: 'Unknown or expired code' });
+  if (form.get('client_id') !== issued.clientId || form.get('redirect_uri') !== issued.redirectUri) {
+    return send(res, 400, { error: 'invalid_grant', error_description: 'client_id or redirect_uri mismatch' });
+  }
+  const challenge = crypto.createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+  if (challenge !== issued.codeChallenge) return send(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+
+  const now = Math.floor(Date.now() / 1000);
+  const { sub, email, name, hd, roles } = issued.user;
+  const idToken = signJwt({
+    iss: ISSUER,
+    sub,
+    aud: issued.clientId,
+    iat: now,
+    exp: now + TOKEN_TTL_SEC,
+    auth_time: now,
+    nonce: issued.nonce || undefined,
+    email,
+    email_verified: true,
+    name,
+    hd,
+    roles,
+  });
+  return send(res, 200, {
+    access_token: crypto.randomBytes(32).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL_SEC,
+    id_token: idToken,
+  });
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204, '');
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return send(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        scopes_supported: ['openid', 'email', 'profile'],
+        claims_supported: ['sub', 'email', 'email_verified', 'name', 'hd', 'roles'],
+      });
+    }
+    if (req.method === 'GET' && url.pathname === '/jwks') return send(res, 200, JWKS);
+    if (req.method === 'GET' && url.pathname === '/authorize') return handleAuthorize(url, res);
+    if (req.method === 'POST' && url.pathname === '/token') return await handleToken(req, res);
+    return send(res, 404, { error: 'Not found' });
+  } catch (e) {
+    console.error(e);
+    return send(res, 500, { error: 'server_error', error_description: String(e.message || e) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock IdP listening on ${ISSUER} (${USERS.length} test users)`);
+});
@@ -0,0 +1,211 @@
+import { AuditEntityType, AuditEntry, AuditFieldChange, DataSnapshot } from '../types';
+import { generateId } from '../utils';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  project: '案件',
+  employee: '従業員',
+  invoice: '請求書',
+  cashFlowItem: 'CF項目',
+  salesTarget: '売上目標',
+  settings: '設定',
+};
+
+// Display names for frequently tracked fields. Anything else is shown by its field path.
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  clientName: 'クライアント名',
+  projectName: '案件名',
+  projectType: '案件タイプ',
+  status: 'ステータス',
+  leadSourceCategory: 'リード獲得経路',
+  leadSourceDetail: 'リード詳細',
+  useFlow: 'フロー有効',
+  useStock: 'ストック有効',
+  useTimeCharge: 'タイムチャージ有効',
+  currency: '契約通貨',
+  revenueMethod: '売上計上ロジック',
+  prorationMethod: '按分方法',
+  completionBasis: '進捗の測定基準',
+  completionEstimates: '見積総原価',
+  stockEndDate: '契約終了日',
+  stockRenewalMonths: '自動更新期間',
+  stockNoticeMonths: '解約予告期間',
+  stockCancellation: '解約',
+  flowAmount: '契約総額',
+  flowStartDate: 'フロー開始日',
+  flowEndDate: 'フロー終了日',
+  stockAmount: '月額単価',
+  stockRateSchedule: '月額改定',
+  stockStartDate: 'ストック開始日',
+  timeChargePrices: 'タイムチャージ金額',
+  timeChargeRates: 'タイムチャージ単価',
+  timeChargeCap: 'タイムチャージ上限',
+  timeChargeFloor: 'タイムチャージ下限',
+  projectTasks: 'タスク',
+  billingConfig: '請求条件',
+  taxCode: '消費税区分',
+  assignments: 'アサイン',
+  isArchived: 'アーカイブ',
+  name: '名前',
+  contractType: '契約形態',
+  defaultMonthlyCost: '月額コスト',
+  defaultMonthlyHours: '月間稼働時間',
+  email: 'メールアドレス',
+  number: '請求書番号',
+  issueDate: '発行日',
+  dueDate: '支払期限',
+  lines: '明細',
+  notes: '備考',
+  voidReason: '無効理由',
+  category: '区分',
+  amount: '金額',
+  isRecurring: '定期',
+  periodStart: '開始月',
+  periodEnd: '終了月',
+  payDay: '支払日',
+  paymentDate: '支払日',
+  shift: '休日の扱い',
+  targetLaborShareMin: '労働分配率目標 (下限)',
+  targetLaborShareMax: '労働分配率目標 (上限)',
+  monthlySalesTarget: '月次売上目標',
+  initialCashBalance: '期首現預金残高',
+  cashBalanceAsOf: '残高基準月',
+  fxRates: '為替レート',
+  invoiceIssuer: '請求書発行者情報',
+  receivablesFrom: '入金消込の開始月',
+  receipts: '入金',
+  closedDays: '休業日',
+  taxRates: '消費税率',
+  consumptionTax: '消費税の納付予測',
+  fiscalYearEndMonth: '決算月',
+  firstTermStartDate: '創業期開始日',
+};
+
+export const getAuditFieldLabel = (field: string) => {
+  const [head, ...rest] = field.split('.');
+  const label = AUDIT_FIELD_LABELS[head];
+  if (!label) return field;
+  return rest.length > 0 ? `${label} (${rest.join('.')})` : label;
+};
+
+interface AuditContext {
+  userEmail: string;
+  description: string;
+  timestamp: string;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Field-level diff. Nested objects are walked into (billingConfig.flowSplit, monthlyData.2025-01.cost);
+// arrays are compared and recorded as whole values.
+export const diffFields = (before: unknown, after: unknown, prefix = ''): AuditFieldChange[] => {
+  const b = isPlainObject(before) ? before : {};
+  const a = isPlainObject(after) ? after : {};
+  const keys = Array.from(new Set([...Object.keys(b), ...Object.keys(a)]));
+  const changes: AuditFieldChange[] = [];
+
+  keys.forEach(key => {
+    const field = prefix ? `${prefix}.${key}` : key;
+    const prevValue = b[key];
+    const nextValue = a[key];
+    if (prevValue === nextValue) return;
+    if (isPlainObject(prevValue) && isPlainObject(nextValue)) {
+      changes.push(...diffFields(prevValue, nextValue, field));
+      return;
+    }
+    if (JSON.stringify(prevValue) === JSON.stringify(nextValue)) return;
+    changes.push({ field, before: prevValue ?? null, after: nextValue ?? null });
+  });
+  return changes;
+};
+
+const createEntry = (
+  ctx: AuditContext,
+  entityType: AuditEntityType,
+  entityId: string,
+  entityName: string,
+  action: AuditEntry['action'],
+  changes: AuditFieldChange[]
+): AuditEntry => ({
+  id: generateId(),
+  timestamp: ctx.timestamp,
+  userEmail: ctx.userEmail,
+  entityType,
+  entityId,
+  entityName,
+  action,
+  changes,
+  description: ctx.description,
+});
+
+const diffEntities = <T extends { id: string }>(
+  ctx: AuditContext,
+  entityType: AuditEntityType,
+  before: T[],
+  after: T[],
+  getName: (item: T) => string
+): AuditEntry[] => {
+  if (before === after) return [];
+  const beforeMap = new Map(before.map(item => [item.id, item]));
+  const afterIds = new Set(after.map(item => item.id));
+  const entries: AuditEntry[] = [];
+
+  after.forEach(item => {
+    const prev = beforeMap.get(item.id);
+    if (prev === item) return;
+    if (!prev) {
+      entries.push(createEntry(ctx, entityType, item.id, getName(item), 'create', diffFields({}, item)));
+      return;
+    }
+    const changes = diffFields(prev, item);
+    if (changes.length > 0) entries.push(createEntry(ctx, entityType, item.id, getName(item), 'update', changes));
+  });
+  before.forEach(item => {
+    if (!afterIds.has(item.id)) {
+      entries.push(createEntry(ctx, entityType, item.id, getName(item), 'delete', diffFields(item, {})));
+    }
+  });
+  return entries;
+};
+
+// Build audit entries for everything that differs between two snapshots.
+// Work logs are not audited: they are high-volume actuals and are visible in the grid itself.
+export const buildAuditEntries = (before: DataSnapshot, after: DataSnapshot, ctx: AuditContext): AuditEntry[] => {
+  const entries: AuditEntry[] = [
+    ...diffEntities(ctx, 'project', before.projects, after.projects, p => p.projectName || p.clientName),
+    ...diffEntities(ctx, 'employee', before.employees, after.employees, e => e.name),
+    ...diffEntities(ctx, 'invoice', before.invoices, after.invoices, inv => inv.number || `下書き (${inv.clientName})`),
+  ];
+  if (before.settings === after.settings) return entries;
+
+  const { cashFlowItems: prevItems = [], salesTargets: prevTargets = {}, ...prevSettings } = before.settings;
+  const { cashFlowItems: nextItems = [], salesTargets: nextTargets = {}, ...nextSettings } = after.settings;
+
+  entries.push(...diffEntities(ctx, 'cashFlowItem', prevItems, nextItems, item => item.name));
+
+  // Sales targets are keyed by month (YYYY-MM); each month is tracked as its own entity.
+  // A missing target and 0 are the same for reporting, so saving the target modal with blanks is not a change.
+  const targetKeys = Array.from(new Set([...Object.keys(prevTargets), ...Object.keys(nextTargets)]));
+  targetKeys.forEach(key => {
+    const prev = prevTargets[key];
+    const next = nextTargets[key];
+    if ((prev || 0) === (next || 0)) return;
+    const action = prev === undefined ? 'create' : next === undefined ? 'delete' : 'update';
+    entries.push(createEntry(ctx, 'salesTarget', key, key, action, [{ field: 'amount', before: prev ?? null, after: next ?? null }]));
+  });
+
+  const settingsChanges = diffFields(prevSettings, nextSettings);
+  if (settingsChanges.length > 0) {
+    entries.push(createEntry(ctx, 'settings', 'settings', AUDIT_ENTITY_LABELS.settings, 'update', settingsChanges));
+  }
+  return entries;
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'boolean') return value ? 'ON' : 'OFF';
+  if (typeof value === 'string') return value;
+  const json = JSON.stringify(value);
+  return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+};
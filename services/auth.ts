@@ -0,0 +1,294 @@
+import { AuthSession, AuthUser, Employee, UserAccount, UserRole } from '../types';
+import { generateId } from '../utils';
+import { StorageBackend } from './storage';
+import { OidcIdentity } from './oidc';
+
+// User accounts and password verification.
+// Accounts are kept apart from the business dataset so that backups and exports never carry credentials.
+
+const PBKDF2_ITERATIONS = 210000;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+export const hashPassword = async (password: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return { passwordHash: toBase64(hash), passwordSalt: toBase64(salt), passwordIterations: PBKDF2_ITERATIONS };
+};
+
+export const verifyPassword = async (account: UserAccount, password: string) => {
+  const hash = await derive(password, fromBase64(account.passwordSalt), account.passwordIterations);
+  const expected = fromBase64(account.passwordHash);
+  // Compare every byte so the time taken does not reveal how much matched
+  let diff = hash.length ^ expected.length;
+  for (let i = 0; i < Math.min(hash.length, expected.length); i++) diff |= hash[i] ^ expected[i];
+  return diff === 0;
+};
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export interface AccountInput {
+  email: string;
+  name: string;
+  role: UserRole;
+  employeeId?: string;
+}
+
+export const toAuthUser = ({ passwordHash, passwordSalt, passwordIterations, ...user }: UserAccount): AuthUser => user;
+
+export const createAccount = async (input: AccountInput, password: string): Promise<UserAccount> => ({
+  id: generateId(),
+  email: normalizeEmail(input.email),
+  name: input.name,
+  role: input.role,
+  employeeId: input.employeeId || undefined,
+  ...(await hashPassword(password)),
+  createdAt: new Date().toISOString(),
+});
+
+// Accounts created by single sign-on get a random password nobody knows; an admin can set a real one later
+export const createSsoAccount = async (identity: { subject: string, email: string, name: string, role: UserRole }): Promise<UserAccount> => ({
+  ...(await createAccount(identity, toBase64(crypto.getRandomValues(new Uint8Array(32))))),
+  oidcSubject: identity.subject,
+  ssoManaged: true,
+});
+
+export const validatePassword = (password: string): string | null =>
+  password.length < MIN_PASSWORD_LENGTH ? `パスワードは${MIN_PASSWORD_LENGTH}文字以上で入力してください。` : null;
+
+// Employee whose timesheet the user fills in: the explicit link, else the active employee with the same email
+export const findLinkedEmployee = (user: AuthUser | null, employees: Employee[]): Employee | undefined => {
+  if (!user) return undefined;
+  if (user.employeeId) return employees.find(e => e.id === user.employeeId);
+  return employees.find(e => !e.isArchived && !!e.email && normalizeEmail(e.email) === user.email);
+};
+
+// At least one enabled admin must remain, otherwise nobody can manage accounts
+export const hasActiveAdmin = (accounts: UserAccount[]) => accounts.some(a => a.role === 'admin' && !a.disabled);
+
+// --- Sessions ---
+
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;  // Absolute lifetime of a sign-in
+export const IDLE_TIMEOUT_MS = 15 * 60 * 1000;      // No activity for this long locks the UI
+export const REAUTH_WINDOW_MS = 5 * 60 * 1000;      // Sensitive screens need a password entry within this window
+
+const SESSION_KEY = 'irwin_auth_session';
+
+const createToken = () => toBase64(crypto.getRandomValues(new Uint8Array(32)));
+
+export const createSession = (accountId: string, token: string, now = Date.now()): AuthSession => ({
+  token,
+  accountId,
+  issuedAt: now,
+  expiresAt: now + SESSION_TTL_MS,
+  authenticatedAt: now,
+  lastActiveAt: now,
+});
+
+// Sessions from before tokens (a bare account id) do not parse and require a new sign-in
+export const loadSession = (): AuthSession | null => {
+  try {
+    const session = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    return session && typeof session.token === 'string' && typeof session.expiresAt === 'number' ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSession = (session: AuthSession | null) => {
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+};
+
+// The data server (server/data-server.mjs) authenticates every request with the session token
+export const getSessionHeaders = (): Record<string, string> => {
+  const session = loadSession();
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+};
+
+// Expired or idle sessions keep the user signed in but locked, so unsaved screens survive a re-login
+export const isSessionLocked = (session: AuthSession, now = Date.now()) =>
+  now >= session.expiresAt || now - session.lastActiveAt >= IDLE_TIMEOUT_MS;
+
+// --- Account stores ---
+
+// A sign-in the store accepted: the account and the token of its new session
+export interface SignInResult {
+  accountId: string;
+  token: string;
+}
+
+// Account operations. Refusals throw an Error with a user-facing message.
+export interface AccountStore {
+  // Accounts the current session may see, without credentials. `needsSetup`: no account exists yet.
+  load: () => Promise<{ accounts: AuthUser[], needsSetup: boolean }>;
+  // Resolves to null for an unknown email or a wrong password
+  signIn: (email: string, password: string) => Promise<SignInResult | null>;
+  signInWithIdentity: (identity: OidcIdentity) => Promise<SignInResult>;
+  setupAdmin: (input: Omit<AccountInput, 'role' | 'employeeId'>, password: string) => Promise<SignInResult>;
+  signOut: (token: string) => Promise<void>;
+  addAccount: (input: AccountInput, password: string) => Promise<void>;
+  updateAccount: (user: AuthUser) => Promise<void>;
+  // Without `currentPassword` this is an admin reset; with it, the user's own change
+  setPassword: (id: string, password: string, currentPassword?: string) => Promise<void>;
+  deleteAccount: (id: string) => Promise<void>;
+}
+
+const ACCOUNTS_KEY = 'irwin_users';
+const DISABLED_ACCOUNT_MESSAGE = 'このアカウントは無効化されています。管理者に連絡してください。';
+const DUPLICATE_EMAIL_MESSAGE = 'このメールアドレスは既に登録されています。';
+const LAST_ADMIN_MESSAGE = '有効な管理者が1人以上必要です。';
+
+// Browser-only accounts for the local backends. The browser holds the whole dataset anyway, so the checks here
+// are the same as on the data server but guard nothing beyond the UI.
+export const createLocalAccountStore = (): AccountStore => {
+  const read = (): UserAccount[] => JSON.parse(localStorage.getItem(ACCOUNTS_KEY) || '[]');
+  const write = (accounts: UserAccount[]) => localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+  const writeKeepingAdmin = (accounts: UserAccount[]) => {
+    if (!hasActiveAdmin(accounts)) throw new Error(LAST_ADMIN_MESSAGE);
+    write(accounts);
+  };
+
+  return {
+    load: async () => {
+      const accounts = read();
+      return { accounts: accounts.map(toAuthUser), needsSetup: accounts.length === 0 };
+    },
+    signIn: async (email, password) => {
+      const target = read().find(a => a.email === normalizeEmail(email));
+      if (!target || !(await verifyPassword(target, password))) return null;
+      if (target.disabled) throw new Error(DISABLED_ACCOUNT_MESSAGE);
+      return { accountId: target.id, token: createToken() };
+    },
+    // Name and email are refreshed from the provider's claims on every SSO sign-in. The role follows the claims only for
+    // accounts SSO created; a local account linked by email keeps the role an admin gave it.
+    signInWithIdentity: async (identity) => {
+      const accounts = read();
+      const bySubject = accounts.find(a => a.oidcSubject === identity.subject);
+      const byEmail = accounts.find(a => a.email === identity.email);
+      if (!bySubject && byEmail?.oidcSubject) throw new Error('このメールアドレスは別のSSOアカウントに紐づいています。管理者に連絡してください。');
+      const existing = bySubject || byEmail;
+      if (existing?.disabled) throw new Error(DISABLED_ACCOUNT_MESSAGE);
+      if (!existing) {
+        // The very first account administers the app, as with the initial admin of a password setup
+        const created = await createSsoAccount({ ...identity, role: accounts.length === 0 ? 'admin' : identity.role });
+        write([...accounts, created]);
+        return { accountId: created.id, token: createToken() };
+      }
+      let signedIn: UserAccount = { ...existing, email: identity.email, name: identity.name, oidcSubject: identity.subject };
+      if (existing.ssoManaged) {
+        const withClaimedRole = { ...signedIn, role: identity.role };
+        // A claim change must not take away the last admin; the stored role stays until another admin exists
+        if (hasActiveAdmin(accounts.map(a => a.id === existing.id ? withClaimedRole : a))) signedIn = withClaimedRole;
+      }
+      write(accounts.map(a => a.id === signedIn.id ? signedIn : a));
+      return { accountId: signedIn.id, token: createToken() };
+    },
+    setupAdmin: async (input, password) => {
+      if (read().length > 0) throw new Error('初期管理者は既に登録されています。');
+      const admin = await createAccount({ ...input, role: 'admin' }, password);
+      write([admin]);
+      return { accountId: admin.id, token: createToken() };
+    },
+    signOut: async () => {},
+    addAccount: async (input, password) => {
+      const accounts = read();
+      if (accounts.some(a => a.email === normalizeEmail(input.email))) throw new Error(DUPLICATE_EMAIL_MESSAGE);
+      write([...accounts, await createAccount(input, password)]);
+    },
+    updateAccount: async (updated) => {
+      const accounts = read();
+      const email = normalizeEmail(updated.email);
+      if (accounts.some(a => a.id !== updated.id && a.email === email)) throw new Error(DUPLICATE_EMAIL_MESSAGE);
+      writeKeepingAdmin(accounts.map(a => a.id === updated.id ? { ...a, ...updated, email } : a));
+    },
+    setPassword: async (id, password, currentPassword) => {
+      const accounts = read();
+      const target = accounts.find(a => a.id === id);
+      if (!target) throw new Error('アカウントが見つかりません。');
+      if (currentPassword !== undefined && !(await verifyPassword(target, currentPassword))) throw new Error('現在のパスワードが正しくありません。');
+      const credentials = await hashPassword(password);
+      write(accounts.map(a => a.id === id ? { ...a, ...credentials } : a));
+    },
+    deleteAccount: async (id) => {
+      writeKeepingAdmin(read().filter(a => a.id !== id));
+    },
+  };
+};
+
+// Shared accounts on the data server (server/data-server.mjs), so the whole team signs in against one list.
+// The server checks passwords and permissions; credentials never reach the browser.
+export const createHttpAccountStore = (baseUrl: string): AccountStore => {
+  const base = baseUrl.replace(/\/$/, '');
+
+  const send = async (method: string, path: string, body?: unknown) => {
+    const res = await fetch(`${base}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...getSessionHeaders() },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const payload = res.status === 204 ? null : await res.json().catch(() => null);
+    return { res, payload };
+  };
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const { res, payload } = await send(method, path, body);
+    if (!res.ok) throw new Error(payload?.error || `ユーザー情報の通信に失敗しました (${res.status})`);
+    return payload;
+  };
+
+  return {
+    load: async () => {
+      const { needsSetup } = await request('GET', '/api/auth/status');
+      if (needsSetup || !loadSession()) return { accounts: [], needsSetup };
+      const { res, payload } = await send('GET', '/api/users');
+      // The server no longer knows the session (expired or restarted): sign in again
+      if (res.status === 401) return { accounts: [], needsSetup };
+      if (!res.ok) throw new Error(payload?.error || `ユーザー情報を読み込めません (${res.status})`);
+      return { accounts: payload, needsSetup };
+    },
+    signIn: async (email, password) => {
+      const { res, payload } = await send('POST', '/api/auth/login', { email, password });
+      if (res.status === 401) return null;
+      if (!res.ok) throw new Error(payload?.error || `ログインに失敗しました (${res.status})`);
+      return payload;
+    },
+    // The server verifies the ID token again and applies the same account rules as the local store
+    signInWithIdentity: async (identity) => {
+      if (!identity.idToken) throw new Error('IDトークンがありません。');
+      return request('POST', '/api/auth/oidc', { idToken: identity.idToken });
+    },
+    setupAdmin: async (input, password) => request('POST', '/api/auth/setup', { ...input, password }),
+    signOut: async (token) => {
+      await fetch(`${base}/api/auth/logout`, { method: 'POST', headers: { Authorization: `Bearer ${token}` } });
+    },
+    addAccount: async (input, password) => {
+      await request('POST', '/api/users', { ...input, password });
+    },
+    updateAccount: async ({ email, name, role, employeeId, disabled, id }) => {
+      await request('PATCH', `/api/users/${encodeURIComponent(id)}`, { email, name, role, employeeId: employeeId || null, disabled: !!disabled });
+    },
+    setPassword: async (id, password, currentPassword) => {
+      await request('PUT', `/api/users/${encodeURIComponent(id)}/password`, { password, currentPassword });
+    },
+    deleteAccount: async (id) => {
+      await request('DELETE', `/api/users/${encodeURIComponent(id)}`);
+    },
+  };
+};
+
+export const createAccountStore = (): AccountStore => {
+  const backend = (process.env.STORAGE_BACKEND || 'indexeddb') as StorageBackend;
+  if (backend === 'http' && process.env.DATA_SERVER_URL) {
+    return createHttpAccountStore(process.env.DATA_SERVER_URL);
+  }
+  return createLocalAccountStore();
+};
@@ -0,0 +1,253 @@
+import { AuditEntry, CashFlowItem, ImportMode, Invoice, PersistedData, WorkLog } from '../types';
+import { generateId } from '../utils';
+import { CURRENT_SCHEMA_VERSION, migrateData } from './migrations';
+
+export const BACKUP_FORMAT = 'irwin-management-backup';
+
+// The schema version in which raw payloads had no `schemaVersion` field (last key-versioned format)
+const UNVERSIONED_SCHEMA_VERSION = 11;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO DateTime
+  data: Omit<PersistedData, 'schemaVersion'>;
+}
+
+export interface EntityDiff {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+export interface BackupDiff {
+  employees: EntityDiff;
+  projects: EntityDiff;
+  workLogs: EntityDiff;
+  invoices: EntityDiff;
+  cashFlowItems: EntityDiff;
+  auditLog: EntityDiff;
+  settingsChanged: boolean;
+  currentTermChanged: boolean;
+  // File invoices that are not taken (see planInvoiceMerge), and in replace mode local sent invoices missing from the file
+  invoicesKeptLocal: number;
+  invoicesRejected: string[]; // Numbers already used by another invoice
+}
+
+export const createBackupJson = (data: PersistedData): string => {
+  const { schemaVersion, ...rest } = data;
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: rest,
+  };
+  return JSON.stringify(backup, null, 2);
+};
+
+export const getBackupFileName = (date: Date = new Date()) => {
+  const ymd = `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+  return `irwin-backup-${ymd}.json`;
+};
+
+const assertEntityArray = (value: any, name: string) => {
+  if (!Array.isArray(value)) {
+    throw new Error(`${name} が配列ではありません。`);
+  }
+  value.forEach((item, i) => {
+    if (!item || typeof item !== 'object' || typeof item.id !== 'string') {
+      throw new Error(`${name}[${i}] に id がありません。`);
+    }
+  });
+};
+
+// Parse and validate a backup file, upgrading older exports through the same migration chain as storage.
+// Raw storage payloads (no envelope) are accepted too, so a copied localStorage value can be restored.
+export const parseBackup = (text: string): PersistedData => {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('JSON として読み込めません。ファイルが破損している可能性があります。');
+  }
+  if (!json || typeof json !== 'object') {
+    throw new Error('バックアップファイルの形式が不正です。');
+  }
+
+  let payload: any;
+  let version: number;
+  if (json.format === BACKUP_FORMAT) {
+    payload = json.data;
+    version = Number(json.schemaVersion);
+  } else if (Array.isArray(json.projects) && Array.isArray(json.employees)) {
+    payload = json;
+    version = Number(json.schemaVersion) || UNVERSIONED_SCHEMA_VERSION;
+  } else {
+    throw new Error('このシステムのバックアップファイルではありません。');
+  }
+
+  if (!payload || typeof payload !== 'object' || !Number.isFinite(version)) {
+    throw new Error('バックアップファイルの形式が不正です。');
+  }
+
+  const data = migrateData(payload, version);
+
+  assertEntityArray(data.employees, 'employees');
+  assertEntityArray(data.projects, 'projects');
+  assertEntityArray(data.workLogs, 'workLogs');
+  assertEntityArray(data.invoices, 'invoices');
+  assertEntityArray(data.auditLog, 'auditLog');
+  if (!data.settings || typeof data.settings !== 'object') {
+    throw new Error('settings がありません。');
+  }
+  assertEntityArray(data.settings.cashFlowItems || [], 'settings.cashFlowItems');
+
+  return data;
+};
+
+// Records are matched on `getKey` (default: id); work logs match on their cell (see getWorkLogKey)
+const diffById = <T extends { id: string }>(current: T[], incoming: T[], mode: ImportMode, getKey: (item: T) => string = item => item.id): EntityDiff => {
+  const currentMap = new Map(current.map(item => [getKey(item), item]));
+  const incomingKeys = new Set(incoming.map(getKey));
+  let added = 0;
+  let changed = 0;
+
+  incoming.forEach(item => {
+    const existing = currentMap.get(getKey(item));
+    if (!existing) added++;
+    else if (JSON.stringify({ ...existing, id: item.id }) !== JSON.stringify(item)) changed++;
+  });
+
+  // Merge never removes records; only replace drops those missing from the file
+  const removed = mode === 'replace' ? current.filter(item => !incomingKeys.has(getKey(item))).length : 0;
+  return { added, changed, removed };
+};
+
+// A work log is unique per project, task, employee and week, whatever its id
+const getWorkLogKey = (log: WorkLog) => `${log.projectId}:${log.taskId || ''}:${log.employeeId}:${log.weekStartDate}`;
+
+// Sent (issued or voided) invoices are what the client received, so a merge keeps the local record on id collision.
+// A file invoice whose number is already used by another invoice is rejected: renumbering a sent invoice is not
+// possible, and duplicates would break the max + 1 sequence of getNextInvoiceSequence.
+export const planInvoiceMerge = (current: Invoice[], incoming: Invoice[]) => {
+  const currentMap = new Map(current.map(inv => [inv.id, inv]));
+  const accepted: Invoice[] = [];
+  const rejected: Invoice[] = [];
+  let keptLocal = 0;
+  const isNumberTaken = (inv: Invoice, others: Invoice[]) => inv.sequence !== undefined &&
+    others.some(other => other.id !== inv.id && (other.sequence === inv.sequence || (!!inv.number && other.number === inv.number)));
+
+  incoming.forEach(inv => {
+    const existing = currentMap.get(inv.id);
+    if (existing && existing.status !== 'draft') {
+      if (JSON.stringify(existing) !== JSON.stringify(inv)) keptLocal++;
+    } else if (isNumberTaken(inv, [...current, ...accepted])) {
+      rejected.push(inv);
+    } else {
+      accepted.push(inv);
+    }
+  });
+  return { accepted, rejected, keptLocal };
+};
+
+// Replace takes the file's invoices but cannot drop or change a sent one either: every local sent invoice stays as it
+// is, whether the file lacks it or holds another version, and file invoices are checked against them as in a merge
+const planInvoiceReplace = (current: Invoice[], incoming: Invoice[]) => {
+  const sent = current.filter(inv => inv.status !== 'draft');
+  const plan = planInvoiceMerge(sent, incoming);
+  const incomingIds = new Set(incoming.map(inv => inv.id));
+  return {
+    ...plan,
+    invoices: mergeById(sent, plan.accepted),
+    keptLocal: plan.keptLocal + sent.filter(inv => !incomingIds.has(inv.id)).length,
+  };
+};
+
+const planInvoices = (current: Invoice[], incoming: Invoice[], mode: ImportMode) => {
+  if (mode === 'replace') return planInvoiceReplace(current, incoming);
+  const plan = planInvoiceMerge(current, incoming);
+  return { ...plan, invoices: mergeById(current, plan.accepted) };
+};
+
+export const diffBackup = (current: PersistedData, incoming: PersistedData, mode: ImportMode): BackupDiff => {
+  const { cashFlowItems: currentItems = [], ...currentSettings } = current.settings;
+  const { cashFlowItems: incomingItems = [], ...incomingSettings } = incoming.settings;
+  const invoicePlan = planInvoices(current.invoices, incoming.invoices, mode);
+
+  return {
+    employees: diffById(current.employees, incoming.employees, mode),
+    projects: diffById(current.projects, incoming.projects, mode),
+    workLogs: diffById(current.workLogs, incoming.workLogs, mode, getWorkLogKey),
+    invoices: diffById(current.invoices, mode === 'merge' ? invoicePlan.accepted : invoicePlan.invoices, mode),
+    cashFlowItems: diffById(currentItems, incomingItems, mode),
+    auditLog: diffById(current.auditLog, incoming.auditLog, 'merge'),
+    settingsChanged: JSON.stringify(currentSettings) !== JSON.stringify(incomingSettings),
+    currentTermChanged: mode === 'replace' && current.currentTerm !== incoming.currentTerm,
+    invoicesKeptLocal: invoicePlan.keptLocal,
+    invoicesRejected: invoicePlan.rejected.map(inv => inv.number || String(inv.sequence)),
+  };
+};
+
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const incomingMap = new Map(incoming.map(item => [item.id, item]));
+  const currentIds = new Set(current.map(item => item.id));
+  return [
+    ...current.map(item => incomingMap.get(item.id) || item),
+    ...incoming.filter(item => !currentIds.has(item.id)),
+  ];
+};
+
+// Two datasets may hold the same cell under different ids, so work logs merge on the cell: the file's hours win and
+// the local id is kept. A new cell whose id is already taken gets a new one.
+const mergeWorkLogs = (current: WorkLog[], incoming: WorkLog[]): WorkLog[] => {
+  const incomingMap = new Map(incoming.map(log => [getWorkLogKey(log), log]));
+  const currentKeys = new Set(current.map(getWorkLogKey));
+  const ids = new Set(current.map(log => log.id));
+  const added = Array.from(incomingMap.values())
+    .filter(log => !currentKeys.has(getWorkLogKey(log)))
+    .map(log => {
+      const withId = ids.has(log.id) ? { ...log, id: generateId() } : log;
+      ids.add(withId.id);
+      return withId;
+    });
+  return [
+    ...current.map(log => {
+      const fromFile = incomingMap.get(getWorkLogKey(log));
+      return fromFile ? { ...fromFile, id: log.id } : log;
+    }),
+    ...added,
+  ];
+};
+
+// The audit trail is append-only, so imports (merge or replace) only ever add entries to it
+export const mergeAuditLog = (current: AuditEntry[], incoming: AuditEntry[]): AuditEntry[] => {
+  const currentIds = new Set(current.map(entry => entry.id));
+  return [...current, ...incoming.filter(entry => !currentIds.has(entry.id))]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+// Merge: records in the file win on id collision, records only in the browser are kept.
+// Work logs match on their cell instead (see mergeWorkLogs); invoices are the exception: see planInvoiceMerge.
+// Keyed settings (targets, lead sources, CF items) are merged; scalar settings come from the file.
+export const mergeData = (current: PersistedData, incoming: PersistedData): PersistedData => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  employees: mergeById(current.employees, incoming.employees),
+  projects: mergeById(current.projects, incoming.projects),
+  workLogs: mergeWorkLogs(current.workLogs, incoming.workLogs),
+  invoices: planInvoices(current.invoices, incoming.invoices, 'merge').invoices,
+  auditLog: mergeAuditLog(current.auditLog, incoming.auditLog),
+  settings: {
+    ...current.settings,
+    ...incoming.settings,
+    salesTargets: { ...current.settings.salesTargets, ...incoming.settings.salesTargets },
+    leadSourceOptions: { ...(current.settings.leadSourceOptions || {}), ...(incoming.settings.leadSourceOptions || {}) },
+    cashFlowItems: mergeById<CashFlowItem>(current.settings.cashFlowItems || [], incoming.settings.cashFlowItems || []),
+  },
+  currentTerm: current.currentTerm,
+});
+
+// Replace: everything comes from the file except the invoices already sent (see planInvoiceReplace)
+export const replaceData = (current: PersistedData, incoming: PersistedData): PersistedData => ({
+  ...incoming,
+  invoices: planInvoices(current.invoices, incoming.invoices, 'replace').invoices,
+});
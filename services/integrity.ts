@@ -0,0 +1,172 @@
+import { Assignment, AuthUser, DataSnapshot, DeleteOptions, TimeChargeRate, WorkLog } from '../types';
+
+// Referential integrity between projects, employees and their dependent records.
+// Work logs reference both a project and an employee; assignments and time-charge rates live inside projects and
+// reference employees. Invoices reference a project, and receipts live inside it. User accounts (kept apart from the
+// business data) may link to an employee.
+
+export interface DependencyCounts {
+  workLogs: number;
+  workLogHours: number;
+  assignments: number; // Employee: projects the employee is assigned to. Project: assigned employees.
+  draftInvoices: number; // Project only. Deleted with the project.
+  sentInvoices: number;  // Project only. Issued or voided: the numbered record of what the client received.
+  receipts: number;      // Project only
+  timeChargeRates: number; // Employee only: projects with an hourly rate for the employee
+  accounts: number;        // Employee only: user accounts linked to the employee
+}
+
+// Sent invoices and recorded receipts are accounting records, so a project that has them can only be archived
+export const isProjectDeletable = (deps: DependencyCounts) => deps.sentInvoices === 0 && deps.receipts === 0;
+export const PROJECT_HAS_RECORDS_MESSAGE = '発行済みの請求書または入金記録がある案件は削除できません。アーカイブしてください。';
+
+export interface OrphanReport {
+  workLogs: number;
+  assignments: number;
+}
+
+const countLogs = (logs: WorkLog[]) => ({
+  workLogs: logs.length,
+  workLogHours: logs.reduce((sum, l) => sum + (l.actualHours || 0), 0),
+});
+
+export const getProjectDependencies = (data: DataSnapshot, projectId: string): DependencyCounts => {
+  const project = data.projects.find(p => p.id === projectId);
+  const invoices = data.invoices.filter(inv => inv.projectId === projectId);
+  const draftInvoices = invoices.filter(inv => inv.status === 'draft').length;
+  return {
+    ...countLogs(data.workLogs.filter(l => l.projectId === projectId)),
+    assignments: project ? project.assignments.length : 0,
+    draftInvoices,
+    sentInvoices: invoices.length - draftInvoices,
+    receipts: project?.receipts?.length || 0,
+    timeChargeRates: 0,
+    accounts: 0,
+  };
+};
+
+export const getLinkedAccounts = (accounts: AuthUser[], employeeId: string) => accounts.filter(a => a.employeeId === employeeId);
+
+export const getEmployeeDependencies = (data: DataSnapshot, employeeId: string, accounts: AuthUser[] = []): DependencyCounts => ({
+  ...countLogs(data.workLogs.filter(l => l.employeeId === employeeId)),
+  assignments: data.projects.filter(p => p.assignments.some(a => a.employeeId === employeeId)).length,
+  draftInvoices: 0,
+  sentInvoices: 0,
+  receipts: 0,
+  timeChargeRates: data.projects.filter(p => (p.timeChargeRates || []).some(r => r.employeeId === employeeId)).length,
+  accounts: getLinkedAccounts(accounts, employeeId).length,
+});
+
+// Accounts of a deleted employee follow the reassignment, or are unlinked (falling back to the email match)
+export const relinkAccounts = (accounts: AuthUser[], employeeId: string, options: DeleteOptions): AuthUser[] =>
+  getLinkedAccounts(accounts, employeeId).map(a => ({ ...a, employeeId: options.mode === 'reassign' ? options.targetId : undefined }));
+
+const workLogKey = (l: WorkLog) => `${l.projectId}:${l.taskId || ''}:${l.employeeId}:${l.weekStartDate}`;
+
+// After reassignment two logs can land on the same cell; keep the first and add up the hours
+const mergeDuplicateLogs = (logs: WorkLog[]): WorkLog[] => {
+  const byKey = new Map<string, WorkLog>();
+  logs.forEach(l => {
+    const key = workLogKey(l);
+    const existing = byKey.get(key);
+    byKey.set(key, existing ? { ...existing, actualHours: existing.actualHours + l.actualHours } : l);
+  });
+  return Array.from(byKey.values());
+};
+
+// A rate the target already has wins over the one moved onto it
+const reassignRates = (rates: TimeChargeRate[], employeeId: string, targetId: string): TimeChargeRate[] => {
+  const targetHasRate = rates.some(r => r.employeeId === targetId);
+  return rates.flatMap(r => r.employeeId !== employeeId ? [r] : targetHasRate ? [] : [{ ...r, employeeId: targetId }]);
+};
+
+const mergeAssignments = (assignments: Assignment[]): Assignment[] => {
+  const byEmployee = new Map<string, number>();
+  assignments.forEach(a => byEmployee.set(a.employeeId, Math.min(100, (byEmployee.get(a.employeeId) || 0) + a.utilizationRate)));
+  return Array.from(byEmployee.entries()).map(([employeeId, utilizationRate]) => ({ employeeId, utilizationRate }));
+};
+
+// Draft invoices go with the project in both modes; they bill the deleted project's events
+export const removeProject = (data: DataSnapshot, projectId: string, options: DeleteOptions): DataSnapshot => {
+  if (!isProjectDeletable(getProjectDependencies(data, projectId))) throw new Error(PROJECT_HAS_RECORDS_MESSAGE);
+  const projects = data.projects.filter(p => p.id !== projectId);
+  const invoices = data.invoices.filter(inv => inv.projectId !== projectId);
+
+  if (options.mode === 'reassign') {
+    const target = data.projects.find(p => p.id === options.targetId);
+    if (!target || target.id === projectId) throw new Error('付け替え先の案件が見つかりません。');
+    const targetTaskIds = new Set((target.projectTasks || []).map(t => t.id));
+    const workLogs = data.workLogs.map(l => {
+      if (l.projectId !== projectId) return l;
+      // Tasks belong to the deleted project; hours without a matching task go to the target's untasked row
+      const taskId = l.taskId && targetTaskIds.has(l.taskId) ? l.taskId : undefined;
+      return { ...l, projectId: target.id, taskId };
+    });
+    return { ...data, projects, invoices, workLogs: mergeDuplicateLogs(workLogs) };
+  }
+
+  return { ...data, projects, invoices, workLogs: data.workLogs.filter(l => l.projectId !== projectId) };
+};
+
+export const removeEmployee = (data: DataSnapshot, employeeId: string, options: DeleteOptions): DataSnapshot => {
+  const employees = data.employees.filter(e => e.id !== employeeId);
+
+  if (options.mode === 'reassign') {
+    const targetId = options.targetId;
+    if (targetId === employeeId || !data.employees.some(e => e.id === targetId)) {
+      throw new Error('付け替え先の従業員が見つかりません。');
+    }
+    const projects = data.projects.map(p => {
+      const assigned = p.assignments.some(a => a.employeeId === employeeId);
+      const rated = (p.timeChargeRates || []).some(r => r.employeeId === employeeId);
+      if (!assigned && !rated) return p;
+      return {
+        ...p,
+        assignments: assigned ? mergeAssignments(p.assignments.map(a => a.employeeId === employeeId ? { ...a, employeeId: targetId } : a)) : p.assignments,
+        timeChargeRates: rated ? reassignRates(p.timeChargeRates!, employeeId, targetId) : p.timeChargeRates,
+      };
+    });
+    const workLogs = data.workLogs.map(l => l.employeeId === employeeId ? { ...l, employeeId: targetId } : l);
+    return { ...data, employees, projects, workLogs: mergeDuplicateLogs(workLogs) };
+  }
+
+  return {
+    ...data,
+    employees,
+    projects: data.projects.map(p => p.assignments.some(a => a.employeeId === employeeId) || (p.timeChargeRates || []).some(r => r.employeeId === employeeId)
+      ? {
+        ...p,
+        assignments: p.assignments.filter(a => a.employeeId !== employeeId),
+        timeChargeRates: p.timeChargeRates?.filter(r => r.employeeId !== employeeId),
+      }
+      : p),
+    workLogs: data.workLogs.filter(l => l.employeeId !== employeeId),
+  };
+};
+
+const isOrphanLog = (projectIds: Set<string>, employeeIds: Set<string>) =>
+  (l: WorkLog) => !projectIds.has(l.projectId) || !employeeIds.has(l.employeeId);
+
+export const findOrphans = (data: DataSnapshot): OrphanReport => {
+  const projectIds = new Set(data.projects.map(p => p.id));
+  const employeeIds = new Set(data.employees.map(e => e.id));
+  return {
+    workLogs: data.workLogs.filter(isOrphanLog(projectIds, employeeIds)).length,
+    assignments: data.projects.reduce((sum, p) => sum + p.assignments.filter(a => !employeeIds.has(a.employeeId)).length, 0),
+  };
+};
+
+export const removeOrphans = (data: DataSnapshot): DataSnapshot => {
+  const report = findOrphans(data);
+  if (report.workLogs === 0 && report.assignments === 0) return data;
+  const projectIds = new Set(data.projects.map(p => p.id));
+  const employeeIds = new Set(data.employees.map(e => e.id));
+  const isOrphan = isOrphanLog(projectIds, employeeIds);
+  return {
+    ...data,
+    projects: data.projects.map(p => p.assignments.every(a => employeeIds.has(a.employeeId))
+      ? p
+      : { ...p, assignments: p.assignments.filter(a => employeeIds.has(a.employeeId)) }),
+    workLogs: data.workLogs.filter(l => !isOrphan(l)),
+  };
+};
@@ -0,0 +1,254 @@
+import { Invoice, InvoiceIssuer, InvoiceLine, Project, TaxCode } from '../types';
+import { formatMoney, generateId, getMonthBillingEvents, getProjectCurrency, getTaxOnNet, RevenueContext, TAX_CODE_LABELS, toDateKey, toMonthKey } from '../utils';
+
+// Invoices under the qualified invoice system (適格請求書等保存方式).
+// Drafts are created from the billing events the projections already use (flow billings, monthly stock,
+// time charge), so what is invoiced matches what the cash flow expects to be received.
+
+export const INVOICE_STATUS_LABELS: Record<Invoice['status'], string> = {
+  draft: '下書き',
+  issued: '発行済',
+  void: '無効',
+};
+
+// Lines created before tax codes only carry the rate
+export const getLineTaxCode = (line: Pick<InvoiceLine, 'taxCode' | 'taxRate'>): TaxCode =>
+  line.taxCode || (line.taxRate === 8 ? 'reduced' : line.taxRate === 0 ? 'exempt' : 'standard');
+
+// Rate column of a line: the percentage for taxed and zero-rated lines, the classification for exempt and non-taxable ones
+export const formatLineTaxRate = (line: Pick<InvoiceLine, 'taxCode' | 'taxRate'>) => {
+  const code = getLineTaxCode(line);
+  return code === 'exempt' || code === 'nonTaxable' ? TAX_CODE_LABELS[code] : `${line.taxRate}%`;
+};
+
+// T + 13-digit corporate number
+export const isValidRegistrationNumber = (value: string) => /^T\d{13}$/.test(value);
+
+export const formatInvoiceNumber = (prefix: string, sequence: number) => `${prefix}${String(sequence).padStart(5, '0')}`;
+
+// Numbers are consecutive across all invoices; voided invoices keep theirs, so the next one is always max + 1
+export const getNextInvoiceSequence = (invoices: Invoice[]) =>
+  invoices.reduce((max, inv) => Math.max(max, inv.sequence || 0), 0) + 1;
+
+export interface InvoiceTaxBreakdown {
+  taxCode: TaxCode;
+  taxRate: number;
+  label: string;    // e.g. 課税 (標準税率) 10%対象, 非課税対象
+  subtotal: number; // Excluding tax
+  tax: number;
+}
+
+const TAX_CODE_ORDER = Object.keys(TAX_CODE_LABELS) as TaxCode[];
+
+// Totals per tax code and rate, so exempt, zero-rated and non-taxable sales stay apart though all are 0%.
+// Tax is rounded down once per group and invoice, never per line, as the invoice system requires;
+// receivables use the same basis (see getBilledAmounts).
+export const getInvoiceTotals = (invoice: Pick<Invoice, 'lines'>) => {
+  const groups = new Map<string, InvoiceTaxBreakdown>();
+  invoice.lines.forEach(l => {
+    const taxCode = getLineTaxCode(l);
+    const key = `${taxCode}:${l.taxRate}`;
+    const group = groups.get(key) || { taxCode, taxRate: l.taxRate, label: '', subtotal: 0, tax: 0 };
+    groups.set(key, { ...group, subtotal: group.subtotal + l.amount });
+  });
+  const breakdown = Array.from(groups.values())
+    .sort((a, b) => b.taxRate - a.taxRate || TAX_CODE_ORDER.indexOf(a.taxCode) - TAX_CODE_ORDER.indexOf(b.taxCode))
+    .map(b => ({
+      ...b,
+      label: b.taxCode === 'exempt' || b.taxCode === 'nonTaxable' ? `${TAX_CODE_LABELS[b.taxCode]}対象` : `${TAX_CODE_LABELS[b.taxCode]} ${b.taxRate}%対象`,
+      tax: getTaxOnNet(b.subtotal, b.taxRate),
+    }));
+  const subtotal = breakdown.reduce((sum, b) => sum + b.subtotal, 0);
+  const tax = breakdown.reduce((sum, b) => sum + b.tax, 0);
+  return { breakdown, subtotal, tax, total: subtotal + tax };
+};
+
+// Reasons the issuer block cannot go on a qualified invoice yet; empty when issuing is possible
+export const getIssuerProblems = (issuer?: InvoiceIssuer) => {
+  const problems: string[] = [];
+  if (!issuer?.companyName) problems.push('発行者名が未設定です');
+  if (!issuer?.registrationNumber) problems.push('インボイス登録番号が未設定です');
+  else if (!isValidRegistrationNumber(issuer.registrationNumber)) problems.push('インボイス登録番号は T + 13桁の数字で入力してください');
+  return problems;
+};
+
+// One billable event of a project in a month, before it is put on an invoice
+export interface BillableItem {
+  projectId: string;
+  sourceKey: string; // See BillingEvent.sourceKey
+  dueDate: string;   // YYYY-MM-DD
+  taxCode: TaxCode;
+  taxRate: number;
+  lines: Omit<InvoiceLine, 'id' | 'taxRate' | 'taxCode' | 'sourceKey'>[];
+}
+
+// Billing events of a project in a month as invoice lines. Time charge is billable once the month has actual hours or
+// a manual amount; assignment-based forecasts are not invoiced.
+export const getBillableItems = (project: Project, year: number, month: number, ctx: RevenueContext): BillableItem[] => {
+  const monthLabel = `${year}年${month + 1}月分`;
+  const single = (description: string, unit: string, amount: number) => ({ description, quantity: 1, unit, unitPrice: amount, amount });
+
+  return getMonthBillingEvents(project, year, month, ctx)
+    .filter(ev => ev.timeCharge?.source !== 'forecast')
+    .map(ev => {
+      let lines: BillableItem['lines'];
+      if (ev.kind === 'flow') {
+        lines = [single(`${project.projectName} ${ev.name}`, '式', ev.amount)];
+      } else if (ev.kind === 'stock') {
+        lines = [single(`${project.projectName} ${ev.name} (${monthLabel})`, 'ヶ月', ev.amount)];
+      } else if (ev.timeCharge!.source === 'override') {
+        lines = [single(`${project.projectName} ${ev.name} (${monthLabel})`, '式', ev.amount)];
+      } else {
+        const billing = ev.timeCharge!;
+        lines = billing.lines.map(l => ({
+          description: `${project.projectName} ${ev.name} ${ctx.employees.find(e => e.id === l.employeeId)?.name || ''} (${monthLabel})`,
+          quantity: Math.round(l.hours * 100) / 100,
+          unit: '時間',
+          unitPrice: l.hourlyRate,
+          amount: l.amount,
+        }));
+        if (billing.adjustment !== 0) {
+          lines.push(single(billing.adjustment > 0 ? '月額下限との差額' : '月額上限による調整', '式', billing.adjustment));
+        }
+      }
+      return { projectId: project.id, sourceKey: ev.sourceKey, dueDate: toDateKey(ev.paymentDate), taxCode: ev.taxCode, taxRate: ev.taxRate, lines };
+    });
+};
+
+// Source keys already on a draft or issued invoice, as projectId:sourceKey. Voiding an invoice frees its events.
+export const getInvoicedSourceKeys = (invoices: Invoice[]) => new Set(
+  invoices
+    .filter(inv => inv.status !== 'void')
+    .flatMap(inv => inv.lines.filter(l => l.sourceKey).map(l => `${inv.projectId}:${l.sourceKey}`))
+);
+
+// Billing events of the month that are not on an invoice yet
+export const getUninvoicedItems = (projects: Project[], invoices: Invoice[], year: number, month: number, ctx: RevenueContext) => {
+  const invoiced = getInvoicedSourceKeys(invoices);
+  return projects
+    .filter(p => !p.isArchived)
+    .flatMap(p => getBillableItems(p, year, month, ctx))
+    .filter(item => !invoiced.has(`${item.projectId}:${item.sourceKey}`));
+};
+
+// Draft invoices for billable items: one per project and due date, dated at the end of the billing month
+export const buildInvoiceDrafts = (projects: Project[], items: BillableItem[], year: number, month: number): Omit<Invoice, 'id'>[] => {
+  const groups = new Map<string, BillableItem[]>();
+  items.forEach(item => {
+    const key = `${item.projectId}:${item.dueDate}`;
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+
+  return Array.from(groups.values()).map(group => {
+    const project = projects.find(p => p.id === group[0].projectId)!;
+    const currency = getProjectCurrency(project);
+    return {
+      projectId: project.id,
+      clientName: project.clientName,
+      projectName: project.projectName,
+      billingMonth: toMonthKey(new Date(year, month, 1)),
+      issueDate: toDateKey(new Date(year, month + 1, 0)),
+      dueDate: group[0].dueDate,
+      currency: currency === 'JPY' ? undefined : currency,
+      lines: group.flatMap(item => item.lines.map(l => ({ ...l, id: generateId(), taxCode: item.taxCode, taxRate: item.taxRate, sourceKey: item.sourceKey }))),
+      status: 'draft',
+    };
+  });
+};
+
+// --- Print layout ---
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const formatDateJa = (dateStr: string) => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return d ? `${y}年${m}月${d}日` : `${y}年${m}月`;
+};
+
+const PRINT_STYLES = `
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: "Hiragino Kaku Gothic ProN", "Noto Sans JP", Meiryo, sans-serif; color: #111; font-size: 12px; margin: 0; }
+  .sheet { max-width: 180mm; margin: 0 auto; position: relative; }
+  h1 { text-align: center; font-size: 22px; letter-spacing: 0.5em; margin: 0 0 24px; }
+  .head { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 20px; }
+  .client { font-size: 16px; border-bottom: 1px solid #111; padding-bottom: 4px; min-width: 80mm; }
+  .meta td { padding: 1px 0 1px 12px; text-align: right; }
+  .issuer { text-align: right; margin-top: 12px; line-height: 1.6; }
+  .total { font-size: 18px; font-weight: bold; border-bottom: 2px solid #111; display: inline-block; padding: 4px 0; margin: 12px 0 20px; }
+  table.lines { width: 100%; border-collapse: collapse; }
+  table.lines th, table.lines td { border: 1px solid #999; padding: 5px 6px; }
+  table.lines th { background: #f2f2f2; font-weight: normal; }
+  .num { text-align: right; white-space: nowrap; }
+  table.summary { margin-left: auto; margin-top: 12px; border-collapse: collapse; }
+  table.summary td { padding: 3px 8px; }
+  table.summary tr.grand td { border-top: 1px solid #111; font-weight: bold; }
+  .notes { margin-top: 20px; white-space: pre-wrap; border: 1px solid #ccc; padding: 8px; }
+  .stamp { position: absolute; top: 40px; left: 50%; transform: translateX(-50%) rotate(-12deg); font-size: 40px; color: rgba(220, 38, 38, 0.35); border: 4px solid rgba(220, 38, 38, 0.35); padding: 4px 24px; }
+`;
+
+// Standalone HTML of an invoice for printing or saving as PDF from the browser's print dialog.
+// Carries every item a qualified invoice needs: issuer name and registration number, transaction period,
+// line items, totals and tax per tax code and rate, and the recipient.
+export const renderInvoiceHtml = (invoice: Invoice, issuer?: InvoiceIssuer) => {
+  const currency = invoice.currency || 'JPY';
+  const money = (amount: number) => escapeHtml(formatMoney(amount, currency));
+  const { breakdown, subtotal, tax, total } = getInvoiceTotals(invoice);
+  const reduced = invoice.lines.find(l => getLineTaxCode(l) === 'reduced');
+
+  const rows = invoice.lines.map(l => `
+      <tr>
+        <td>${escapeHtml(l.description)}${getLineTaxCode(l) === 'reduced' ? ' ※' : ''}</td>
+        <td class="num">${l.quantity.toLocaleString()}${escapeHtml(l.unit || '')}</td>
+        <td class="num">${money(l.unitPrice)}</td>
+        <td class="num">${escapeHtml(formatLineTaxRate(l))}</td>
+        <td class="num">${money(l.amount)}</td>
+      </tr>`).join('');
+
+  const rateRows = breakdown.map(b => `
+      <tr><td>${escapeHtml(b.label)}</td><td class="num">${money(b.subtotal)}</td><td>消費税</td><td class="num">${money(b.tax)}</td></tr>`).join('');
+
+  const stamp = invoice.status === 'void' ? '無効' : invoice.status === 'draft' ? '下書き' : '';
+
+  return `<!doctype html>
+<html lang="ja"><head><meta charset="utf-8"><title>${escapeHtml(invoice.number || '請求書 (下書き)')}</title><style>${PRINT_STYLES}</style></head>
+<body><div class="sheet">
+  ${stamp ? `<div class="stamp">${stamp}</div>` : ''}
+  <h1>請求書</h1>
+  <div class="head">
+    <div>
+      <div class="client">${escapeHtml(invoice.clientName)} 御中</div>
+      <p>件名: ${escapeHtml(invoice.projectName)}</p>
+      <p>下記のとおりご請求申し上げます。</p>
+      <div class="total">ご請求金額 ${money(total)} (税込)</div>
+    </div>
+    <div>
+      <table class="meta">
+        <tr><td>請求書番号</td><td>${escapeHtml(invoice.number || '-')}</td></tr>
+        <tr><td>発行日</td><td>${formatDateJa(invoice.issueDate)}</td></tr>
+        <tr><td>取引年月</td><td>${formatDateJa(invoice.billingMonth)}</td></tr>
+        <tr><td>お支払期限</td><td>${formatDateJa(invoice.dueDate)}</td></tr>
+      </table>
+      <div class="issuer">
+        <strong>${escapeHtml(issuer?.companyName || '')}</strong><br>
+        登録番号: ${escapeHtml(issuer?.registrationNumber || '')}<br>
+        ${issuer?.address ? `${escapeHtml(issuer.address)}<br>` : ''}
+        ${issuer?.phone ? `TEL: ${escapeHtml(issuer.phone)}` : ''}
+      </div>
+    </div>
+  </div>
+  <table class="lines">
+    <thead><tr><th>品目</th><th>数量</th><th>単価</th><th>税率</th><th>金額 (税抜)</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+  <table class="summary">
+    ${rateRows}
+    <tr><td>小計</td><td class="num">${money(subtotal)}</td><td>消費税計</td><td class="num">${money(tax)}</td></tr>
+    <tr class="grand"><td colspan="3">合計 (税込)</td><td class="num">${money(total)}</td></tr>
+  </table>
+  ${reduced ? `<p>※は軽減税率 (${reduced.taxRate}%) 対象です。</p>` : ''}
+  ${issuer?.bankAccount ? `<p>お振込先: ${escapeHtml(issuer.bankAccount)}</p>` : ''}
+  ${invoice.status === 'void' && invoice.voidReason ? `<p>無効理由: ${escapeHtml(invoice.voidReason)}</p>` : ''}
+  ${invoice.notes ? `<div class="notes">${escapeHtml(invoice.notes)}</div>` : ''}
+</div></body></html>`;
+};
@@ -0,0 +1,217 @@
+import { BillingConfig, CashFlowItem, PersistedData, Project, RevenueModel } from '../types';
+
+// Current schema version of the persisted dataset.
+// When a model changes, add a step to `migrations` below instead of changing the storage key.
+export const CURRENT_SCHEMA_VERSION = 18;
+
+// Stable key (no version suffix). The version lives inside the payload as `schemaVersion`.
+export const STORAGE_KEY = 'irwin_manager_data';
+
+// Before versioned payloads, the version was encoded in the key (irwin_manager_data_v1 ... _v11)
+// and bumped to reset data. Those keys are still read once so that old data can be migrated.
+const LEGACY_KEY_PREFIX = 'irwin_manager_data_v';
+const LEGACY_MAX_VERSION = 11;
+
+export const DEFAULT_BILLING_CONFIG: BillingConfig = {
+  flowSplit: false,
+  flowStartRatio: 50,
+  flowStartDelay: 1,
+  flowStartPayDay: 99,
+  flowEndDelay: 1,
+  flowEndPayDay: 99,
+  stockDelay: 1,
+  stockPayDay: 99,
+};
+
+interface Migration {
+  // The schema version this step produces (input is version - 1 or older legacy data)
+  version: number;
+  description: string;
+  migrate: (data: any) => any;
+}
+
+// Helper: Add N months to a YYYY-MM-DD string and return the day before (end date of an N-month period)
+const addMonthsForEndDate = (startStr: string, months: number): string => {
+  const [y, m, d] = startStr.split('-').map(Number);
+  const end = new Date(y, m - 1 + months, d - 1);
+  return `${end.getFullYear()}-${String(end.getMonth() + 1).padStart(2, '0')}-${String(end.getDate()).padStart(2, '0')}`;
+};
+
+const migrations: Migration[] = [
+  {
+    version: 11,
+    description: 'v1〜v10 の旧形式 (revenueModel / duration 等) を現行の Project / Employee 形式に正規化',
+    migrate: (data) => ({
+      ...data,
+      employees: (data.employees || []).map((e: any) => ({
+        ...e,
+        monthlyData: e.monthlyData || {},
+      })),
+      projects: (data.projects || []).map((p: any) => {
+        const project = { ...p };
+        // Old single revenue model -> hybrid boolean flags
+        if (project.useFlow === undefined && project.useStock === undefined) {
+          project.useFlow = project.revenueModel !== RevenueModel.Stock;
+          project.useStock = project.revenueModel === RevenueModel.Stock;
+        }
+        // Old `duration` (months) -> explicit end date
+        if (!project.flowEndDate && project.flowStartDate && project.duration) {
+          project.flowEndDate = addMonthsForEndDate(project.flowStartDate, Number(project.duration));
+        }
+        delete project.revenueModel;
+        delete project.duration;
+        return {
+          ...project,
+          flowAmount: project.flowAmount || 0,
+          stockAmount: project.stockAmount || 0,
+          flowStartDate: project.flowStartDate || '',
+          flowEndDate: project.flowEndDate || '',
+          stockStartDate: project.stockStartDate || '',
+          projectTasks: project.projectTasks || [],
+          assignments: project.assignments || [],
+        };
+      }),
+      workLogs: data.workLogs || [],
+      settings: data.settings || {},
+    }),
+  },
+  {
+    version: 12,
+    description: 'CashFlowItem.targetMonth を paymentDate に移行し、billingConfig の欠損項目を補完',
+    migrate: (data) => ({
+      ...data,
+      settings: {
+        ...data.settings,
+        cashFlowItems: (data.settings?.cashFlowItems || []).map((item: CashFlowItem) => {
+          if (item.isRecurring || item.paymentDate || !item.targetMonth) return item;
+          const { targetMonth, ...rest } = item;
+          // Legacy one-time items were booked on the 1st of the target month
+          return { ...rest, paymentDate: `${targetMonth}-01` };
+        }),
+      },
+      projects: (data.projects || []).map((p: Project) => ({
+        ...p,
+        billingConfig: { ...DEFAULT_BILLING_CONFIG, ...(p.billingConfig || {}) },
+      })),
+    }),
+  },
+  {
+    version: 13,
+    description: '変更履歴 (auditLog) を追加',
+    migrate: (data) => ({
+      ...data,
+      auditLog: data.auditLog || [],
+    }),
+  },
+  {
+    version: 14,
+    description: '決算月 (fiscalYearEndMonth) と創業期開始日を設定に追加。従来の固定値 (11月決算・2025年11月期が創業期) を引き継ぐ',
+    migrate: (data) => ({
+      ...data,
+      settings: {
+        ...data.settings,
+        fiscalYearEndMonth: data.settings?.fiscalYearEndMonth || 11,
+        firstTermStartDate: data.settings?.fiscalYearEndMonth ? data.settings.firstTermStartDate : '2024-12-01',
+      },
+    }),
+  },
+  {
+    version: 15,
+    description: '期首現預金残高の基準月 (cashBalanceAsOf) を追加。創業期の開始月を基準とする',
+    migrate: (data) => ({
+      ...data,
+      settings: {
+        ...data.settings,
+        cashBalanceAsOf: data.settings?.cashBalanceAsOf || (data.settings?.firstTermStartDate || '2024-12-01').slice(0, 7),
+      },
+    }),
+  },
+  {
+    version: 16,
+    description: '請求書 (invoices) を追加',
+    migrate: (data) => ({
+      ...data,
+      invoices: data.invoices || [],
+    }),
+  },
+  {
+    version: 17,
+    description: '入金記録・請求明細のフロー請求キーを 請求月+名称 から分割回のIDに変更',
+    migrate: (data) => {
+      // Old key flow:<YYYY-MM>:<name> -> flow:<event key>, per project. The flow billings ([key, name, billing date])
+      // are listed as this version scheduled them, so later scheduling changes do not alter what this step produces.
+      // Keys that no longer matched an event stay as they are.
+      const getFlowBillings = (p: any): [string, string, string | undefined][] => {
+        if (!p.useFlow || !p.billingConfig) return [];
+        const installments = p.billingConfig.installments || [];
+        if (installments.length > 0) {
+          return installments.map((inst: any) => [inst.id, inst.name,
+            (inst.taskId ? (p.projectTasks || []).find((t: any) => t.id === inst.taskId)?.dueDate : inst.triggerDate) || p.flowEndDate]);
+        }
+        if (p.billingConfig.flowSplit) return [['start', '着手金', p.flowStartDate], ['end', '完了金', p.flowEndDate]];
+        return [['end', '一括', p.flowEndDate]];
+      };
+      const renames = new Map<string, Map<string, string>>();
+      (data.projects || []).forEach((p: any) => {
+        renames.set(p.id, new Map(getFlowBillings(p)
+          .filter(([, , date]) => !!date)
+          .map(([key, name, date]) => [`flow:${date!.slice(0, 7)}:${name}`, `flow:${key}`])));
+      });
+      const rename = (projectId: string, key?: string) => (key && renames.get(projectId)?.get(key)) || key;
+      return {
+        ...data,
+        projects: (data.projects || []).map((p: any) => p.receipts
+          ? { ...p, receipts: p.receipts.map((r: any) => ({ ...r, sourceKey: rename(p.id, r.sourceKey) })) }
+          : p),
+        invoices: (data.invoices || []).map((inv: any) => ({
+          ...inv,
+          lines: (inv.lines || []).map((l: any) => l.sourceKey ? { ...l, sourceKey: rename(inv.projectId, l.sourceKey) } : l),
+        })),
+      };
+    },
+  },
+  {
+    version: 18,
+    description: '営業日按分の名称を変更 (祝日・会社の休業日も除くため)',
+    migrate: (data) => ({
+      ...data,
+      projects: (data.projects || []).map((p: any) => p.prorationMethod === '営業日按分 (土日除く)'
+        ? { ...p, prorationMethod: '営業日按分 (土日祝・休業日除く)' }
+        : p),
+    }),
+  },
+];
+
+// Upgrade a payload of `fromVersion` to CURRENT_SCHEMA_VERSION by running every newer step in order
+export const migrateData = (raw: any, fromVersion: number): PersistedData => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`データのスキーマバージョン (v${fromVersion}) がこのアプリ (v${CURRENT_SCHEMA_VERSION}) より新しいため読み込めません。`);
+  }
+
+  let data = raw;
+  migrations
+    .filter(m => m.version > fromVersion)
+    .forEach(m => {
+      data = m.migrate(data);
+    });
+
+  return { ...data, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+// Read the stored dataset, migrating from the versioned key or, failing that, the newest legacy key.
+// Legacy keys are left untouched so a failed migration never destroys the original data.
+export const loadStoredData = (): PersistedData | null => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    const parsed = JSON.parse(saved);
+    return migrateData(parsed, parsed.schemaVersion || LEGACY_MAX_VERSION);
+  }
+
+  for (let v = LEGACY_MAX_VERSION; v >= 1; v--) {
+    const legacy = localStorage.getItem(`${LEGACY_KEY_PREFIX}${v}`);
+    if (legacy) {
+      return migrateData(JSON.parse(legacy), v);
+    }
+  }
+  return null;
+};
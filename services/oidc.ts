@@ -0,0 +1,216 @@
+import { UserRole } from '../types';
+import { normalizeEmail } from './auth';
+
+// OpenID Connect sign-in (authorization code + PKCE) for a public browser client.
+// The ID token is verified in the browser (RS256 via the provider's JWKS) and its claims,
+// not the email string, decide the allowed organization and the role.
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  // Accepted values of `domainClaim` (e.g. the `hd` hosted-domain claim). Empty accepts any.
+  allowedDomains: string[];
+  domainClaim: string;
+  roleClaim: string;
+  // Claim value -> role. Values that are already role names map to themselves.
+  roleMap: Record<string, UserRole>;
+}
+
+export interface OidcIdentity {
+  subject: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  authTime?: number; // epoch ms of the provider's last password check (`auth_time`), when it reports one
+  idToken?: string;  // The verified token, for a data server that checks it again
+}
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// What has to survive the redirect to the provider and back
+interface PendingRequest {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  // Set for re-authentication: the provider must have checked the password after this time (epoch seconds)
+  forceLoginSince?: number;
+}
+
+const PENDING_KEY = 'irwin_oidc_request';
+const CLOCK_SKEW_SEC = 60;
+const ROLES: UserRole[] = ['admin', 'manager', 'member']; // Highest privilege first
+
+const parseList = (value?: string) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+// "irwin-admins=admin,irwin-staff=member"
+const parseRoleMap = (value?: string) => {
+  const map: Record<string, UserRole> = {};
+  parseList(value).forEach(entry => {
+    const [claimValue, role] = entry.split('=').map(v => v.trim());
+    if (claimValue && ROLES.includes(role as UserRole)) map[claimValue] = role as UserRole;
+  });
+  return map;
+};
+
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${window.location.origin}${window.location.pathname}`,
+    scope: process.env.OIDC_SCOPE || 'openid email profile',
+    allowedDomains: parseList(process.env.OIDC_ALLOWED_DOMAINS).map(d => d.toLowerCase()),
+    domainClaim: process.env.OIDC_DOMAIN_CLAIM || 'hd',
+    roleClaim: process.env.OIDC_ROLE_CLAIM || 'roles',
+    roleMap: parseRoleMap(process.env.OIDC_ROLE_MAP),
+  };
+};
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), c => c.charCodeAt(0));
+};
+
+const decodeJson = (part: string) => JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+
+const randomString = () => base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+
+const fetchJson = async (url: string, init?: RequestInit) => {
+  const res = await fetch(url, init);
+  if (!res.ok) throw new Error(`認証サーバーとの通信に失敗しました (${res.status})`);
+  return res.json();
+};
+
+const discover = async (config: OidcConfig): Promise<Discovery> => {
+  const discovery: Discovery = await fetchJson(`${config.issuer}/.well-known/openid-configuration`);
+  if (discovery.issuer.replace(/\/$/, '') !== config.issuer) throw new Error('認証サーバーの issuer が設定と一致しません。');
+  return discovery;
+};
+
+// Redirects the browser to the provider. `forceLogin` asks for the password again (re-authentication).
+export const beginOidcSignIn = async (config: OidcConfig, options: { forceLogin?: boolean } = {}) => {
+  const discovery = await discover(config);
+  const pending: PendingRequest = {
+    state: randomString(),
+    nonce: randomString(),
+    codeVerifier: randomString(),
+    forceLoginSince: options.forceLogin ? Math.floor(Date.now() / 1000) : undefined,
+  };
+  const challenge = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pending.codeVerifier)));
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scope,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: base64UrlEncode(challenge),
+    code_challenge_method: 'S256',
+  });
+  if (options.forceLogin) {
+    params.set('prompt', 'login');
+    params.set('max_age', '0');
+  }
+  window.location.assign(`${discovery.authorization_endpoint}?${params}`);
+};
+
+// The current URL is the provider's redirect back to us
+export const hasOidcCallback = () => {
+  const params = new URLSearchParams(window.location.search);
+  return (params.has('code') || params.has('error')) && params.has('state');
+};
+
+const verifyIdToken = async (idToken: string, discovery: Discovery, config: OidcConfig, pending: PendingRequest) => {
+  const [headerPart, payloadPart, signaturePart] = idToken.split('.');
+  if (!headerPart || !payloadPart || !signaturePart) throw new Error('IDトークンの形式が不正です。');
+  const header = decodeJson(headerPart);
+  if (header.alg !== 'RS256') throw new Error(`未対応の署名方式です (${header.alg})`);
+
+  const { keys = [] } = await fetchJson(discovery.jwks_uri);
+  const jwk = keys.find((k: JsonWebKey & { kid?: string }) => k.kid === header.kid);
+  if (!jwk) throw new Error('IDトークンの署名鍵が見つかりません。');
+  const key = await crypto.subtle.importKey('jwk', { kty: jwk.kty, n: jwk.n, e: jwk.e }, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, base64UrlDecode(signaturePart), new TextEncoder().encode(`${headerPart}.${payloadPart}`));
+  if (!valid) throw new Error('IDトークンの署名が不正です。');
+
+  const claims = decodeJson(payloadPart);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences: string[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== discovery.issuer) throw new Error('IDトークンの発行元が一致しません。');
+  if (!audiences.includes(config.clientId)) throw new Error('IDトークンの対象クライアントが一致しません。');
+  if (audiences.length > 1 && claims.azp !== config.clientId) throw new Error('IDトークンの対象クライアントが一致しません。');
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SEC < now) throw new Error('IDトークンの有効期限が切れています。');
+  if (claims.nonce !== pending.nonce) throw new Error('IDトークンの nonce が一致しません。');
+  // A provider that ignores prompt=login / max_age=0 (or reuses its session) must not pass as a fresh password entry
+  if (pending.forceLoginSince !== undefined && (typeof claims.auth_time !== 'number' || claims.auth_time + CLOCK_SKEW_SEC < pending.forceLoginSince)) {
+    throw new Error('認証サーバーでパスワードが再入力されませんでした。もう一度お試しください。');
+  }
+  return claims as Record<string, unknown>;
+};
+
+// Allowed organization and role come from the token's claims; no role claim means the least privilege
+export const mapClaimsToIdentity = (claims: Record<string, unknown>, config: OidcConfig): OidcIdentity => {
+  if (typeof claims.sub !== 'string' || typeof claims.email !== 'string') throw new Error('IDトークンにユーザー情報 (sub, email) がありません。');
+  if (claims.email_verified === false) throw new Error('メールアドレスが確認されていないアカウントです。');
+
+  if (config.allowedDomains.length > 0) {
+    const domain = String(claims[config.domainClaim] || '').toLowerCase();
+    if (!config.allowedDomains.includes(domain)) throw new Error('このアカウントの組織はログインを許可されていません。');
+  }
+
+  const rawRoles = claims[config.roleClaim];
+  const claimValues = (Array.isArray(rawRoles) ? rawRoles : [rawRoles]).filter((v): v is string => typeof v === 'string');
+  const granted = claimValues.map(v => config.roleMap[v] || (ROLES.includes(v as UserRole) ? v as UserRole : undefined));
+  const role = ROLES.find(r => granted.includes(r)) || 'member';
+
+  const email = normalizeEmail(claims.email);
+  return {
+    subject: claims.sub,
+    email,
+    name: typeof claims.name === 'string' && claims.name ? claims.name : email,
+    role,
+    authTime: typeof claims.auth_time === 'number' ? claims.auth_time * 1000 : undefined,
+  };
+};
+
+// Handles the redirect back from the provider: code exchange, token verification and claim mapping
+export const completeOidcSignIn = async (config: OidcConfig): Promise<OidcIdentity> => {
+  const params = new URLSearchParams(window.location.search);
+  const pending: PendingRequest | null = JSON.parse(sessionStorage.getItem(PENDING_KEY) || 'null');
+  // Consume the callback right away so a reload (or a second effect run) never replays the code
+  sessionStorage.removeItem(PENDING_KEY);
+  window.history.replaceState(null, '', window.location.pathname);
+
+  if (params.has('error')) throw new Error(`シングルサインオンに失敗しました (${params.get('error_description') || params.get('error')})`);
+  if (!pending || params.get('state') !== pending.state) throw new Error('ログイン要求が一致しません。もう一度ログインしてください。');
+
+  const discovery = await discover(config);
+  const tokens = await fetchJson(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.get('code') || '',
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      code_verifier: pending.codeVerifier,
+    }),
+  });
+  if (typeof tokens.id_token !== 'string') throw new Error('認証サーバーからIDトークンが返されませんでした。');
+  const claims = await verifyIdToken(tokens.id_token, discovery, config, pending);
+  return { ...mapClaimsToIdentity(claims, config), idToken: tokens.id_token };
+};
@@ -0,0 +1,39 @@
+import { Permission, UserRole } from '../types';
+
+// Role → permission matrix. Admins can do everything; managers run the business data but not accounts;
+// members enter their own timesheets and see nothing about other employees.
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['project:edit', 'employee:edit', 'employee:viewCost', 'worklog:editAll', 'worklog:editOwn', 'invoice:edit', 'settings:edit', 'data:manage', 'user:manage'],
+  manager: ['project:edit', 'employee:edit', 'employee:viewCost', 'worklog:editAll', 'worklog:editOwn', 'invoice:edit', 'settings:edit'],
+  member: ['worklog:editOwn'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: '管理者',
+  manager: 'マネージャー',
+  member: 'メンバー',
+};
+
+// Layout tabs each role can open
+const TAB_ROLES: Record<string, UserRole[]> = {
+  dashboard: ['admin', 'manager'],
+  resource: ['admin', 'manager', 'member'],
+  analytics: ['admin', 'manager'],
+  comparison: ['admin', 'manager'],
+  projects: ['admin', 'manager'],
+  employees: ['admin', 'manager'],
+  invoices: ['admin', 'manager'],
+  receivables: ['admin', 'manager'],
+  cf: ['admin', 'manager'],
+  audit: ['admin', 'manager'],
+  data: ['admin'],
+  users: ['admin'],
+};
+
+export const hasPermission = (role: UserRole | undefined, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+export const canViewTab = (role: UserRole | undefined, tab: string) =>
+  !!role && (TAB_ROLES[tab] || []).includes(role);
+
+export const PERMISSION_DENIED_MESSAGE = 'この操作を行う権限がありません。';
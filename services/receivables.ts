@@ -0,0 +1,46 @@
+import { FxRate } from '../types';
+import { Receivable, toJpy, toMonthKey } from '../utils';
+
+// Aging of receivables (売掛金年齢表) by days past the due date
+
+export const AGING_BUCKETS = [
+  { label: '期日未到来', maxDays: 0 },
+  { label: '1〜30日', maxDays: 30 },
+  { label: '31〜60日', maxDays: 60 },
+  { label: '61〜90日', maxDays: 90 },
+  { label: '90日超', maxDays: Infinity },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days past the due date as of `asOf` (0 or less = not yet due)
+export const getDaysOverdue = (receivable: Receivable, asOf: Date) =>
+  Math.round((asOf.getTime() - receivable.paymentDate.getTime()) / DAY_MS);
+
+export const getAgingBucketIndex = (daysOverdue: number) => AGING_BUCKETS.findIndex(b => daysOverdue <= b.maxDays);
+
+export interface ClientAging {
+  clientName: string;
+  buckets: number[]; // Unpaid balance per AGING_BUCKETS entry (JPY)
+  total: number;
+  overpaid: number;  // Received in excess of the billed amount (JPY)
+}
+
+// Unpaid balances per client in JPY, at the average rate of the billing month (the rate the revenue was booked at)
+export const getAgingByClient = (receivables: Receivable[], asOf: Date, fxRates?: FxRate[]): ClientAging[] => {
+  const byClient = new Map<string, ClientAging>();
+  receivables.forEach(r => {
+    if (r.outstanding === 0) return;
+    const clientName = r.project.clientName || '(未設定)';
+    const row = byClient.get(clientName) || { clientName, buckets: AGING_BUCKETS.map(() => 0), total: 0, overpaid: 0 };
+    const amount = toJpy(r.project, Math.abs(r.outstanding), toMonthKey(r.billingDate), 'average', fxRates);
+    if (r.outstanding > 0) {
+      row.buckets[getAgingBucketIndex(getDaysOverdue(r, asOf))] += amount;
+      row.total += amount;
+    } else {
+      row.overpaid += amount;
+    }
+    byClient.set(clientName, row);
+  });
+  return Array.from(byClient.values()).sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,202 @@
+import { PersistedData } from '../types';
+import { STORAGE_KEY, loadStoredData, migrateData } from './migrations';
+import { getSessionHeaders } from './auth';
+
+// Persistence backend used by AppProvider.
+// `load` returns data that is already persisted in this backend (importing from localStorage on first use),
+// and `save` receives that last saved snapshot so adapters can write only the records that changed.
+export interface StorageAdapter {
+  label: string;
+  load: () => Promise<PersistedData | null>;
+  save: (next: PersistedData, prev: PersistedData | null) => Promise<void>;
+}
+
+export type StorageBackend = 'local' | 'indexeddb' | 'http';
+
+// Entity collections stored as individual records (everything else is a single meta value)
+export const ENTITY_COLLECTIONS = ['employees', 'projects', 'workLogs', 'invoices', 'auditLog'] as const;
+export type EntityCollection = typeof ENTITY_COLLECTIONS[number];
+
+export interface CollectionChanges {
+  upserts: { id: string }[];
+  deletes: string[];
+}
+
+export interface DataChangeSet {
+  collections: Partial<Record<EntityCollection, CollectionChanges>>;
+  settings?: PersistedData['settings'];
+  currentTerm?: number;
+  schemaVersion: number;
+}
+
+// State is updated immutably, so a changed record is a different object reference.
+// This avoids stringifying the whole dataset on every edit.
+const diffCollection = (prev: { id: string }[], next: { id: string }[]): CollectionChanges | null => {
+  const prevMap = new Map(prev.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  const upserts = next.filter(item => prevMap.get(item.id) !== item);
+  const deletes = prev.filter(item => !nextIds.has(item.id)).map(item => item.id);
+  return upserts.length > 0 || deletes.length > 0 ? { upserts, deletes } : null;
+};
+
+export const getChangeSet = (next: PersistedData, prev: PersistedData | null): DataChangeSet => {
+  const changeSet: DataChangeSet = { collections: {}, schemaVersion: next.schemaVersion };
+
+  ENTITY_COLLECTIONS.forEach(name => {
+    const changes = diffCollection(prev ? prev[name] : [], next[name]);
+    if (changes) changeSet.collections[name] = changes;
+  });
+  if (!prev || prev.settings !== next.settings) changeSet.settings = next.settings;
+  if (!prev || prev.currentTerm !== next.currentTerm) changeSet.currentTerm = next.currentTerm;
+
+  return changeSet;
+};
+
+// --- localStorage (single JSON blob, ~5MB quota) ---
+
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  label: 'ブラウザ (localStorage)',
+  load: async () => loadStoredData(),
+  save: async (next) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  },
+});
+
+// Copy the localStorage dataset (including legacy keys) into a new backend so the loaded data is its baseline
+const importFromLocalStorage = async (adapter: StorageAdapter): Promise<PersistedData | null> => {
+  const data = loadStoredData();
+  if (data) await adapter.save(data, null);
+  return data;
+};
+
+// --- IndexedDB (one record per entity) ---
+
+const IDB_NAME = 'irwin_manager';
+const IDB_VERSION = 3; // v2: auditLog store, v3: invoices store
+const META_STORE = 'meta';
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    ENTITY_COLLECTIONS.forEach(name => {
+      if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+    });
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDbAdapter = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) dbPromise = openDatabase();
+    return dbPromise;
+  };
+
+  const adapter: StorageAdapter = {
+    label: 'ブラウザ (IndexedDB)',
+    load: async () => {
+      const db = await getDb();
+      const tx = db.transaction([...ENTITY_COLLECTIONS, META_STORE], 'readonly');
+      const meta = tx.objectStore(META_STORE);
+      // Issue every request up front; awaiting in between would let the transaction auto-commit
+      const [schemaVersion, employees, projects, workLogs, invoices, auditLog, settings, currentTerm] = await Promise.all([
+        requestToPromise(meta.get('schemaVersion')),
+        requestToPromise(tx.objectStore('employees').getAll()),
+        requestToPromise(tx.objectStore('projects').getAll()),
+        requestToPromise(tx.objectStore('workLogs').getAll()),
+        requestToPromise(tx.objectStore('invoices').getAll()),
+        requestToPromise(tx.objectStore('auditLog').getAll()),
+        requestToPromise(meta.get('settings')),
+        requestToPromise(meta.get('currentTerm')),
+      ]);
+
+      // First run on IndexedDB: pick up whatever the localStorage backend had saved
+      if (schemaVersion === undefined) return importFromLocalStorage(adapter);
+
+      // Records come back in key order; the audit trail is read chronologically
+      const sortedAuditLog = [...auditLog].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      return migrateData({ employees, projects, workLogs, invoices, auditLog: sortedAuditLog, settings, currentTerm }, Number(schemaVersion));
+    },
+    save: async (next, prev) => {
+      const db = await getDb();
+      const changeSet = getChangeSet(next, prev);
+      const tx = db.transaction([...ENTITY_COLLECTIONS, META_STORE], 'readwrite');
+
+      ENTITY_COLLECTIONS.forEach(name => {
+        const store = tx.objectStore(name);
+        // Full write: drop records that no longer exist in state
+        if (!prev) store.clear();
+        const changes = changeSet.collections[name];
+        if (!changes) return;
+        changes.upserts.forEach(item => store.put(item));
+        changes.deletes.forEach(id => store.delete(id));
+      });
+
+      const meta = tx.objectStore(META_STORE);
+      meta.put(changeSet.schemaVersion, 'schemaVersion');
+      if (changeSet.settings) meta.put(changeSet.settings, 'settings');
+      if (changeSet.currentTerm !== undefined) meta.put(changeSet.currentTerm, 'currentTerm');
+
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      });
+    },
+  };
+  return adapter;
+};
+
+// --- HTTP (self-hosted data server, see server/data-server.mjs) ---
+// Requests carry the signed-in session's token, so the dataset is loaded only after sign-in.
+
+export const createHttpAdapter = (baseUrl: string): StorageAdapter => {
+  const url = `${baseUrl.replace(/\/$/, '')}/api/data`;
+
+  const send = async (method: string, body: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...getSessionHeaders() },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw new Error(`データサーバーへの保存に失敗しました (${res.status})`);
+  };
+
+  const adapter: StorageAdapter = {
+    label: `共有サーバー (${baseUrl})`,
+    load: async () => {
+      const res = await fetch(url, { headers: getSessionHeaders() });
+      if (!res.ok && res.status !== 404) throw new Error(`データサーバーから読み込めません (${res.status})`);
+      const payload = res.ok ? await res.json() : null;
+      // Empty server: seed it from this browser's data
+      if (!payload || !payload.schemaVersion) return importFromLocalStorage(adapter);
+      return migrateData(payload, payload.schemaVersion);
+    },
+    save: async (next, prev) => {
+      // No baseline (first save or after load from another backend): replace the whole dataset
+      if (!prev) return send('PUT', next);
+      return send('PATCH', getChangeSet(next, prev));
+    },
+  };
+  return adapter;
+};
+
+export const createStorageAdapter = (): StorageAdapter => {
+  const backend = (process.env.STORAGE_BACKEND || 'indexeddb') as StorageBackend;
+
+  if (backend === 'http' && process.env.DATA_SERVER_URL) {
+    return createHttpAdapter(process.env.DATA_SERVER_URL);
+  }
+  if (backend !== 'local' && typeof indexedDB !== 'undefined') {
+    return createIndexedDbAdapter();
+  }
+  return createLocalStorageAdapter();
+};
@@ -28,6 +28,14 @@ export enum ProjectStatus {
 export enum RevenueRecognitionMethod {
   Duration = '期間按分 (月次平準化)',
   Milestone = '請求基準 (着手・完了時)',
+  PercentageOfCompletion = '進行基準 (原価比例)',
+}
+
+// How Duration-basis flow revenue is spread over the months of the period
+export enum ProrationMethod {
+  Month = '月数均等',
+  CalendarDay = '暦日按分',
+  BusinessDay = '営業日按分 (土日祝・休業日除く)',
 }
 
 export enum CashFlowCategory {
@@ -43,18 +51,20 @@ export interface CashFlowItem {
   id: string;
   name: string;
   category: CashFlowCategory;
-  amount: number;
+  amount: number;      // Cash paid or received, including consumption tax
   isRecurring: boolean;
+  taxCode?: TaxCode;   // Unset = nonTaxable (no consumption tax in the amount)
   
   // Recurring Settings
   periodStart?: string; // YYYY-MM (Start Month)
   periodEnd?: string;   // YYYY-MM (End Month, optional)
   payDay?: number;      // 1-31, 99=End of Month
+  shift?: BusinessDayShift; // Moves a payment that falls on a closed day. Unset = none
   
   // One-time Settings
   paymentDate?: string; // YYYY-MM-DD (Specific Date)
   
-  // Legacy support (to be migrated/ignored if paymentDate exists)
+  // Legacy: moved to paymentDate by the schema v12 migration (services/migrations.ts)
   targetMonth?: string; 
 }
 
@@ -70,6 +80,8 @@ export interface Employee {
   defaultMonthlyCost: number; 
   defaultMonthlyHours: number; 
   monthlyData: Record<string, MonthlyEmployeeData>;
+  isArchived?: boolean; // Hidden from masters and input screens, kept in historical reports
+  email?: string; // Links the employee to the user account with the same email (self-service timesheets)
 }
 
 export interface Assignment {
@@ -77,9 +89,16 @@ export interface Assignment {
   utilizationRate: number; // Percentage (0-100)
 }
 
+// Hourly billing rate on a time-charge project. Without `employeeId` it is the default for everyone else
+export interface TimeChargeRate {
+  employeeId?: string;
+  hourlyRate: number;
+}
+
 export interface ProjectTask {
   id: string;
   name: string;
+  dueDate?: string; // Planned completion; bills installments linked to the task
 }
 
 export interface WorkLog {
@@ -105,6 +124,56 @@ export interface BillingConfig {
   // Stock (Subscription) Logic
   stockDelay?: number; // 0=Current, 1=Next, 2=NextNext
   stockPayDay?: number;
+
+  // Payments falling on a weekend, holiday or closed day move to this business day. Unset = none
+  paymentShift?: BusinessDayShift;
+
+  // Installment schedule for flow billing. When set, it replaces the start/end split above
+  installments?: BillingInstallment[];
+}
+
+// One installment of a flow contract. Billed on `triggerDate`, or on the due date of the linked task
+export interface BillingInstallment {
+  id: string;
+  name: string;
+  amountType: 'amount' | 'percent';
+  value: number; // Yen, or % of flowAmount
+  triggerDate?: string;
+  taskId?: string;
+  delay: number;  // 0=Current, 1=Next, 2=NextNext
+  payDay: number; // 1-31, 99 = End of Month
+  taxCode?: TaxCode; // Unset = the project's tax code
+}
+
+// Stock price revision: `monthlyAmount` applies from `effectiveMonth` until the next revision
+export interface StockRate {
+  effectiveMonth: string; // YYYY-MM
+  monthlyAmount: number;
+}
+
+// Cash actually received against a billing event
+export interface Receipt {
+  id: string;
+  sourceKey: string; // Billing event it settles (see getMonthBillingEvents), e.g. stock:2025-06
+  date: string;      // YYYY-MM-DD
+  amount: number;    // Contract currency, including tax. May exceed the balance (overpayment)
+  memo?: string;
+}
+
+// Cancellation of a stock (subscription) contract
+export interface StockCancellation {
+  noticeDate: string; // ISO date the client gave notice
+  endDate: string;    // ISO date. Last day of service; stock revenue stops after this month
+  reason: string;
+}
+
+// Estimate of the total effort of a percentage-of-completion project. Re-estimates are appended, never overwritten.
+export interface CompletionEstimate {
+  id: string;
+  effectiveMonth: string; // YYYY-MM. Applies from this month on
+  estimatedTotal: number; // Yen or hours, per Project.completionBasis
+  note?: string;
+  recordedAt: string;     // ISO timestamp
 }
 
 export interface Project {
@@ -123,8 +192,17 @@ export interface Project {
   useStock: boolean;
   useTimeCharge?: boolean; // New: Time Charge Support
 
+  // Contract currency (ISO 4217); unset = JPY. Flow, stock and time-charge amounts are in this currency
+  currency?: string;
+  // Consumption tax on all billings of the project; unset = standard. Contract amounts exclude tax
+  taxCode?: TaxCode;
+
   // Revenue Recognition (New)
   revenueMethod?: RevenueRecognitionMethod;
+  prorationMethod?: ProrationMethod; // Duration basis only; unset = Month (equal share per month touched)
+  // Percentage-of-completion basis only: progress = actual cost (or hours) to date / estimated total
+  completionBasis?: 'cost' | 'hours'; // Default 'cost'
+  completionEstimates?: CompletionEstimate[];
 
   // Flow Parameters (e.g. Development)
   flowAmount: number;
@@ -132,18 +210,27 @@ export interface Project {
   flowEndDate: string;   // ISO Date (Replaces duration)
 
   // Stock Parameters (e.g. Maintenance)
-  stockAmount: number; // Monthly
+  stockAmount: number; // Monthly rate from stockStartDate until the first entry of stockRateSchedule
+  stockRateSchedule?: StockRate[]; // Price revisions; earlier months keep the rate they were billed at
   stockStartDate: string; // ISO Date
+  stockEndDate?: string;       // ISO Date. End of the initial contract term; unset = open-ended
+  stockRenewalMonths?: number; // Auto-renewal term after stockEndDate; 0/unset = the contract ends at stockEndDate
+  stockNoticeMonths?: number;  // Notice required before a term end to cancel
+  stockCancellation?: StockCancellation;
 
-  // Time Charge Parameters (Monthly Manual Input)
-  // Key: "YYYY-MM", Value: Amount
+  // Time Charge Parameters
+  // Manual monthly amounts. Key: "YYYY-MM", Value: Amount. Overrides the amount computed from hours x rates
   timeChargePrices?: Record<string, number>;
+  timeChargeRates?: TimeChargeRate[];
+  timeChargeCap?: number;   // Monthly ceiling on the computed amount (0/unset = none)
+  timeChargeFloor?: number; // Monthly minimum for months with hours (0/unset = none)
 
   // Tasks Definition
   projectTasks: ProjectTask[];
 
   // Billing & Cashflow
   billingConfig: BillingConfig;
+  receipts?: Receipt[]; // Customer payments recorded against billing events (入金消込)
 
   assignments: Assignment[];
   isArchived?: boolean;
@@ -160,9 +247,104 @@ export interface AppSettings {
   targetLaborShareMax: number;
   salesTargets: Record<string, number>;
   monthlySalesTarget?: number;
-  initialCashBalance: number;
+  initialCashBalance: number; // Opening balance of `cashBalanceAsOf`
+  cashBalanceAsOf?: string;   // YYYY-MM. Month the balance applies to; projections carry it across terms
   cashFlowItems: CashFlowItem[];
   leadSourceOptions?: Record<string, string[]>; // Dynamic lead sources
+
+  fxRates?: FxRate[]; // Rates for foreign-currency projects
+  invoiceIssuer?: InvoiceIssuer; // Our details printed on invoices
+  receivablesFrom?: string;       // YYYY-MM. First billing month tracked as receivables with recorded receipts
+  closedDays?: ClosedDay[];       // Company-specific closed days on top of weekends and national holidays
+  taxRates?: TaxRate[];           // Consumption tax rate table; unset = DEFAULT_TAX_RATES (utils.ts)
+  consumptionTax?: ConsumptionTaxSettings;
+
+  // Fiscal calendar (see utils.ts term helpers)
+  fiscalYearEndMonth: number;  // 1-12, e.g. 11 = November close, 3 = March close
+  firstTermStartDate?: string; // YYYY-MM-DD. Start of the first term (創業期), which may be shorter than 12 months
+}
+
+// --- Business-day calendar ---
+export type BusinessDayShift = 'none' | 'previous' | 'next';
+
+// Company closed days such as 年末年始. Recurring entries are MM-DD and may wrap the year end (12-29 to 01-03);
+// one-off entries are YYYY-MM-DD.
+export interface ClosedDay {
+  id: string;
+  name: string;
+  start: string;
+  end?: string; // Inclusive. Unset = single day
+  recurring?: boolean;
+}
+
+// --- Consumption tax ---
+// standard / reduced are taxed at the rate table; zeroRated (輸出免税), exempt (非課税) and nonTaxable (不課税) are 0%
+export type TaxCode = 'standard' | 'reduced' | 'zeroRated' | 'exempt' | 'nonTaxable';
+
+// Rate of a tax code from `effectiveFrom` until the next entry of the same code, so a future change is one more entry
+export interface TaxRate {
+  id: string;
+  code: TaxCode;
+  rate: number;          // Percent
+  effectiveFrom: string; // YYYY-MM-DD
+}
+
+// Projected consumption tax payments (中間納付 and the final payment) in the cash flow
+export interface ConsumptionTaxSettings {
+  enabled: boolean;
+  taxableFromTerm?: number; // Earlier terms are exempt (免税事業者); unset = every term is taxable
+}
+
+// Monthly FX rate of a contract currency, in JPY per unit
+export interface FxRate {
+  currency: string; // ISO 4217, e.g. USD
+  month: string;    // YYYY-MM
+  average: number;  // Monthly average: revenue is recognized at this rate
+  spot: number;     // Month-end spot: receipts in the month are converted at this rate
+}
+
+// Issuer block of invoices (適格請求書発行事業者)
+export interface InvoiceIssuer {
+  companyName: string;
+  registrationNumber: string; // インボイス登録番号: T + 13 digits
+  address?: string;
+  phone?: string;
+  bankAccount?: string; // Payment account printed under the totals
+  numberPrefix: string; // Invoice numbers are prefix + zero-padded sequence, e.g. INV-00012
+}
+
+// --- Invoices ---
+export type InvoiceStatus = 'draft' | 'issued' | 'void';
+
+export interface InvoiceLine {
+  id: string;
+  description: string;
+  quantity: number;
+  unit?: string;    // e.g. 式, 時間, ヶ月
+  unitPrice: number;
+  amount: number;   // Excluding tax
+  taxRate: number;  // Percent, resolved from taxCode at the issue date
+  taxCode?: TaxCode; // Unset on lines created before tax codes: 8 = reduced, 0 = exempt, otherwise standard
+  sourceKey?: string; // Billing event the line was created from (see services/invoices.ts), so it is not invoiced twice
+}
+
+export interface Invoice {
+  id: string;
+  sequence?: number; // Assigned on issue and never reused, even when the invoice is voided
+  number?: string;   // Printed number: issuer prefix + sequence
+  projectId: string;
+  clientName: string;  // Copied at creation so the invoice reads the same after the project changes
+  projectName: string;
+  billingMonth: string; // YYYY-MM. Month of the billed transactions (取引年月)
+  issueDate: string;   // YYYY-MM-DD
+  dueDate: string;     // YYYY-MM-DD
+  currency?: string;   // Contract currency of the project; unset = JPY
+  lines: InvoiceLine[];
+  notes?: string;
+  status: InvoiceStatus;
+  issuedAt?: string; // ISO DateTime
+  voidedAt?: string; // ISO DateTime
+  voidReason?: string;
 }
 
 export interface FiscalTerm {
@@ -172,19 +354,158 @@ export interface FiscalTerm {
   endMonth: string;
 }
 
+// Shape of the dataset as written to storage. `schemaVersion` drives services/migrations.ts.
+export interface PersistedData {
+  schemaVersion: number;
+  employees: Employee[];
+  projects: Project[];
+  workLogs: WorkLog[];
+  settings: AppSettings;
+  currentTerm: number;
+  auditLog: AuditEntry[];
+  invoices: Invoice[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+// How dependent records (work logs, assignments) are handled when an entity is deleted
+export type DeleteOptions =
+  | { mode: 'cascade' }                     // Delete dependents together with the entity
+  | { mode: 'reassign', targetId: string }; // Move dependents to another entity of the same type
+
+// Undoable part of the dataset (currentTerm is view state and is not part of history)
+export interface DataSnapshot {
+  employees: Employee[];
+  projects: Project[];
+  workLogs: WorkLog[];
+  invoices: Invoice[];
+  settings: AppSettings;
+}
+
+export interface HistoryEntry {
+  label: string; // e.g. 案件『DX推進基盤開発』を削除しました
+  before: DataSnapshot;
+  after: DataSnapshot;
+  coalesceKey?: string;
+  timestamp: number;
+}
+
+// --- Audit Trail ---
+export type AuditEntityType = 'project' | 'employee' | 'invoice' | 'cashFlowItem' | 'salesTarget' | 'settings';
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface AuditFieldChange {
+  field: string; // Dot path for nested values, e.g. billingConfig.flowSplit
+  before: unknown;
+  after: unknown;
+}
+
+// Append-only record of one entity change. Undo/redo are recorded as new entries.
+export interface AuditEntry {
+  id: string;
+  timestamp: string; // ISO DateTime
+  userEmail: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityName: string; // Name at the time of the change (survives deletion)
+  action: AuditAction;
+  changes: AuditFieldChange[];
+  description: string; // The operation label, e.g. 案件『DX推進基盤開発』を更新しました
+}
+
+export interface HistoryAction {
+  id: string; // Unique per action so the toast re-appears for repeated labels
+  type: 'do' | 'undo' | 'redo';
+  label: string;
+}
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  lastAction: HistoryAction | null;
+}
+
+export interface StorageStatus {
+  label: string; // Active persistence backend
+  isLoaded: boolean;
+  error: string | null;
+}
+
+// --- User Accounts ---
+export type UserRole = 'admin' | 'manager' | 'member';
+
+export interface UserAccount {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  employeeId?: string; // Explicit employee link; otherwise the employee with the same email is used
+  passwordHash: string; // PBKDF2-SHA256, base64
+  passwordSalt: string; // base64
+  passwordIterations: number;
+  oidcSubject?: string; // Identity provider subject once the account has signed in with OpenID Connect
+  ssoManaged?: boolean; // Created by single sign-on: the role follows the provider's claims
+  disabled?: boolean;
+  createdAt: string;
+}
+
+// Account without credentials, as exposed to the UI
+export type AuthUser = Omit<UserAccount, 'passwordHash' | 'passwordSalt' | 'passwordIterations'>;
+
+// Browser session of a signed-in account (stored in localStorage)
+export interface AuthSession {
+  token: string;
+  accountId: string;
+  issuedAt: number;        // epoch ms
+  expiresAt: number;       // Absolute expiry; the UI locks afterwards
+  authenticatedAt: number; // Last password entry, for re-authentication of sensitive screens
+  lastActiveAt: number;    // Last user activity, for the idle lock
+}
+
+export type Permission =
+  | 'project:edit'
+  | 'employee:edit'
+  | 'employee:viewCost'   // Employee.defaultMonthlyCost and monthly cost overrides
+  | 'worklog:editAll'     // Without it, only the linked employee's own rows
+  | 'worklog:editOwn'
+  | 'invoice:edit'        // Create, issue and void invoices; record receipts
+  | 'settings:edit'
+  | 'data:manage'         // Import, restore, orphan cleanup
+  | 'user:manage';
+
 export interface DataContextType {
   employees: Employee[];
   projects: Project[];
   workLogs: WorkLog[];
+  invoices: Invoice[];
   settings: AppSettings;
   currentTerm: number;
+  auditLog: AuditEntry[];
   setCurrentTerm: (year: number) => void;
   addEmployee: (emp: Omit<Employee, 'id'>) => void;
   updateEmployee: (emp: Employee) => void;
-  deleteEmployee: (id: string) => void;
+  deleteEmployee: (id: string, options?: DeleteOptions) => void;
+  archiveEmployee: (id: string, archived: boolean) => void;
   addProject: (proj: Omit<Project, 'id'>) => void;
   updateProject: (proj: Project) => void;
-  deleteProject: (id: string) => void;
+  deleteProject: (id: string, options?: DeleteOptions) => void;
+  archiveProject: (id: string, archived: boolean) => void;
+  // Deletes work logs and assignments that point to missing projects or employees
+  removeOrphans: () => void;
   updateWorkLog: (log: WorkLog) => void;
-  updateSettings: (settings: AppSettings) => void;
+  addInvoices: (invoices: Omit<Invoice, 'id'>[]) => void;
+  updateInvoice: (invoice: Invoice) => void; // Drafts only
+  deleteInvoice: (id: string) => void;       // Drafts only; issued invoices are voided instead
+  issueInvoice: (id: string) => void;
+  voidInvoice: (id: string, reason: string) => void;
+  recordReceipt: (projectId: string, receipt: Omit<Receipt, 'id'>) => void;
+  deleteReceipt: (projectId: string, receiptId: string) => void;
+  updateSettings: (settings: AppSettings, description?: string) => void;
+  importData: (data: PersistedData, mode: ImportMode) => void;
+  // Runs several mutations as a single undo step
+  batch: (label: string, fn: () => void) => void;
+  undo: () => void;
+  redo: () => void;
+  history: HistoryState;
+  storageStatus: StorageStatus;
 }
@@ -1,5 +1,5 @@
 
-import { Project, Employee, WorkLog, AppSettings, CashFlowCategory, ProjectStatus, RevenueRecognitionMethod } from './types';
+import { Project, Employee, WorkLog, AppSettings, CashFlowCategory, ProjectStatus, RevenueRecognitionMethod, ProrationMethod, BillingInstallment, FxRate, Receipt, BusinessDayShift, ClosedDay, CashFlowItem, TaxCode, TaxRate, ContractType } from './types';
 
 export const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('ja-JP', {
@@ -22,14 +22,100 @@ export const parseLocalDate = (dateStr: string): Date => {
   return new Date(y, m - 1, d);
 };
 
-export const getTermDateRange = (termYear: number) => {
-  const start = new Date(termYear - 1, 11, 1); // Dec 1
-  const end = new Date(termYear, 10, 30); // Nov 30
+// --- Fiscal Term Helpers ---
+// A term is named after the calendar year in which it ends (e.g. 2026年3月期 = Apr 2025 - Mar 2026).
+export type FiscalCalendar = Pick<AppSettings, 'fiscalYearEndMonth' | 'firstTermStartDate'>;
+
+// Term that contains the given date
+export const getTermForDate = (date: Date, fiscal: FiscalCalendar) => {
+  return date.getMonth() + 1 > fiscal.fiscalYearEndMonth ? date.getFullYear() + 1 : date.getFullYear();
+};
+
+// The first term (創業期) may start mid-year; it always ends at the regular fiscal year end
+export const getFirstTerm = (fiscal: FiscalCalendar): number | null => {
+  return fiscal.firstTermStartDate ? getTermForDate(parseLocalDate(fiscal.firstTermStartDate), fiscal) : null;
+};
+
+export const getTermDateRange = (termYear: number, fiscal: FiscalCalendar) => {
+  const endMonth = fiscal.fiscalYearEndMonth; // 1-12
+  let start = new Date(termYear - 1, endMonth, 1); // 1st of the month after the previous year end
+  const end = new Date(termYear, endMonth, 0); // Last day of the year-end month
+  if (getFirstTerm(fiscal) === termYear) {
+    start = parseLocalDate(fiscal.firstTermStartDate!);
+  }
   return { start, end };
 };
 
-export const getTermMonthsWithWeeks = (termYear: number) => {
-  const { start, end } = getTermDateRange(termYear);
+// Number of (calendar) months in a term: 12, or fewer for a short first term
+export const getTermMonthCount = (termYear: number, fiscal: FiscalCalendar) => {
+  const { start, end } = getTermDateRange(termYear, fiscal);
+  return (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth()) + 1;
+};
+
+// First day of every month in the term
+export const getTermMonths = (termYear: number, fiscal: FiscalCalendar): Date[] => {
+  const { start } = getTermDateRange(termYear, fiscal);
+  return Array.from({ length: getTermMonthCount(termYear, fiscal) }, (_, i) => new Date(start.getFullYear(), start.getMonth() + i, 1));
+};
+
+export const getTermLabel = (termYear: number, fiscal: FiscalCalendar) => {
+  const label = `${termYear}年${fiscal.fiscalYearEndMonth}月期`;
+  return getFirstTerm(fiscal) === termYear ? `${label} (創業期)` : label;
+};
+
+// Selectable terms: from the first term (or two terms back) to a few terms ahead, always including `currentTerm`
+export const getTermOptions = (currentTerm: number, fiscal: FiscalCalendar) => {
+  const todayTerm = getTermForDate(new Date(), fiscal);
+  const firstTerm = getFirstTerm(fiscal);
+  const minYear = Math.min(firstTerm ?? todayTerm - 2, currentTerm);
+  const maxYear = Math.max(todayTerm + 3, currentTerm + 1);
+  const options: number[] = [];
+  for (let y = minYear; y <= maxYear; y++) options.push(y);
+  return options;
+};
+
+// --- Projection Range ---
+// 'term': the selected fiscal term. 'rolling': N months from any month, crossing term boundaries.
+export type ProjectionRange =
+  | { mode: 'term' }
+  | { mode: 'rolling', startMonth: string, months: number }; // startMonth: YYYY-MM
+
+export const ROLLING_HORIZONS = [12, 18, 24, 36];
+
+// Amount in a contract currency (whole units, as amounts are entered)
+export const formatMoney = (amount: number, currency = 'JPY') => {
+  return new Intl.NumberFormat('ja-JP', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+export const getCurrencySymbol = (currency = 'JPY') =>
+  new Intl.NumberFormat('ja-JP', { style: 'currency', currency }).formatToParts(0).find(part => part.type === 'currency')?.value || currency;
+
+export const toMonthKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+export const toDateKey = (d: Date) => `${toMonthKey(d)}-${String(d.getDate()).padStart(2, '0')}`;
+
+const monthsBetween = (from: Date, to: Date) => (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+
+export const resolveProjectionRange = (range: ProjectionRange, termYear: number, fiscal: FiscalCalendar) => {
+  if (range.mode === 'rolling') {
+    return { start: parseLocalDate(`${range.startMonth}-01`), monthCount: range.months };
+  }
+  return { start: getTermDateRange(termYear, fiscal).start, monthCount: getTermMonthCount(termYear, fiscal) };
+};
+
+// First month of each term inside a projection (excluding the first row), for chart dividers
+export const getTermBoundaries = (rows: { date: Date, monthKey: string }[], fiscal: FiscalCalendar) => {
+  return rows
+    .filter((row, i) => i > 0 && getTermForDate(row.date, fiscal) !== getTermForDate(rows[i - 1].date, fiscal))
+    .map(row => ({ monthKey: row.monthKey, label: getTermLabel(getTermForDate(row.date, fiscal), fiscal) }));
+};
+
+export const getTermMonthsWithWeeks = (termYear: number, fiscal: FiscalCalendar) => {
+  const { start, end } = getTermDateRange(termYear, fiscal);
   const months = [];
   
   let currentMonthStart = new Date(start);
@@ -129,6 +215,36 @@ export const getMonthOverlapDays = (targetYear: number, targetMonth: number, ran
   return diffDays;
 };
 
+// Helper: Business days (see isBusinessDay) shared by a target month and a date range
+export const getMonthOverlapBusinessDays = (targetYear: number, targetMonth: number, rangeStartStr: string, rangeEndStr: string, closedDays?: ClosedDay[]): number => {
+  const rangeStart = parseLocalDate(rangeStartStr);
+  const rangeEnd = parseLocalDate(rangeEndStr);
+  const monthEnd = new Date(targetYear, targetMonth + 1, 0);
+  const from = rangeStart > new Date(targetYear, targetMonth, 1) ? rangeStart : new Date(targetYear, targetMonth, 1);
+  const to = rangeEnd < monthEnd ? rangeEnd : monthEnd;
+
+  let days = 0;
+  for (const d = new Date(from); d <= to; d.setDate(d.getDate() + 1)) {
+    if (isBusinessDay(d, closedDays)) days++;
+  }
+  return days;
+};
+
+// Weight of each month of a Duration-basis flow period, in order from the start month
+const getProrationWeights = (project: Project, startMonthIndex: number, endMonthIndex: number, closedDays?: ClosedDay[]) => {
+  const method = project.prorationMethod || ProrationMethod.Month;
+  const weights: number[] = [];
+  for (let idx = startMonthIndex; idx <= endMonthIndex; idx++) {
+    const y = Math.floor(idx / 12);
+    const m = idx % 12;
+    if (method === ProrationMethod.CalendarDay) weights.push(getMonthOverlapDays(y, m, project.flowStartDate, project.flowEndDate));
+    else if (method === ProrationMethod.BusinessDay) weights.push(getMonthOverlapBusinessDays(y, m, project.flowStartDate, project.flowEndDate, closedDays));
+    else weights.push(1);
+  }
+  // A period with no business days at all falls back to equal monthly shares
+  return weights.some(w => w > 0) ? weights : weights.map(() => 1);
+};
+
 export const getTotalDays = (year: number, month: number) => {
   return new Date(year, month + 1, 0).getDate();
 };
@@ -142,9 +258,8 @@ export const getEmployeeMonthlyData = (employee: Employee, year: number, month:
   };
 };
 
-export const getProjectMonthlyCost = (project: Project, employees: Employee[], year: number, month: number) => {
-  // Plan based cost (Assignments)
-  let cost = 0;
+// Whether assignments count as planned work in the month (plan-based cost and time-charge forecast)
+const isPlanMonth = (project: Project, year: number, month: number) => {
   const mStart = new Date(year, month, 1);
   const mEnd = new Date(year, month + 1, 0);
 
@@ -158,16 +273,22 @@ export const getProjectMonthlyCost = (project: Project, employees: Employee[], y
       
       // If current month is outside the Flow period, return 0 cost.
       if (mEnd < s || mStart > e) {
-          return 0;
+          return false;
       }
   } else if (!project.useFlow && project.useStock && project.stockStartDate) {
-      // Pure Stock project: check start date
-      const s = parseLocalDate(project.stockStartDate);
-      if (mEnd < s) return 0;
+      // Pure Stock project: only while the contract runs
+      if (!isStockActiveInMonth(project, year, month)) return false;
   } else if (!project.useFlow && !project.useStock && !project.useTimeCharge) {
       // No active contract type
-      return 0;
+      return false;
   }
+  return true;
+};
+
+export const getProjectMonthlyCost = (project: Project, employees: Employee[], year: number, month: number) => {
+  // Plan based cost (Assignments)
+  let cost = 0;
+  if (!isPlanMonth(project, year, month)) return 0;
 
   project.assignments.forEach(assign => {
       const emp = employees.find(e => e.id === assign.employeeId);
@@ -202,11 +323,244 @@ export const getProjectActualCost = (project: Project, employees: Employee[], wo
     return Math.floor(cost);
 };
 
-export const getMonthlyRevenue = (project: Project, date: Date) => {
+// --- Stock contract terms ---
+
+// Term end `months` after `end`, staying on the last day of the month for month-end terms
+const addTermMonths = (end: Date, months: number) => {
+  const nextStart = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1);
+  return new Date(nextStart.getFullYear(), nextStart.getMonth() + months, nextStart.getDate() - 1);
+};
+
+// End of the contract term running on `asOf` (auto-renewals included), or null for open-ended contracts
+export const getStockTermEnd = (project: Project, asOf: Date): Date | null => {
+  if (!project.stockEndDate) return null;
+  let end = parseLocalDate(project.stockEndDate);
+  const renewal = project.stockRenewalMonths || 0;
+  if (renewal > 0) {
+    while (end < asOf) end = addTermMonths(end, renewal);
+  }
+  return end;
+};
+
+// Last day of service: a recorded cancellation, else the contract end when it does not auto-renew
+export const getStockEndDate = (project: Project): Date | null => {
+  if (project.stockCancellation?.endDate) return parseLocalDate(project.stockCancellation.endDate);
+  if (project.stockEndDate && !(project.stockRenewalMonths && project.stockRenewalMonths > 0)) return parseLocalDate(project.stockEndDate);
+  return null;
+};
+
+// Monthly stock rate in effect for a month: the latest revision effective on or before it, else stockAmount
+export const getStockRate = (project: Project, year: number, month: number) => {
+  const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
+  const revision = (project.stockRateSchedule || [])
+    .filter(r => r.effectiveMonth <= monthKey)
+    .sort((a, b) => a.effectiveMonth.localeCompare(b.effectiveMonth))
+    .pop();
+  return revision ? revision.monthlyAmount : project.stockAmount;
+};
+
+// Stock is billed for every month from the start month through the month of the end date
+export const isStockActiveInMonth = (project: Project, year: number, month: number) => {
+  if (!project.useStock || !project.stockStartDate) return false;
+  if (parseLocalDate(project.stockStartDate) > new Date(year, month + 1, 0)) return false;
+  const end = getStockEndDate(project);
+  return !end || end >= new Date(year, month, 1);
+};
+
+// Earliest end for a cancellation notified on `noticeDate`: the first term end at least the notice period away.
+// Open-ended contracts end at the close of the month the notice period runs out.
+export const getEarliestCancellationEnd = (project: Project, noticeDate: Date) => {
+  const earliest = new Date(noticeDate.getFullYear(), noticeDate.getMonth() + (project.stockNoticeMonths || 0), noticeDate.getDate());
+  return getStockTermEnd(project, earliest) || new Date(earliest.getFullYear(), earliest.getMonth() + 1, 0);
+};
+
+export interface StockRenewal {
+  project: Project;
+  termEnd: Date;
+  noticeDeadline: Date; // Last day to give notice before termEnd
+  autoRenews: boolean;
+}
+
+// Running stock contracts whose current term ends within `withinMonths` of `today`
+export const getUpcomingRenewals = (projects: Project[], today: Date, withinMonths: number): StockRenewal[] => {
+  const horizon = new Date(today.getFullYear(), today.getMonth() + withinMonths, today.getDate());
+  const renewals: StockRenewal[] = [];
+  projects.forEach(p => {
+    if (!p.useStock || p.isArchived || p.status === ProjectStatus.Lost || p.stockCancellation) return;
+    const termEnd = getStockTermEnd(p, today);
+    if (!termEnd || termEnd < today || termEnd > horizon) return;
+    const noticeDeadline = new Date(termEnd.getFullYear(), termEnd.getMonth() - (p.stockNoticeMonths || 0), termEnd.getDate());
+    renewals.push({ project: p, termEnd, noticeDeadline, autoRenews: (p.stockRenewalMonths || 0) > 0 });
+  });
+  return renewals.sort((a, b) => a.termEnd.getTime() - b.termEnd.getTime());
+};
+
+// Work data needed for percentage-of-completion revenue
+export interface RevenueContext {
+  employees: Employee[];
+  workLogs: WorkLog[];
+  fxRates?: FxRate[];
+  closedDays?: ClosedDay[]; // Company closed days for payment date shifts and business-day proration
+  taxRates?: TaxRate[];
+}
+
+// --- Foreign currency ---
+
+export const CONTRACT_CURRENCIES = ['JPY', 'USD', 'EUR', 'GBP', 'SGD'];
+
+export const getProjectCurrency = (project: Project) => project.currency || 'JPY';
+
+// JPY per unit for a month: the latest rate on or before it (future months carry the last known rate),
+// else the earliest recorded. null when the currency has no rates at all.
+export const getFxRate = (fxRates: FxRate[] | undefined, currency: string, monthKey: string, kind: 'average' | 'spot') => {
+  if (currency === 'JPY') return 1;
+  const rates = (fxRates || []).filter(r => r.currency === currency).sort((a, b) => a.month.localeCompare(b.month));
+  if (rates.length === 0) return null;
+  const effective = rates.filter(r => r.month <= monthKey);
+  return (effective.length > 0 ? effective[effective.length - 1] : rates[0])[kind];
+};
+
+// Contract-currency amount of a project in JPY. Without a rate a foreign amount counts as 0 (see getMissingFxCurrencies)
+export const toJpy = (project: Project, amount: number, monthKey: string, kind: 'average' | 'spot', fxRates?: FxRate[]) => {
+  const rate = getFxRate(fxRates, getProjectCurrency(project), monthKey, kind);
+  return rate === null ? 0 : Math.floor(amount * rate);
+};
+
+// Cash received for an amount billed in `billedMonth` and paid in `paidMonth`: JPY at the receipt (spot) rate,
+// and the FX gain (+) or loss (-) against the average rate the revenue was recognized at
+export const getReceiptInJpy = (project: Project, amount: number, billedMonth: string, paidMonth: string, fxRates?: FxRate[]) => {
+  const received = toJpy(project, amount, paidMonth, 'spot', fxRates);
+  return { received, fxGainLoss: received - toJpy(project, amount, billedMonth, 'average', fxRates) };
+};
+
+// Contract currencies used by active projects that have no rate registered
+export const getMissingFxCurrencies = (projects: Project[], fxRates?: FxRate[]) =>
+  Array.from(new Set(projects.filter(p => !p.isArchived).map(getProjectCurrency)))
+    .filter(c => getFxRate(fxRates, c, '9999-12', 'average') === null);
+
+// Estimate in effect for a month: the latest effective on or before it, else the earliest recorded
+export const getCompletionEstimate = (project: Project, monthKey: string) => {
+    const estimates = [...(project.completionEstimates || [])].sort((a, b) => a.effectiveMonth.localeCompare(b.effectiveMonth) || a.recordedAt.localeCompare(b.recordedAt));
+    const effective = estimates.filter(e => e.effectiveMonth <= monthKey);
+    return effective.length > 0 ? effective[effective.length - 1] : estimates[0];
+};
+
+// A finished project is 100% complete from its flow end month, whatever the actual cost came to: delivered, or past
+// the end date and not lost
+const isCompletedBy = (project: Project, monthKey: string) => {
+    if (!project.flowEndDate || project.status === ProjectStatus.Lost || monthKey < project.flowEndDate.slice(0, 7)) return false;
+    const now = new Date();
+    return project.status === ProjectStatus.Delivered || parseLocalDate(project.flowEndDate) < new Date(now.getFullYear(), now.getMonth(), now.getDate());
+};
+
+// Percentage-of-completion progress as of the end of `date`'s month. Actual cost comes from getProjectActualCost.
+export const getCompletionProgress = (project: Project, date: Date, ctx: RevenueContext) => {
+    const monthKey = toMonthKey(date);
+    const estimate = getCompletionEstimate(project, monthKey);
+    if (!estimate) return null;
+
+    const logs = ctx.workLogs.filter(l => l.projectId === project.id && l.weekStartDate.slice(0, 7) <= monthKey);
+    let actual = 0;
+    if (project.completionBasis === 'hours') {
+        actual = logs.reduce((sum, l) => sum + l.actualHours, 0);
+    } else {
+        const months = Array.from(new Set(logs.map(l => l.weekStartDate.slice(0, 7))));
+        actual = months.reduce((sum, key) => {
+            const d = parseLocalDate(`${key}-01`);
+            return sum + getProjectActualCost(project, ctx.employees, logs, d.getFullYear(), d.getMonth());
+        }, 0);
+    }
+    const ratio = isCompletedBy(project, monthKey) ? 1 : estimate.estimatedTotal > 0 ? Math.min(1, actual / estimate.estimatedTotal) : 0;
+    return { actual, estimate, ratio };
+};
+
+export interface TimeChargeLine {
+    employeeId: string;
+    hours: number;
+    hourlyRate: number;
+    amount: number;
+}
+
+export interface TimeChargeBilling {
+    source: 'actual' | 'forecast' | 'override';
+    lines: TimeChargeLine[];
+    subtotal: number;   // Hours x rates
+    adjustment: number; // Added by the monthly floor or cut by the cap
+    amount: number;     // Billed: the manual amount if entered, else subtotal + adjustment
+}
+
+// Hourly rate of an employee on a time-charge project: their own rate, else the project default
+export const getTimeChargeRate = (project: Project, employeeId: string) => {
+    const rates = project.timeChargeRates || [];
+    return (rates.find(r => r.employeeId === employeeId) || rates.find(r => !r.employeeId))?.hourlyRate || 0;
+};
+
+// Time-charge billing for a month. Months with logged hours bill the actuals; the current and future months
+// without them bill assignment-based forecast hours. A manual amount in `timeChargePrices` overrides both.
+// Without `ctx` or rates only the manual amounts are known.
+export const getTimeChargeBilling = (project: Project, year: number, month: number, ctx?: RevenueContext): TimeChargeBilling => {
+    const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
+    const hoursByEmployee = new Map<string, number>();
+    let source: TimeChargeBilling['source'] = 'actual';
+
+    if (project.useTimeCharge && ctx && (project.timeChargeRates || []).length > 0) {
+        const logs = ctx.workLogs.filter(l => l.projectId === project.id && l.weekStartDate.slice(0, 7) === monthKey);
+        const now = new Date();
+        const isPast = new Date(year, month, 1) < new Date(now.getFullYear(), now.getMonth(), 1);
+        if (logs.length > 0) {
+            logs.forEach(l => hoursByEmployee.set(l.employeeId, (hoursByEmployee.get(l.employeeId) || 0) + l.actualHours));
+        } else if (!isPast && isPlanMonth(project, year, month)) {
+            source = 'forecast';
+            project.assignments.forEach(a => {
+                const emp = ctx.employees.find(e => e.id === a.employeeId);
+                if (emp) hoursByEmployee.set(a.employeeId, getEmployeeMonthlyData(emp, year, month).monthlyHours * (a.utilizationRate / 100));
+            });
+        }
+    }
+
+    const lines = Array.from(hoursByEmployee.entries())
+        .filter(([, hours]) => hours > 0)
+        .map(([employeeId, hours]) => {
+            const hourlyRate = getTimeChargeRate(project, employeeId);
+            return { employeeId, hours, hourlyRate, amount: Math.floor(hours * hourlyRate) };
+        });
+    const subtotal = lines.reduce((sum, l) => sum + l.amount, 0);
+    let billed = subtotal;
+    if (lines.length > 0 && project.timeChargeFloor) billed = Math.max(billed, project.timeChargeFloor);
+    if (project.timeChargeCap) billed = Math.min(billed, project.timeChargeCap);
+
+    const override = project.timeChargePrices?.[monthKey];
+    if (override !== undefined) return { source: 'override', lines, subtotal, adjustment: billed - subtotal, amount: override };
+    return { source, lines, subtotal, adjustment: billed - subtotal, amount: billed };
+};
+
+// Stock and time-charge revenue of a month; these are billed monthly on the stock payment terms
+export const getRecurringRevenue = (project: Project, date: Date, ctx?: RevenueContext) => {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+    let revenue = 0;
+
+    // Simple monthly amount (No day proration) matches "Every month end fixed billing"
+    if (isStockActiveInMonth(project, year, month)) {
+        revenue += getStockRate(project, year, month);
+    }
+    if (project.useTimeCharge) {
+        revenue += getTimeChargeBilling(project, year, month, ctx).amount;
+    }
+    return revenue;
+};
+
+// Revenue of a month in JPY, converted at the month's average rate (see getMonthlyContractRevenue)
+export const getMonthlyRevenue = (project: Project, date: Date, ctx?: RevenueContext) =>
+    toJpy(project, getMonthlyContractRevenue(project, date, ctx), toMonthKey(date), 'average', ctx?.fxRates);
+
+// Revenue of a month in the contract currency.
+// `ctx` is needed for percentage-of-completion and rate-based time-charge projects; without it
+// their revenue is 0 (time charge: the manual amounts only)
+export const getMonthlyContractRevenue = (project: Project, date: Date, ctx?: RevenueContext) => {
     let revenue = 0;
     const year = date.getFullYear();
     const month = date.getMonth();
-    const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
     const mStart = new Date(year, month, 1);
     const mEnd = new Date(year, month + 1, 0);
 
@@ -217,74 +571,154 @@ export const getMonthlyRevenue = (project: Project, date: Date) => {
         
         // Revenue Recognition Logic
         if (project.revenueMethod === RevenueRecognitionMethod.Milestone) {
-            // Billing Basis
-            // Start Portion
-            if (s.getFullYear() === year && s.getMonth() === month) {
-                 const ratio = project.billingConfig.flowStartRatio || 0;
-                 if (project.billingConfig.flowSplit) {
-                     // Ensure integer
-                     revenue += Math.floor(project.flowAmount * (ratio / 100));
-                 }
-            }
-            // End Portion
-            if (e.getFullYear() === year && e.getMonth() === month) {
-                if (project.billingConfig.flowSplit) {
-                    const ratio = project.billingConfig.flowStartRatio || 0;
-                    // Calculate start amount same as above to ensure exact remainder
-                    const startAmount = Math.floor(project.flowAmount * (ratio / 100));
-                    revenue += (project.flowAmount - startAmount);
-                } else {
-                    revenue += project.flowAmount;
-                }
+            // Billing Basis: revenue in the months the installments (or start/end portions) are billed
+            getFlowBillingEvents(project).forEach(ev => {
+                if (ev.billingDate.getFullYear() === year && ev.billingDate.getMonth() === month) revenue += ev.amount;
+            });
+        } else if (project.revenueMethod === RevenueRecognitionMethod.PercentageOfCompletion) {
+            // Cumulative catch-up: recognized to date minus recognized to the previous month (under the estimate
+            // in effect then). A re-estimate is corrected in full in the month it takes effect.
+            if (ctx) {
+                const recognizedTo = (d: Date) => {
+                    const progress = getCompletionProgress(project, d, ctx);
+                    return progress ? Math.floor(project.flowAmount * progress.ratio) : 0;
+                };
+                revenue += recognizedTo(date) - recognizedTo(new Date(year, month - 1, 1));
             }
-
         } else {
-            // Duration Basis (Monthly Leveling)
-            // Logic: Prorate equally among all integer months touched by the period.
-            // We need strict start and end months for the logic to identify "last month" correctly.
+            // Duration Basis: spread over the months touched by the period, weighted per `prorationMethod`.
+            // Each month gets the floored share and the last month takes the remainder, so the total is exactly flowAmount.
             const startMonthIndex = s.getFullYear() * 12 + s.getMonth();
             const endMonthIndex = e.getFullYear() * 12 + e.getMonth();
             const currentMonthIndex = year * 12 + month;
 
             if (currentMonthIndex >= startMonthIndex && currentMonthIndex <= endMonthIndex) {
-                const totalMonths = endMonthIndex - startMonthIndex + 1;
-                
-                if (totalMonths > 0) {
-                     const baseAmount = Math.floor(project.flowAmount / totalMonths);
-                     const remainder = project.flowAmount % totalMonths;
-                     
-                     // Add remainder to the last month
-                     if (currentMonthIndex === endMonthIndex) {
-                         revenue += baseAmount + remainder;
-                     } else {
-                         revenue += baseAmount;
-                     }
+                const weights = getProrationWeights(project, startMonthIndex, endMonthIndex, ctx?.closedDays);
+                const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+                const shares = weights.map(w => Math.floor((project.flowAmount * w) / totalWeight));
+
+                if (currentMonthIndex === endMonthIndex) {
+                    revenue += project.flowAmount - shares.slice(0, -1).reduce((sum, v) => sum + v, 0);
+                } else {
+                    revenue += shares[currentMonthIndex - startMonthIndex];
                 }
             }
         }
     }
 
-    // 2. Stock Revenue
-    if (project.useStock && project.stockStartDate) {
-        const s = parseLocalDate(project.stockStartDate);
-        // Assume valid if start date <= month end
-        // Simple monthly amount (No day proration) matches "Every month end fixed billing"
-        if (s <= mEnd) {
-             revenue += project.stockAmount;
-        }
-    }
+    // 2. Stock & Time Charge Revenue
+    revenue += getRecurringRevenue(project, date, ctx);
+
+    return Math.floor(revenue);
+};
+
+// --- Business-day calendar ---
+
+export const BUSINESS_DAY_SHIFT_LABELS: Record<BusinessDayShift, string> = {
+    none: 'そのまま',
+    previous: '前営業日',
+    next: '翌営業日',
+};
+
+// n-th Monday of a month (Happy Monday holidays)
+const nthMonday = (year: number, month: number, n: number) => {
+    const firstDay = new Date(year, month, 1).getDay();
+    return 1 + ((8 - firstDay) % 7) + (n - 1) * 7;
+};
+
+// 春分・秋分: the standard approximation, valid 1980-2099. The official dates are announced a year ahead
+const equinoxDay = (year: number, base: number) =>
+    Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+const holidayCache = new Map<number, Map<string, string>>();
 
-    // 3. Time Charge
-    if (project.useTimeCharge && project.timeChargePrices) {
-        const amount = project.timeChargePrices[monthKey];
-        if (amount) revenue += amount;
+// Japanese national holidays of a year as YYYY-MM-DD -> name, generated from the Holiday Act (2000 onwards),
+// including 振替休日 and 国民の休日. No network lookup: special one-off days are listed below.
+export const getJapaneseHolidays = (year: number): Map<string, string> => {
+    const cached = holidayCache.get(year);
+    if (cached) return cached;
+
+    const base: [number, number, string][] = [
+        [0, 1, '元日'],
+        [0, nthMonday(year, 0, 2), '成人の日'],
+        [1, 11, '建国記念の日'],
+        [2, equinoxDay(year, 20.8431), '春分の日'],
+        [3, 29, year >= 2007 ? '昭和の日' : 'みどりの日'],
+        [4, 3, '憲法記念日'],
+        [4, 5, 'こどもの日'],
+        [8, nthMonday(year, 8, 3), '敬老の日'],
+        [8, equinoxDay(year, 23.2488), '秋分の日'],
+        [10, 3, '文化の日'],
+        [10, 23, '勤労感謝の日'],
+    ];
+    if (year >= 2007) base.push([4, 4, 'みどりの日']);
+    if (year >= 2020) base.push([1, 23, '天皇誕生日']);
+    else if (year <= 2018) base.push([11, 23, '天皇誕生日']);
+    // 2020 and 2021 moved 海の日・スポーツの日・山の日 around the Olympics
+    if (year === 2020) base.push([6, 23, '海の日'], [6, 24, 'スポーツの日'], [7, 10, '山の日']);
+    else if (year === 2021) base.push([6, 22, '海の日'], [6, 23, 'スポーツの日'], [7, 8, '山の日']);
+    else {
+        base.push([6, nthMonday(year, 6, 3), '海の日']);
+        base.push([9, nthMonday(year, 9, 2), year >= 2020 ? 'スポーツの日' : '体育の日']);
+        if (year >= 2016) base.push([7, 11, '山の日']);
     }
+    if (year === 2019) base.push([4, 1, '天皇の即位の日'], [9, 22, '即位礼正殿の儀']);
 
-    return Math.floor(revenue);
+    const holidays = new Map<string, string>();
+    base.forEach(([m, d, name]) => holidays.set(toDateKey(new Date(year, m, d)), name));
+
+    // 国民の休日: a weekday sandwiched between two holidays
+    base.forEach(([m, d]) => {
+        const between = new Date(year, m, d + 1);
+        const key = toDateKey(between);
+        if (!holidays.has(key) && between.getDay() !== 0 && holidays.has(toDateKey(new Date(year, m, d + 2)))) {
+            holidays.set(key, '国民の休日');
+        }
+    });
+
+    // 振替休日: a holiday on Sunday moves to the next day that is not a holiday
+    Array.from(holidays.keys()).forEach(key => {
+        const date = parseLocalDate(key);
+        if (date.getDay() !== 0) return;
+        const substitute = new Date(date);
+        do substitute.setDate(substitute.getDate() + 1); while (holidays.has(toDateKey(substitute)));
+        if (substitute.getFullYear() === year) holidays.set(toDateKey(substitute), '振替休日');
+    });
+
+    const sorted = new Map(Array.from(holidays.entries()).sort(([a], [b]) => a.localeCompare(b)));
+    holidayCache.set(year, sorted);
+    return sorted;
 };
 
-// Helper for cash flow payment dates
-const getPaymentDate = (year: number, month: number, delay: number, day: number) => {
+export const isClosedDay = (date: Date, closedDays: ClosedDay[] = []) => {
+    const dateKey = toDateKey(date);
+    const monthDay = dateKey.slice(5);
+    return closedDays.some(c => {
+        const end = c.end || c.start;
+        if (!c.recurring) return dateKey >= c.start && dateKey <= end;
+        // A recurring range may wrap the year end, e.g. 12-29 to 01-03
+        return c.start <= end ? monthDay >= c.start && monthDay <= end : monthDay >= c.start || monthDay <= end;
+    });
+};
+
+// Not a weekend, national holiday or company closed day
+export const isBusinessDay = (date: Date, closedDays?: ClosedDay[]) =>
+    date.getDay() !== 0 && date.getDay() !== 6
+    && !getJapaneseHolidays(date.getFullYear()).has(toDateKey(date))
+    && !isClosedDay(date, closedDays);
+
+export const shiftToBusinessDay = (date: Date, shift: BusinessDayShift = 'none', closedDays?: ClosedDay[]) => {
+    if (shift === 'none') return date;
+    const step = shift === 'previous' ? -1 : 1;
+    const shifted = new Date(date);
+    // Bounded so a misconfigured calendar (e.g. a closed range covering the whole year) cannot loop forever
+    for (let i = 0; i < 366 && !isBusinessDay(shifted, closedDays); i++) shifted.setDate(shifted.getDate() + step);
+    return isBusinessDay(shifted, closedDays) ? shifted : date;
+};
+
+// Payment date `delay` months after the billing month on `day` (99 = month end), moved off closed days by `shift`.
+// Used for cash flow and invoice due dates
+export const getPaymentDate = (year: number, month: number, delay: number, day: number, shift: BusinessDayShift = 'none', closedDays?: ClosedDay[]) => {
     // Add delay months
     let targetDate = new Date(year, month + delay, 1);
     
@@ -295,15 +729,418 @@ const getPaymentDate = (year: number, month: number, delay: number, day: number)
     } else {
         targetDate.setDate(day);
     }
-    return targetDate;
+    return shiftToBusinessDay(targetDate, shift, closedDays);
+};
+
+export interface FlowBillingEvent {
+    key: string; // Stable within the project, whatever the date or name: the installment id, or start / end
+    name: string;
+    billingDate: Date;
+    paymentDate: Date;
+    amount: number; // Excluding tax
+    taxCode?: TaxCode; // The installment's own tax code, if it has one
+}
+
+// Installment amounts in schedule order. The last installment is always the remainder, so the total is exactly flowAmount
+export const getInstallmentAmounts = (flowAmount: number, installments: BillingInstallment[]) => {
+    const amounts = installments.map(inst => Math.floor(inst.amountType === 'percent' ? (flowAmount * inst.value) / 100 : inst.value));
+    if (amounts.length > 0) amounts[amounts.length - 1] = flowAmount - amounts.slice(0, -1).reduce((sum, v) => sum + v, 0);
+    return amounts;
+};
+
+// Billing date of an installment: its trigger date, or the due date of the linked task. Falls back to the flow end date
+export const getInstallmentDate = (project: Project, inst: BillingInstallment) => {
+    const date = inst.taskId
+        ? (project.projectTasks || []).find(t => t.id === inst.taskId)?.dueDate
+        : inst.triggerDate;
+    return date || project.flowEndDate || '';
+};
+
+// Flow contract billings: the installment schedule when set, otherwise the lump sum at the end or the start/end split.
+// Milestone revenue and the cash projections both read these, so they reconcile to flowAmount.
+export const getFlowBillingEvents = (project: Project, closedDays?: ClosedDay[]): FlowBillingEvent[] => {
+    if (!project.useFlow) return [];
+    const config = project.billingConfig;
+    const events: FlowBillingEvent[] = [];
+    const push = (key: string, name: string, date: string | undefined, amount: number, delay: number, payDay: number, taxCode?: TaxCode) => {
+        if (!date) return;
+        const billingDate = parseLocalDate(date);
+        events.push({ key, name, billingDate, amount, taxCode, paymentDate: getPaymentDate(billingDate.getFullYear(), billingDate.getMonth(), delay, payDay, config.paymentShift, closedDays) });
+    };
+
+    const installments = config.installments || [];
+    if (installments.length > 0) {
+        const amounts = getInstallmentAmounts(project.flowAmount, installments);
+        installments.forEach((inst, i) => push(inst.id, inst.name, getInstallmentDate(project, inst), amounts[i], inst.delay || 0, inst.payDay || 99, inst.taxCode));
+    } else if (config.flowSplit) {
+        const startAmount = Math.floor(project.flowAmount * ((config.flowStartRatio || 0) / 100));
+        push('start', '着手金', project.flowStartDate, startAmount, config.flowStartDelay || 0, config.flowStartPayDay || 99);
+        push('end', '完了金', project.flowEndDate, project.flowAmount - startAmount, config.flowEndDelay || 0, config.flowEndPayDay || 99);
+    } else {
+        push('end', '一括', project.flowEndDate, project.flowAmount, config.flowEndDelay || 0, config.flowEndPayDay || 99);
+    }
+    return events;
+};
+
+// --- Consumption tax ---
+
+export const TAX_CODE_LABELS: Record<TaxCode, string> = {
+    standard: '課税 (標準税率)',
+    reduced: '課税 (軽減税率)',
+    zeroRated: '免税 (輸出等)',
+    exempt: '非課税',
+    nonTaxable: '不課税',
+};
+
+export const TAXABLE_CODES: TaxCode[] = ['standard', 'reduced'];
+
+// Statutory rates. Codes without an entry (zeroRated, exempt, nonTaxable) are always 0%
+export const DEFAULT_TAX_RATES: TaxRate[] = [
+    { id: 'tax-standard-2014', code: 'standard', rate: 8, effectiveFrom: '2014-04-01' },
+    { id: 'tax-standard-2019', code: 'standard', rate: 10, effectiveFrom: '2019-10-01' },
+    { id: 'tax-reduced-2019', code: 'reduced', rate: 8, effectiveFrom: '2019-10-01' },
+];
+
+// Rate (%) of a tax code on `date`: the latest entry effective by then
+export const getTaxRate = (code: TaxCode, date: Date, taxRates: TaxRate[] = DEFAULT_TAX_RATES) => {
+    const dateKey = toDateKey(date);
+    let latest: TaxRate | undefined;
+    taxRates.forEach(r => {
+        if (r.code === code && r.effectiveFrom <= dateKey && (!latest || r.effectiveFrom > latest.effectiveFrom)) latest = r;
+    });
+    return latest?.rate ?? 0;
+};
+
+// Tax on a tax-exclusive amount, rounded down
+export const getTaxOnNet = (amount: number, rate: number) => Math.floor((amount * rate) / 100);
+// Tax contained in a tax-inclusive amount, rounded down
+export const getTaxInGross = (amount: number, rate: number) => Math.floor((amount * rate) / (100 + rate));
+
+export const getProjectTaxCode = (project: Project): TaxCode => project.taxCode || 'standard';
+export const getCashFlowItemTaxCode = (item: CashFlowItem): TaxCode => item.taxCode || 'nonTaxable';
+
+export interface BillingEvent extends Omit<FlowBillingEvent, 'key'> {
+    kind: 'flow' | 'stock' | 'timeCharge';
+    // Identifies the event across invoices and receipts: flow:<FlowBillingEvent.key>, or stock:<YYYY-MM> and
+    // timeCharge:<YYYY-MM> (the billing month). Flow keys survive changes to an installment's date or name.
+    sourceKey: string;
+    timeCharge?: TimeChargeBilling;
+    taxCode: TaxCode;
+    taxRate: number; // Percent on the billing date
+}
+
+// Tax code of the billing (an installment's own, else the project's) and its rate on the billing date
+const getBillingTax = (project: Project, billingDate: Date, ctx?: RevenueContext, taxCode = getProjectTaxCode(project)) =>
+    ({ taxCode, taxRate: getTaxRate(taxCode, billingDate, ctx?.taxRates) });
+
+const toFlowBillingEvent = (project: Project, ctx?: RevenueContext) => (ev: FlowBillingEvent): BillingEvent =>
+    ({ ...ev, kind: 'flow', sourceKey: `flow:${ev.key}`, ...getBillingTax(project, ev.billingDate, ctx, ev.taxCode) });
+
+// Everything billed to a project in a month. Stock and time charge are billed at month end on the stock payment terms.
+// Time charge of the current and future months is an assignment-based forecast (see getTimeChargeBilling).
+export const getMonthBillingEvents = (project: Project, year: number, month: number, ctx?: RevenueContext): BillingEvent[] => {
+    const monthKey = toMonthKey(new Date(year, month, 1));
+    const events = getFlowBillingEvents(project, ctx?.closedDays)
+        .filter(ev => ev.billingDate.getFullYear() === year && ev.billingDate.getMonth() === month)
+        .map(toFlowBillingEvent(project, ctx));
+
+    const billingDate = new Date(year, month + 1, 0);
+    const config = project.billingConfig;
+    const paymentDate = getPaymentDate(year, month, config.stockDelay || 0, config.stockPayDay || 99, config.paymentShift, ctx?.closedDays);
+    const tax = getBillingTax(project, billingDate, ctx);
+    if (isStockActiveInMonth(project, year, month)) {
+        events.push({ kind: 'stock', sourceKey: `stock:${monthKey}`, name: '月額利用料', billingDate, paymentDate, amount: getStockRate(project, year, month), ...tax });
+    }
+    if (project.useTimeCharge) {
+        const timeCharge = getTimeChargeBilling(project, year, month, ctx);
+        if (timeCharge.amount > 0) {
+            events.push({ kind: 'timeCharge', sourceKey: `timeCharge:${monthKey}`, name: 'タイムチャージ', billingDate, paymentDate, amount: timeCharge.amount, timeCharge, ...tax });
+        }
+    }
+    return events;
+};
+
+// Billed amounts including tax of one project's billing events, rounded the way its invoices are: events of the same
+// billing month and due date go on one invoice (see buildInvoiceDrafts), whose tax is rounded down once per tax code
+// and rate. Each group's tax is split over its events by amount, the last taking the remainder, so the receivables
+// of an invoice add up to its total.
+const getBilledAmounts = (events: BillingEvent[]) => {
+    const groups = new Map<string, BillingEvent[]>();
+    events.forEach(ev => {
+        const key = `${toMonthKey(ev.billingDate)}:${toDateKey(ev.paymentDate)}:${ev.taxCode}:${ev.taxRate}`;
+        groups.set(key, [...(groups.get(key) || []), ev]);
+    });
+    const billed = new Map<BillingEvent, number>();
+    groups.forEach(group => {
+        const subtotal = group.reduce((sum, ev) => sum + ev.amount, 0);
+        const tax = getTaxOnNet(subtotal, group[0].taxRate);
+        let allocated = 0;
+        group.forEach((ev, i) => {
+            const share = i === group.length - 1 ? tax - allocated : subtotal ? Math.floor((tax * ev.amount) / subtotal) : 0;
+            allocated += share;
+            billed.set(ev, ev.amount + share);
+        });
+    });
+    return billed;
+};
+
+// --- Accounts receivable (売掛金) ---
+
+export interface Receivable extends BillingEvent {
+    project: Project;
+    billed: number;      // Contract currency, including tax
+    received: number;
+    outstanding: number; // Negative when overpaid
+    receipts: Receipt[];
+}
+
+// Billing events billed on or before `asOf`, with the receipts recorded against them. Tracking starts at the billing
+// month `receivablesFrom`; earlier billings (and all of them while it is unset) keep their computed payment dates.
+export const getReceivables = (projects: Project[], settings: Pick<AppSettings, 'receivablesFrom'>, asOf: Date, ctx?: RevenueContext): Receivable[] => {
+    if (!settings.receivablesFrom) return [];
+    const from = parseLocalDate(`${settings.receivablesFrom}-01`);
+    const receivables: Receivable[] = [];
+
+    projects.forEach(project => {
+        for (let d = from; d <= asOf; d = new Date(d.getFullYear(), d.getMonth() + 1, 1)) {
+            const events = getMonthBillingEvents(project, d.getFullYear(), d.getMonth(), ctx)
+                .filter(ev => ev.billingDate <= asOf && ev.timeCharge?.source !== 'forecast');
+            const billedAmounts = getBilledAmounts(events);
+            events.forEach(ev => {
+                const receipts = (project.receipts || []).filter(r => r.sourceKey === ev.sourceKey);
+                const billed = billedAmounts.get(ev)!;
+                const received = receipts.reduce((sum, r) => sum + r.amount, 0);
+                receivables.push({ ...ev, project, billed, received, outstanding: billed - received, receipts });
+            });
+        }
+    });
+    return receivables;
+};
+
+export interface ExpectedReceipt {
+    project: Project;
+    date: Date;
+    amount: number;      // Contract currency, including tax
+    taxRate: number;     // Percent included in the amount
+    billedMonth: string; // YYYY-MM. The revenue side of FX gains and losses
+}
+
+// Customer cash-in dated between `from` and `to`. Receivables (billed by today) contribute their recorded receipts
+// and their unpaid balance on the due date, or today once overdue, so late payments roll forward instead of vanishing.
+// Later billings are expected on their computed payment date.
+export const getExpectedReceipts = (projects: Project[], settings: AppSettings, from: Date, to: Date, ctx?: RevenueContext): ExpectedReceipt[] => {
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const receivables = getReceivables(projects, settings, today, ctx);
+    const tracked = new Set(receivables.map(r => `${r.project.id}:${r.sourceKey}`));
+    const result: ExpectedReceipt[] = [];
+    const expect = (project: Project, date: Date, amount: number, taxRate: number, billedMonth: string) => {
+        if (amount !== 0 && date >= from && date <= to) result.push({ project, date, amount, taxRate, billedMonth });
+    };
+
+    receivables.forEach(r => {
+        const billedMonth = toMonthKey(r.billingDate);
+        r.receipts.forEach(receipt => expect(r.project, parseLocalDate(receipt.date), receipt.amount, r.taxRate, billedMonth));
+        if (r.outstanding > 0) expect(r.project, r.paymentDate < today ? today : r.paymentDate, r.outstanding, r.taxRate, billedMonth);
+    });
+
+    projects.forEach(p => {
+        const events = getFlowBillingEvents(p, ctx?.closedDays).map(toFlowBillingEvent(p, ctx));
+        // Stock and time charge: the billing months whose payment falls in the range, plus one month either side
+        // for payments moved across a month boundary by the business-day shift
+        const delay = p.billingConfig.stockDelay || 0;
+        const last = new Date(to.getFullYear(), to.getMonth() + 1, 1);
+        for (let d = new Date(from.getFullYear(), from.getMonth() - delay - 1, 1); d <= last; d = new Date(d.getFullYear(), d.getMonth() + 1, 1)) {
+            events.push(...getMonthBillingEvents(p, d.getFullYear(), d.getMonth(), ctx).filter(ev => ev.kind !== 'flow'));
+        }
+        // Receipts already recorded against a later billing (an advance, or a date moved past today) are counted
+        // as cash below, so only the rest is still expected
+        const billedAmounts = getBilledAmounts(events);
+        events.filter(ev => !tracked.has(`${p.id}:${ev.sourceKey}`)).forEach(ev => {
+            const received = (p.receipts || []).filter(r => r.sourceKey === ev.sourceKey).reduce((sum, r) => sum + r.amount, 0);
+            const remaining = billedAmounts.get(ev)! - received;
+            if (remaining > 0) expect(p, ev.paymentDate, remaining, ev.taxRate, toMonthKey(ev.billingDate));
+        });
+        // Receipts of billings not yet due, or that no longer match a billing event (e.g. an installment was removed),
+        // are still cash
+        (p.receipts || [])
+            .filter(receipt => !tracked.has(`${p.id}:${receipt.sourceKey}`))
+            .forEach(receipt => {
+                const date = parseLocalDate(receipt.date);
+                expect(p, date, receipt.amount, getTaxRate(getProjectTaxCode(p), date, ctx?.taxRates), receipt.date.slice(0, 7));
+            });
+    });
+    return result;
+};
+
+// Payment dates of a cash flow item between `from` and `to`, after the business-day shift. Recurring items pay on
+// `payDay` (default 25th, 99 = month end) of each month in their period; one-off items on their date.
+export const getCashFlowItemDates = (item: CashFlowItem, from: Date, to: Date, closedDays?: ClosedDay[]): Date[] => {
+    const dates: Date[] = [];
+    if (item.isRecurring) {
+        if (!item.periodStart) return dates;
+        const start = parseLocalDate(`${item.periodStart}-01`);
+        const end = item.periodEnd ? parseLocalDate(`${item.periodEnd}-01`) : new Date(9999, 11, 31);
+        const last = new Date(to.getFullYear(), to.getMonth() + 1, 1);
+        for (let d = new Date(from.getFullYear(), from.getMonth() - 1, 1); d <= last; d = new Date(d.getFullYear(), d.getMonth() + 1, 1)) {
+            if (d >= start && d <= end) dates.push(getPaymentDate(d.getFullYear(), d.getMonth(), 0, item.payDay || 25, item.shift, closedDays));
+        }
+    } else {
+        const pDate = item.paymentDate ? parseLocalDate(item.paymentDate) : (item.targetMonth ? parseLocalDate(`${item.targetMonth}-01`) : null);
+        if (pDate) dates.push(shiftToBusinessDay(pDate, item.shift, closedDays));
+    }
+    return dates.filter(d => d >= from && d <= to);
+};
+
+// --- Consumption tax payable (消費税の納付) ---
+
+// National share of the combined rate (7.8 of 10, 6.24 of 8). The interim filing thresholds apply to it
+const NATIONAL_TAX_SHARE = 0.78;
+// Tax deadlines on a weekend, holiday or 年末年始 move to the next business day
+const TAX_OFFICE_CLOSED_DAYS: ClosedDay[] = [{ id: 'tax-office-new-year', name: '年末年始', start: '12-29', end: '01-03', recurring: true }];
+// Cash flow categories outside the scope of consumption tax
+const NON_TAXABLE_CATEGORIES = [CashFlowCategory.Tax, CashFlowCategory.LoanRepayment, CashFlowCategory.LoanIn];
+
+// Contractor (業務委託) share of the labor cost of a month, on the same actual/plan basis as the projections.
+// Contractor costs exclude tax; the input tax is paid on top of them.
+export const getContractorTax = (projects: Project[], employees: Employee[], workLogs: WorkLog[], year: number, month: number, taxRates?: TaxRate[]) => {
+    const contractors = employees.filter(e => e.contractType === ContractType.Contractor);
+    if (contractors.length === 0) return 0;
+    const now = new Date();
+    const isPast = new Date(year, month, 1) < new Date(now.getFullYear(), now.getMonth(), 1);
+    const cost = projects.reduce((sum, p) => sum + (isPast
+        ? getProjectActualCost(p, contractors, workLogs, year, month)
+        : getProjectMonthlyCost(p, contractors, year, month)), 0);
+    return getTaxOnNet(cost, getTaxRate('standard', new Date(year, month + 1, 0), taxRates));
 };
 
-export const generateProjections = (projects: Project[], employees: Employee[], workLogs: WorkLog[], termStart: Date, settings: AppSettings) => {
+export interface ConsumptionTaxTerm {
+    termYear: number;
+    exempt: boolean;       // Before taxableFromTerm (免税事業者): nothing is payable
+    outputTax: number;     // On the term's billings (JPY at the billing month's average rate)
+    contractorTax: number; // Input tax on contractor costs
+    expenseTax: number;    // Input tax in taxable cash flow item payments
+    netPayable: number;    // Output minus input tax, rounded down to 100 yen. Negative = refund
+}
+
+// Consumption tax of a fiscal term under the general method (原則課税), with all input tax deductible
+export const getConsumptionTaxTerm = (termYear: number, projects: Project[], employees: Employee[], workLogs: WorkLog[], settings: AppSettings): ConsumptionTaxTerm => {
+    const exempt = !!settings.consumptionTax?.taxableFromTerm && termYear < settings.consumptionTax.taxableFromTerm;
+    const ctx: RevenueContext = { employees, workLogs, fxRates: settings.fxRates, closedDays: settings.closedDays, taxRates: settings.taxRates };
+    let outputTax = 0;
+    let contractorTax = 0;
+    let expenseTax = 0;
+
+    if (!exempt) {
+        getTermMonths(termYear, settings).forEach(d => {
+            const year = d.getFullYear();
+            const month = d.getMonth();
+            const monthKey = toMonthKey(d);
+            // Only won work is billed: pre-order and lost projects owe no tax
+            projects.filter(p => p.status === ProjectStatus.Ordered || p.status === ProjectStatus.Delivered).forEach(p => {
+                getMonthBillingEvents(p, year, month, ctx).forEach(ev => {
+                    outputTax += toJpy(p, getTaxOnNet(ev.amount, ev.taxRate), monthKey, 'average', settings.fxRates);
+                });
+            });
+            contractorTax += getContractorTax(projects, employees, workLogs, year, month, settings.taxRates);
+            settings.cashFlowItems
+                .filter(item => !NON_TAXABLE_CATEGORIES.includes(item.category))
+                .forEach(item => {
+                    const taxCode = getCashFlowItemTaxCode(item);
+                    getCashFlowItemDates(item, d, new Date(year, month + 1, 0), settings.closedDays).forEach(date => {
+                        expenseTax += getTaxInGross(item.amount, getTaxRate(taxCode, date, settings.taxRates));
+                    });
+                });
+        });
+    }
+
+    outputTax = Math.floor(outputTax);
+    const net = outputTax - contractorTax - expenseTax;
+    return { termYear, exempt, outputTax, contractorTax, expenseTax, netPayable: net > 0 ? Math.floor(net / 100) * 100 : net };
+};
+
+export interface ConsumptionTaxPayment {
+    termYear: number;
+    kind: 'interim' | 'final';
+    label: string;
+    dueDate: Date;
+    amount: number; // Negative = refund
+}
+
+// Statutory payments of a term. Interim payments (中間納付) follow the previous term's tax: none up to 480,000 yen
+// of national tax, one (6 months) up to 4,000,000, three (quarterly) up to 48,000,000 and eleven (monthly) above.
+// Each is due two months after its period; the final payment two months after the term end, net of the interims.
+export const getConsumptionTaxPayments = (termYear: number, settings: AppSettings, getTerm: (termYear: number) => ConsumptionTaxTerm): ConsumptionTaxPayment[] => {
+    const current = getTerm(termYear);
+    if (current.exempt) return [];
+    const months = getTermMonths(termYear, settings);
+    const dueAfter = (periodEnd: Date) => getPaymentDate(periodEnd.getFullYear(), periodEnd.getMonth(), 2, 99, 'next', TAX_OFFICE_CLOSED_DAYS);
+    const payments: ConsumptionTaxPayment[] = [];
+
+    const firstTerm = getFirstTerm(settings);
+    const prior = firstTerm !== null && termYear <= firstTerm ? null : getTerm(termYear - 1);
+    if (prior && !prior.exempt && prior.netPayable > 0) {
+        const national = prior.netPayable * NATIONAL_TAX_SHARE;
+        const step = national > 48000000 ? 1 : national > 4000000 ? 3 : national > 480000 ? 6 : 0;
+        if (step > 0) {
+            // Prorated by month, so a short previous term is scaled up
+            const amount = Math.floor((prior.netPayable / getTermMonthCount(termYear - 1, settings)) * step / 100) * 100;
+            const count = Math.ceil(months.length / step) - 1;
+            for (let i = 1; i <= count; i++) {
+                payments.push({ termYear, kind: 'interim', label: `中間納付 ${i}/${count}`, dueDate: dueAfter(months[i * step - 1]), amount });
+            }
+        }
+    }
+
+    const interimTotal = payments.reduce((sum, p) => sum + p.amount, 0);
+    const finalAmount = current.netPayable - interimTotal;
+    if (finalAmount !== 0) {
+        payments.push({ termYear, kind: 'final', label: finalAmount > 0 ? '確定申告 納付' : '確定申告 還付', dueDate: dueAfter(months[months.length - 1]), amount: finalAmount });
+    }
+    return payments;
+};
+
+// Projected consumption tax payments due between `from` and `to` (none unless settings.consumptionTax is enabled)
+export const getConsumptionTaxSchedule = (projects: Project[], employees: Employee[], workLogs: WorkLog[], settings: AppSettings, from: Date, to: Date): ConsumptionTaxPayment[] => {
+    if (!settings.consumptionTax?.enabled) return [];
+    const terms = new Map<number, ConsumptionTaxTerm>();
+    const getTerm = (termYear: number) => {
+        if (!terms.has(termYear)) terms.set(termYear, getConsumptionTaxTerm(termYear, projects, employees, workLogs, settings));
+        return terms.get(termYear)!;
+    };
+
+    // A term's final payment falls a little over two months after its end
+    const firstTerm = getFirstTerm(settings);
+    const fromTerm = getTermForDate(new Date(from.getFullYear(), from.getMonth() - 3, 1), settings);
+    const payments: ConsumptionTaxPayment[] = [];
+    for (let t = firstTerm !== null ? Math.max(fromTerm, firstTerm) : fromTerm; t <= getTermForDate(to, settings); t++) {
+        payments.push(...getConsumptionTaxPayments(t, settings, getTerm));
+    }
+    return payments.filter(p => p.dueDate >= from && p.dueDate <= to);
+};
+
+// Monthly PL/CF projection for `monthCount` months from `startMonth` (any month, may span several terms).
+// `settings.initialCashBalance` is the opening balance of `settings.cashBalanceAsOf`; balances are carried
+// forward (or back) from that anchor month, so every window shows the same balance for the same month.
+export const generateProjections = (projects: Project[], employees: Employee[], workLogs: WorkLog[], startMonth: Date, settings: AppSettings, monthCount = 12) => {
+    const windowStart = new Date(startMonth.getFullYear(), startMonth.getMonth(), 1);
+    const anchor = settings.cashBalanceAsOf ? parseLocalDate(`${settings.cashBalanceAsOf}-01`) : windowStart;
+    const rangeStart = anchor < windowStart ? anchor : windowStart;
+    const offset = monthsBetween(rangeStart, windowStart);
+    const anchorIdx = monthsBetween(rangeStart, anchor);
+    const totalMonths = Math.max(offset + monthCount, anchorIdx + 1);
+    const ctx: RevenueContext = { employees, workLogs, fxRates: settings.fxRates, closedDays: settings.closedDays, taxRates: settings.taxRates };
     const data = [];
-    let currentCash = settings.initialCashBalance;
 
-    for (let i = 0; i < 12; i++) {
-        const d = new Date(termStart.getFullYear(), termStart.getMonth() + i, 1);
+    const receiptsByMonth = new Map<string, ExpectedReceipt[]>();
+    getExpectedReceipts(projects, settings, rangeStart, new Date(rangeStart.getFullYear(), rangeStart.getMonth() + totalMonths, 0), ctx).forEach(r => {
+        const key = toMonthKey(r.date);
+        receiptsByMonth.set(key, [...(receiptsByMonth.get(key) || []), r]);
+    });
+    const taxPayments = getConsumptionTaxSchedule(projects, employees, workLogs, settings, rangeStart, new Date(rangeStart.getFullYear(), rangeStart.getMonth() + totalMonths, 0));
+
+    for (let i = 0; i < totalMonths; i++) {
+        const d = new Date(rangeStart.getFullYear(), rangeStart.getMonth() + i, 1);
         const year = d.getFullYear();
         const month = d.getMonth();
         const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
@@ -326,7 +1163,7 @@ export const generateProjections = (projects: Project[], employees: Employee[],
         // Calculate Revenue & Cost from Projects
         projects.forEach(p => {
             // Revenue
-            const rev = getMonthlyRevenue(p, d);
+            const rev = getMonthlyRevenue(p, d, ctx);
             revenue += rev;
             
             if (p.status === ProjectStatus.Ordered || p.status === ProjectStatus.Delivered) {
@@ -336,8 +1173,9 @@ export const generateProjections = (projects: Project[], employees: Employee[],
             }
 
             // Approximate Flow/Stock Split
+            const stockRate = toJpy(p, getStockRate(p, year, month) || 0, monthKey, 'average', settings.fxRates);
             let sPart = 0;
-            if (p.useStock) sPart = p.stockAmount || 0;
+            if (p.useStock) sPart = stockRate;
             // Cap stock part to actual revenue
             if (rev < sPart) sPart = rev;
             
@@ -346,13 +1184,7 @@ export const generateProjections = (projects: Project[], employees: Employee[],
                 sPart = rev;
             } else if (p.useStock && p.useFlow) {
                 // If Stock is active this month, Stock amount is fixed. Flow is the rest.
-                const s = parseLocalDate(p.stockStartDate);
-                const mEnd = new Date(year, month + 1, 0);
-                if (s <= mEnd) {
-                    sPart = p.stockAmount;
-                } else {
-                    sPart = 0;
-                }
+                sPart = isStockActiveInMonth(p, year, month) ? stockRate : 0;
             }
 
             stockRevenue += sPart;
@@ -370,56 +1202,17 @@ export const generateProjections = (projects: Project[], employees: Employee[],
         const target = settings.salesTargets[monthKey] || settings.monthlySalesTarget || 0;
 
         // --- CF (Cash Flow) ---
+        // Customer receipts (actual for receivables, see getExpectedReceipts), including tax.
+        // Foreign-currency receipts are converted at the spot rate of the payment month.
         let cashIn = 0;
-        
-        projects.forEach(p => {
-             // Flow Payment
-             if (p.useFlow) {
-                 const { flowSplit, flowStartRatio, flowStartDelay, flowStartPayDay, flowEndDelay, flowEndPayDay } = p.billingConfig;
-                 
-                 // Start Payment Date
-                 if (p.flowStartDate) {
-                     const s = parseLocalDate(p.flowStartDate);
-                     const sPayDate = getPaymentDate(s.getFullYear(), s.getMonth(), flowStartDelay || 0, flowStartPayDay || 99);
-                     
-                     if (sPayDate.getFullYear() === year && sPayDate.getMonth() === month) {
-                         const ratio = flowSplit ? (flowStartRatio || 0) / 100 : 0; 
-                         if (flowSplit) {
-                             cashIn += p.flowAmount * ratio;
-                         }
-                     }
-                 }
-
-                 // End Payment Date
-                 if (p.flowEndDate) {
-                     const e = parseLocalDate(p.flowEndDate);
-                     const ePayDate = getPaymentDate(e.getFullYear(), e.getMonth(), flowEndDelay || 0, flowEndPayDay || 99);
-                     
-                     if (ePayDate.getFullYear() === year && ePayDate.getMonth() === month) {
-                         if (flowSplit) {
-                             const ratio = (100 - (flowStartRatio || 0)) / 100;
-                             cashIn += p.flowAmount * ratio;
-                         } else {
-                             cashIn += p.flowAmount;
-                         }
-                     }
-                 }
-             }
-
-             // Stock & Time Charge Payment
-             if ((p.useStock && p.stockStartDate) || p.useTimeCharge) {
-                 const delay = p.billingConfig.stockDelay || 0;
-                 const targetRevenueMonth = new Date(year, month - delay, 1);
-                 
-                 const rev = getMonthlyRevenue(p, targetRevenueMonth);
-                 if (rev > 0) {
-                     cashIn += rev;
-                 }
-             }
+        let cashInTax = 0;
+        let fxGainLoss = 0;
+        (receiptsByMonth.get(monthKey) || []).forEach(r => {
+            const receipt = getReceiptInJpy(r.project, r.amount, r.billedMonth, monthKey, settings.fxRates);
+            cashIn += receipt.received;
+            cashInTax += getTaxInGross(receipt.received, r.taxRate);
+            fxGainLoss += receipt.fxGainLoss;
         });
-        
-        // Add Consumption Tax (10%) to Cash In
-        cashIn = Math.floor(cashIn * 1.1);
 
         // Cash Out: Expenses
         // 1. Labor Cost (Calculated above). Usually paid next month.
@@ -437,44 +1230,53 @@ export const generateProjections = (projects: Project[], employees: Employee[],
                  totalLaborCostPrevMonth += getProjectMonthlyCost(p, employees, prevMonth.getFullYear(), prevMonth.getMonth());
              }
         });
-        paidCost = totalLaborCostPrevMonth;
+        // Contractors are paid including consumption tax (modelled with the consumption tax projection)
+        const contractorTax = settings.consumptionTax?.enabled
+            ? getContractorTax(projects, employees, workLogs, prevMonth.getFullYear(), prevMonth.getMonth(), settings.taxRates)
+            : 0;
+        paidCost = totalLaborCostPrevMonth + contractorTax;
 
         // 2. SG&A and Others
         let sga = 0;
+        let sgaTax = 0;
         let taxRepayment = 0;
         let investment = 0;
         let financialIn = 0;
 
         settings.cashFlowItems.forEach(item => {
-            let occurs = false;
-            if (item.isRecurring) {
-                if (item.periodStart) {
-                    const start = parseLocalDate(`${item.periodStart}-01`);
-                    const end = item.periodEnd ? parseLocalDate(`${item.periodEnd}-01`) : new Date(9999, 11, 31);
-                    if (d >= start && d <= end) occurs = true;
-                }
-            } else {
-                const pDate = item.paymentDate ? parseLocalDate(item.paymentDate) : (item.targetMonth ? parseLocalDate(`${item.targetMonth}-01`) : null);
-                if (pDate && pDate.getFullYear() === year && pDate.getMonth() === month) occurs = true;
-            }
-
-            if (occurs) {
-                if (item.category === CashFlowCategory.OperatingExpense) sga += item.amount;
-                else if (item.category === CashFlowCategory.Tax || item.category === CashFlowCategory.LoanRepayment) taxRepayment += item.amount;
-                else if (item.category === CashFlowCategory.Investment) investment += item.amount;
-                else if (item.category === CashFlowCategory.LoanIn) financialIn += item.amount;
-                else sga += item.amount;
+            // A shifted payment can leave its month (or arrive from the neighbouring one)
+            const dates = getCashFlowItemDates(item, d, new Date(year, month + 1, 0), settings.closedDays);
+            const amount = item.amount * dates.length;
+            if (amount === 0) return;
+            // Consumption tax paid within the amount, at the rate of each payment date
+            const taxCode = getCashFlowItemTaxCode(item);
+            const tax = dates.reduce((sum, date) => sum + getTaxInGross(item.amount, getTaxRate(taxCode, date, settings.taxRates)), 0);
+            if (item.category === CashFlowCategory.Tax || item.category === CashFlowCategory.LoanRepayment) taxRepayment += amount;
+            else if (item.category === CashFlowCategory.Investment) investment += amount;
+            else if (item.category === CashFlowCategory.LoanIn) financialIn += amount;
+            else {
+                // Operating expenses and others
+                sga += amount;
+                sgaTax += tax;
             }
         });
 
-        const totalCashIn = cashIn + financialIn;
+        // 3. Consumption tax: interim and final payments due this month (a refund is cash in)
+        const consumptionTax = taxPayments
+            .filter(p => p.dueDate.getFullYear() === year && p.dueDate.getMonth() === month)
+            .reduce((sum, p) => sum + p.amount, 0);
+        if (consumptionTax > 0) taxRepayment += consumptionTax;
+        const taxRefund = consumptionTax < 0 ? -consumptionTax : 0;
+
+        const totalCashIn = cashIn + financialIn + taxRefund;
         const totalCashOut = paidCost + sga + taxRepayment + investment;
         
         const cashBalanceChange = totalCashIn - totalCashOut;
-        currentCash += cashBalanceChange;
 
         data.push({
             month: `${month + 1}月`,
+            monthKey,
+            yearMonthLabel: `${year}/${month + 1}`,
             date: d,
             revenue,
             target,
@@ -482,23 +1284,89 @@ export const generateProjections = (projects: Project[], employees: Employee[],
             potentialRevenue,
             flowRevenue,
             stockRevenue,
-            cost: paidCost,
-            sga,
-            taxRepayment,
+            laborCost: cost, // PL basis (accrued in the month)
+            grossProfit: revenue - cost,
+            cost: paidCost,  // CF basis (paid the following month)
+            contractorTax,   // Consumption tax paid to contractors within cost
+            sga,             // CF basis, including tax
+            sgaExpense: sga - sgaTax, // PL basis, excluding tax
+            sgaTax,
+            taxRepayment,    // Includes consumptionTax when payable
+            consumptionTax,  // Projected consumption tax due this month; negative = refund
+            taxRefund,
             investment,
             cashIn,
+            cashInTax, // Consumption tax received within cashIn
+            fxGainLoss, // Realized on this month's foreign-currency receipts
             financialIn,
             totalCashIn,
             totalCashOut,
-            cashBalance: currentCash,
+            cashBalance: 0, // Closing balance, filled in below
             cashBalanceChange
         });
     }
+
+    // Closing balances: forward from the anchor month, and backward for months before it
+    data[anchorIdx].cashBalance = settings.initialCashBalance + data[anchorIdx].cashBalanceChange;
+    for (let i = anchorIdx + 1; i < data.length; i++) {
+        data[i].cashBalance = data[i - 1].cashBalance + data[i].cashBalanceChange;
+    }
+    for (let i = anchorIdx - 1; i >= 0; i--) {
+        data[i].cashBalance = data[i + 1].cashBalance - data[i + 1].cashBalanceChange;
+    }
     
-    return data;
+    return data.slice(offset, offset + monthCount);
 };
 
-export const generateDailyCashFlow = (date: Date, projects: Project[], settings: AppSettings, initialBalance: number) => {
+// --- Term Comparison ---
+export type TermProjection = ReturnType<typeof generateProjections>;
+
+export interface TermSummary {
+  termYear: number;
+  label: string;
+  rows: TermProjection;
+  revenue: number;
+  stockRevenue: number;
+  flowRevenue: number;
+  laborCost: number;
+  grossProfit: number;
+  endingCash: number;
+}
+
+export const summarizeTerm = (projects: Project[], employees: Employee[], workLogs: WorkLog[], termYear: number, settings: AppSettings): TermSummary => {
+    const { start, monthCount } = resolveProjectionRange({ mode: 'term' }, termYear, settings);
+    const rows = generateProjections(projects, employees, workLogs, start, settings, monthCount);
+    const sum = (key: 'revenue' | 'stockRevenue' | 'flowRevenue' | 'laborCost' | 'grossProfit') => rows.reduce((acc, r) => acc + r[key], 0);
+    return {
+        termYear,
+        label: getTermLabel(termYear, settings),
+        rows,
+        revenue: sum('revenue'),
+        stockRevenue: sum('stockRevenue'),
+        flowRevenue: sum('flowRevenue'),
+        laborCost: sum('laborCost'),
+        grossProfit: sum('grossProfit'),
+        endingCash: rows.length > 0 ? rows[rows.length - 1].cashBalance : settings.initialCashBalance,
+    };
+};
+
+// Term revenue per client (sum of getMonthlyRevenue over the term's months)
+export const getClientRevenueForTerm = (projects: Project[], termYear: number, fiscal: FiscalCalendar, ctx?: RevenueContext) => {
+    const months = getTermMonths(termYear, fiscal);
+    const byClient: Record<string, number> = {};
+    projects.forEach(p => {
+        const total = months.reduce((acc, d) => acc + getMonthlyRevenue(p, d, ctx), 0);
+        if (total === 0) return;
+        const client = p.clientName || '(未設定)';
+        byClient[client] = (byClient[client] || 0) + total;
+    });
+    return byClient;
+};
+
+// Growth rate in %, or null when there is no base to compare against
+export const getGrowthRate = (current: number, previous: number) => previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null;
+
+export const generateDailyCashFlow = (date: Date, projects: Project[], settings: AppSettings, initialBalance: number, ctx?: RevenueContext) => {
     const year = date.getFullYear();
     const month = date.getMonth();
     const daysInMonth = getTotalDays(year, month);
@@ -506,72 +1374,26 @@ export const generateDailyCashFlow = (date: Date, projects: Project[], settings:
     let currentBalance = initialBalance;
     
     const dailyChanges: Record<number, number> = {};
+    const monthKey = toMonthKey(date);
 
-    // Projects
-    projects.forEach(p => {
-        if (p.useFlow) {
-             const { flowSplit, flowStartRatio, flowStartDelay, flowStartPayDay, flowEndDelay, flowEndPayDay } = p.billingConfig;
-             
-             if (p.flowStartDate) {
-                 const s = parseLocalDate(p.flowStartDate);
-                 const sPayDate = getPaymentDate(s.getFullYear(), s.getMonth(), flowStartDelay || 0, flowStartPayDay || 99);
-                 if (sPayDate.getFullYear() === year && sPayDate.getMonth() === month) {
-                     const amt = flowSplit ? p.flowAmount * ((flowStartRatio||0)/100) : 0;
-                     if (amt > 0) dailyChanges[sPayDate.getDate()] = (dailyChanges[sPayDate.getDate()] || 0) + Math.floor(amt * 1.1);
-                 }
-             }
-             if (p.flowEndDate) {
-                 const e = parseLocalDate(p.flowEndDate);
-                 const ePayDate = getPaymentDate(e.getFullYear(), e.getMonth(), flowEndDelay || 0, flowEndPayDay || 99);
-                 if (ePayDate.getFullYear() === year && ePayDate.getMonth() === month) {
-                     const amt = flowSplit ? p.flowAmount * ((100-(flowStartRatio||0))/100) : p.flowAmount;
-                     if (amt > 0) dailyChanges[ePayDate.getDate()] = (dailyChanges[ePayDate.getDate()] || 0) + Math.floor(amt * 1.1);
-                 }
-             }
-        }
-        
-        if ((p.useStock && p.stockStartDate) || p.useTimeCharge) {
-             const delay = p.billingConfig.stockDelay || 0;
-             const payDay = p.billingConfig.stockPayDay || 99;
-             const targetRevMonth = new Date(year, month - delay, 1);
-             const rev = getMonthlyRevenue(p, targetRevMonth);
-             
-             if (rev > 0) {
-                 const d = getPaymentDate(targetRevMonth.getFullYear(), targetRevMonth.getMonth(), delay, payDay);
-                 if (d.getFullYear() === year && d.getMonth() === month) {
-                     dailyChanges[d.getDate()] = (dailyChanges[d.getDate()] || 0) + Math.floor(rev * 1.1);
-                 }
-             }
-        }
+    // Customer receipts (foreign currency at the month's spot rate)
+    getExpectedReceipts(projects, settings, new Date(year, month, 1), new Date(year, month, daysInMonth), ctx).forEach(r => {
+        const day = r.date.getDate();
+        dailyChanges[day] = (dailyChanges[day] || 0) + toJpy(r.project, r.amount, monthKey, 'spot', settings.fxRates);
     });
 
-    // CF Items
-    settings.cashFlowItems.forEach(item => {
-        let occurs = false;
-        let day = 1;
-        
-        if (item.isRecurring) {
-            if (item.periodStart) {
-                const start = parseLocalDate(`${item.periodStart}-01`);
-                const end = item.periodEnd ? parseLocalDate(`${item.periodEnd}-01`) : new Date(9999, 11, 31);
-                const d = new Date(year, month, 1);
-                if (d >= start && d <= end) {
-                    occurs = true;
-                    day = item.payDay === 99 ? daysInMonth : (item.payDay || 25);
-                }
-            }
-        } else {
-             const pDate = item.paymentDate ? parseLocalDate(item.paymentDate) : (item.targetMonth ? parseLocalDate(`${item.targetMonth}-01`) : null);
-             if (pDate && pDate.getFullYear() === year && pDate.getMonth() === month) {
-                 occurs = true;
-                 day = pDate.getDate();
-             }
-        }
+    // Projected consumption tax payments on their due dates
+    getConsumptionTaxSchedule(projects, ctx?.employees || [], ctx?.workLogs || [], settings, new Date(year, month, 1), new Date(year, month, daysInMonth)).forEach(p => {
+        const day = p.dueDate.getDate();
+        dailyChanges[day] = (dailyChanges[day] || 0) - p.amount;
+    });
 
-        if (occurs) {
-            const sign = (item.category === CashFlowCategory.LoanIn) ? 1 : -1;
-            dailyChanges[day] = (dailyChanges[day] || 0) + (item.amount * sign);
-        }
+    // CF Items, on their business-day adjusted dates
+    settings.cashFlowItems.forEach(item => {
+        const sign = (item.category === CashFlowCategory.LoanIn) ? 1 : -1;
+        getCashFlowItemDates(item, new Date(year, month, 1), new Date(year, month, daysInMonth), settings.closedDays).forEach(d => {
+            dailyChanges[d.getDate()] = (dailyChanges[d.getDate()] || 0) + (item.amount * sign);
+        });
     });
     
     for (let d = 1; d <= daysInMonth; d++) {
@@ -580,7 +1402,8 @@ export const generateDailyCashFlow = (date: Date, projects: Project[], settings:
         data.push({
             day: d,
             change,
-            balance: currentBalance
+            balance: currentBalance,
+            businessDay: isBusinessDay(new Date(year, month, d), settings.closedDays)
         });
     }
     
@@ -12,7 +12,17 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND),
+        'process.env.DATA_SERVER_URL': JSON.stringify(env.DATA_SERVER_URL),
+        'process.env.OIDC_ISSUER': JSON.stringify(env.OIDC_ISSUER),
+        'process.env.OIDC_CLIENT_ID': JSON.stringify(env.OIDC_CLIENT_ID),
+        'process.env.OIDC_REDIRECT_URI': JSON.stringify(env.OIDC_REDIRECT_URI),
+        'process.env.OIDC_SCOPE': JSON.stringify(env.OIDC_SCOPE),
+        'process.env.OIDC_ALLOWED_DOMAINS': JSON.stringify(env.OIDC_ALLOWED_DOMAINS),
+        'process.env.OIDC_DOMAIN_CLAIM': JSON.stringify(env.OIDC_DOMAIN_CLAIM),
+        'process.env.OIDC_ROLE_CLAIM': JSON.stringify(env.OIDC_ROLE_CLAIM),
+        'process.env.OIDC_ROLE_MAP': JSON.stringify(env.OIDC_ROLE_MAP)
       },
       resolve: {
         alias: {